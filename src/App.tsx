@@ -1,9 +1,37 @@
+import { useState } from "react";
 import { TreeVisualization } from "./components/TreeVisualization";
+import { TreeComparison } from "./components/TreeComparison";
+import { TreeQuiz } from "./components/TreeQuiz";
+import { BTreeVisualization } from "./components/BTreeVisualization";
+import { HeapVisualization } from "./components/HeapVisualization";
+import { TrieVisualization } from "./components/TrieVisualization";
+import { StructureTabs, type Structure } from "./components/StructureTabs";
 
 function App() {
+  const [structure, setStructure] = useState<Structure>("binary");
+
   return (
-    <div className="h-screen w-screen bg-background overflow-hidden dark">
-      <TreeVisualization />
+    <div className="h-screen w-screen bg-background overflow-hidden dark flex flex-col">
+      <StructureTabs value={structure} onChange={setStructure} />
+      {/* Views stay mounted so each keeps its tree while another tab is open */}
+      <div className={structure === "binary" ? "flex-1 min-h-0" : "hidden"}>
+        <TreeVisualization active={structure === "binary"} />
+      </div>
+      <div className={structure === "compare" ? "flex-1 min-h-0" : "hidden"}>
+        <TreeComparison />
+      </div>
+      <div className={structure === "quiz" ? "flex-1 min-h-0" : "hidden"}>
+        <TreeQuiz />
+      </div>
+      <div className={structure === "btree" ? "flex-1 min-h-0" : "hidden"}>
+        <BTreeVisualization />
+      </div>
+      <div className={structure === "heap" ? "flex-1 min-h-0" : "hidden"}>
+        <HeapVisualization />
+      </div>
+      <div className={structure === "trie" ? "flex-1 min-h-0" : "hidden"}>
+        <TrieVisualization />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,43 @@
+import React, { useEffect, useRef } from 'react';
+import type { StepPlayer } from '../hooks/useStepPlayer';
+
+interface AlgorithmLogProps<TFrame> {
+  player: StepPlayer<TFrame>;
+  placeholder?: string;
+}
+
+/** Messages of the recorded steps played so far; clicking one jumps to that step. */
+export const AlgorithmLog = <TFrame,>({
+  player,
+  placeholder = 'Use the input field at the top to see algorithm steps...',
+}: AlgorithmLogProps<TFrame>): React.ReactElement => {
+  const logEndRef = useRef<HTMLDivElement>(null);
+  const logSteps = player.steps.slice(0, player.index + 1);
+
+  // Keep the latest step of the log in view while playing
+  useEffect(() => {
+    logEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [player.index, player.steps]);
+
+  return (
+    <div className="flex-1 p-4">
+      <h3 className="text-lg font-semibold text-foreground mb-3">📋 Algorithm Log</h3>
+      <div className="space-y-1 max-h-52 overflow-y-auto bg-muted/50 p-3 rounded border border-border text-xs">
+        {logSteps.length === 0 ? (
+          <p className="text-muted-foreground">{placeholder}</p>
+        ) : (
+          logSteps.map((step, index) => (
+            <p
+              key={index}
+              onClick={() => player.seek(index)}
+              className={`font-mono cursor-pointer ${index === player.index ? 'text-primary font-bold' : 'text-foreground'}`}
+            >
+              {step.message}
+            </p>
+          ))
+        )}
+        <div ref={logEndRef} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React from 'react';
+import { BTreeNode } from '../types/BTreeNode';
+import type { BTreeFrame } from '../lib/bTreeAlgorithms';
+import { tidyLayout } from '../lib/tidyLayout';
+
+interface BTreeCanvasProps {
+  frame: BTreeFrame;
+  width: number;
+  height: number;
+}
+
+const KEY_WIDTH = 44;
+const NODE_HEIGHT = 40;
+const SIBLING_GAP = 28;
+const LEVEL_HEIGHT = 100;
+
+const nodeWidth = (node: BTreeNode): number => Math.max(1, node.keys.length) * KEY_WIDTH;
+
+const layoutBTree = (root: BTreeNode): void => {
+  const positions = tidyLayout(root, {
+    children: node => node.children,
+    breadth: nodeWidth,
+    siblingGap: SIBLING_GAP,
+    levelGap: LEVEL_HEIGHT,
+  });
+  for (const [node, { x, y }] of positions) {
+    node.x = x;
+    node.y = y;
+  }
+};
+
+export const BTreeCanvas: React.FC<BTreeCanvasProps> = ({ frame, width, height }) => {
+  const { root, highlighted, visited, found } = frame;
+  if (!root) return null;
+
+  layoutBTree(root);
+  const nodes = root.getAllNodes();
+
+  const renderNode = (node: BTreeNode): React.ReactElement => {
+    const boxWidth = nodeWidth(node);
+    const left = node.x - boxWidth / 2;
+    const top = node.y - NODE_HEIGHT / 2;
+
+    const fill = found.has(node.id)
+      ? '#10b981' // green for search result
+      : highlighted.has(node.id)
+      ? '#f59e0b' // amber for highlighted (currently scanning)
+      : visited.has(node.id)
+      ? '#8b5cf6' // purple for visited (part of path)
+      : '#3b82f6'; // blue for default
+
+    return (
+      <g key={`node-${node.id}`}>
+        {/* Edges leave from the gaps between keys */}
+        {node.children.map((child, index) => (
+          <line
+            key={`edge-${node.id}-${index}`}
+            x1={left + index * KEY_WIDTH}
+            y1={top + NODE_HEIGHT}
+            x2={child.x}
+            y2={child.y - NODE_HEIGHT / 2}
+            stroke={visited.has(child.id) || highlighted.has(child.id) ? '#8b5cf6' : 'hsl(var(--muted-foreground))'}
+            strokeWidth="2.5"
+            strokeLinecap="round"
+          />
+        ))}
+
+        <rect
+          x={left}
+          y={top}
+          width={boxWidth}
+          height={NODE_HEIGHT}
+          rx="8"
+          fill={fill}
+          stroke="hsl(var(--background))"
+          strokeWidth="3"
+          className="transition-all duration-300"
+          style={{
+            filter: highlighted.has(node.id)
+              ? 'drop-shadow(0 0 16px rgba(245, 158, 11, 0.8))'
+              : 'drop-shadow(0 2px 4px rgba(0, 0, 0, 0.2))'
+          }}
+        />
+
+        {node.keys.map((key, index) => (
+          <g key={`key-${node.id}-${index}`}>
+            {index > 0 && (
+              <line
+                x1={left + index * KEY_WIDTH}
+                y1={top}
+                x2={left + index * KEY_WIDTH}
+                y2={top + NODE_HEIGHT}
+                stroke="hsl(var(--background))"
+                strokeWidth="2"
+              />
+            )}
+            <text
+              x={left + index * KEY_WIDTH + KEY_WIDTH / 2}
+              y={node.y}
+              textAnchor="middle"
+              dy="0.35em"
+              fill="white"
+              fontSize="16"
+              fontWeight="bold"
+              style={{ textShadow: '1px 1px 2px rgba(0,0,0,0.8)' }}
+            >
+              {key}
+            </text>
+          </g>
+        ))}
+      </g>
+    );
+  };
+
+  const minX = Math.min(...nodes.map(node => node.x - nodeWidth(node) / 2));
+  const maxX = Math.max(...nodes.map(node => node.x + nodeWidth(node) / 2));
+  const maxY = Math.max(...nodes.map(node => node.y));
+  const padding = 50;
+  const viewBoxX = minX - padding;
+  const viewBoxY = -NODE_HEIGHT / 2 - padding;
+  const viewBoxWidth = maxX - minX + 2 * padding;
+  const viewBoxHeight = maxY + NODE_HEIGHT + 2 * padding;
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      className="border border-border rounded-lg bg-gradient-to-br from-background to-muted/20 shadow-xl"
+      viewBox={`${viewBoxX} ${viewBoxY} ${viewBoxWidth} ${viewBoxHeight}`}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {nodes.map(renderNode)}
+    </svg>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { BTreeNode } from '../types/BTreeNode';
+import { Button } from './ui/button';
+import { BTreeCanvas } from './BTreeCanvas';
+import { StepPlayerControls } from './StepPlayerControls';
+import { AlgorithmLog } from './AlgorithmLog';
+import { useStepPlayer } from '../hooks/useStepPlayer';
+import { useCanvasDimensions } from '../hooks/useCanvasDimensions';
+import { staticFrame } from '../lib/treeRecorder';
+import { NUMBER_KEYS } from '../lib/keys';
+import {
+  MAX_ORDER,
+  MIN_ORDER,
+  buildBTree,
+  maxKeys,
+  minKeys,
+  recordBTreeDeletion,
+  recordBTreeInsertion,
+  recordBTreeSearch,
+  type BTreeFrame,
+} from '../lib/bTreeAlgorithms';
+
+const ORDERS = Array.from({ length: MAX_ORDER - MIN_ORDER + 1 }, (_, index) => MIN_ORDER + index);
+
+export const BTreeVisualization: React.FC = () => {
+  const [tree, setTree] = useState<BTreeNode | null>(null);
+  const [inputValue, setInputValue] = useState<string>('');
+  const [order, setOrder] = useState(4);
+  const player = useStepPlayer<BTreeFrame>();
+  const isAnimating = player.isPlaying;
+  // Account for the structure tabs, header, input and player controls
+  const dimensions = useCanvasDimensions(300);
+
+  // Initialize with a sample tree
+  useEffect(() => {
+    setTree(buildBTree(4, [50, 20, 80, 10, 30, 40, 60, 70, 90, 25, 35, 45]));
+  }, []);
+
+  // Parses the input as a number, telling the user when it is not one
+  const readKey = (): number | null => {
+    const key = NUMBER_KEYS.parse(inputValue);
+    if (key === null) {
+      toast.error(`"${inputValue}" is not a number`);
+    }
+    return key;
+  };
+
+  const handleInsert = () => {
+    if (isAnimating) return;
+    const key = readKey();
+    if (key === null) return;
+
+    const { steps, result } = recordBTreeInsertion(tree, key, order);
+    setTree(result);
+    player.load(steps);
+    setInputValue('');
+  };
+
+  const handleSearch = () => {
+    if (!tree || isAnimating) return;
+    const key = readKey();
+    if (key === null) return;
+
+    player.load(recordBTreeSearch(tree, key).steps);
+    setInputValue('');
+  };
+
+  const handleDelete = () => {
+    if (!tree || isAnimating) return;
+    const key = readKey();
+    if (key === null) return;
+
+    const { steps, result } = recordBTreeDeletion(tree, key, order);
+    setTree(result);
+    player.load(steps);
+    setInputValue('');
+  };
+
+  const handleOrderChange = (newOrder: number) => {
+    if (newOrder === order || isAnimating) return;
+
+    // Nodes may be too full or too empty for the new order, so rebuild from the keys
+    setOrder(newOrder);
+    setTree(buildBTree(newOrder, tree ? tree.getAllKeys() : []));
+    player.clear();
+  };
+
+  const clearTree = () => {
+    setTree(null);
+    player.clear();
+  };
+
+  // While a recording is loaded the canvas shows its current step, otherwise the live tree
+  const frame = player.currentStep?.frame ?? staticFrame(tree);
+
+  return (
+    <div className="h-full w-full flex flex-col bg-background">
+      {/* Header */}
+      <div className="bg-card shadow-lg border-b border-border px-6 py-4">
+        <h1 className="text-2xl font-bold text-center text-foreground">
+          🗂️ B-Tree Visualization
+        </h1>
+      </div>
+
+      {/* Input Section */}
+      <div className="bg-gradient-to-r from-muted/20 to-accent/20 p-4 border-b border-border">
+        <div className="flex gap-4 items-center justify-center">
+          <input
+            type="number"
+            placeholder="Key (e.g., 42)"
+            value={inputValue}
+            onChange={(e) => setInputValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                handleInsert();
+              }
+            }}
+            disabled={isAnimating}
+            className="w-48 text-xl py-2 px-4 border-2 border-input focus:border-ring rounded-lg focus:outline-none disabled:opacity-50 bg-background text-center font-bold text-foreground"
+          />
+          <Button onClick={handleInsert} disabled={isAnimating || !inputValue} className="font-bold">
+            INSERT
+          </Button>
+          <Button onClick={handleSearch} disabled={isAnimating || !inputValue || !tree} variant="secondary" className="font-bold">
+            SEARCH
+          </Button>
+          <Button onClick={handleDelete} disabled={isAnimating || !inputValue || !tree} variant="destructive" className="font-bold">
+            DELETE
+          </Button>
+        </div>
+      </div>
+
+      {/* Main content */}
+      <div className="flex-1 flex">
+        {/* Tree visualization area */}
+        <div className="flex-1 p-4 flex flex-col items-center justify-center gap-3">
+          <BTreeCanvas frame={frame} width={dimensions.width} height={dimensions.height} />
+          <div style={{ width: dimensions.width }}>
+            <StepPlayerControls player={player} />
+          </div>
+        </div>
+
+        {/* Control panel */}
+        <div className="w-80 bg-card shadow-xl border-l border-border flex flex-col">
+          {/* Order Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">📐 Order (max children)</h3>
+            <div className="grid grid-cols-5 gap-2">
+              {ORDERS.map(option => (
+                <Button
+                  key={option}
+                  onClick={() => handleOrderChange(option)}
+                  disabled={isAnimating}
+                  variant={order === option ? 'default' : 'outline'}
+                  size="sm"
+                >
+                  {option}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              {order === 3 ? '2-3 tree: ' : order === 4 ? '2-3-4 tree: ' : ''}
+              every node holds {minKeys(order)}–{maxKeys(order)} keys (the root may hold fewer)
+            </p>
+          </div>
+
+          {/* Utility Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">🛠️ Utilities</h3>
+            <div className="space-y-2">
+              <Button onClick={player.clear} disabled={isAnimating} variant="outline" className="w-full">
+                Clear Highlights
+              </Button>
+              <Button onClick={clearTree} disabled={isAnimating} variant="destructive" className="w-full">
+                Clear Tree
+              </Button>
+            </div>
+          </div>
+
+          <AlgorithmLog player={player} />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dices, X } from 'lucide-react';
+import { Button } from './ui/button';
+import type { KeyType } from '../lib/keys';
+import { TreeParseError, parseKeySequence } from '../lib/treeFormats';
+import { DATA_SETS, MAX_DATA_SET_SIZE, generateKeys, randomSeed, type DataSetKind } from '../lib/dataSets';
+
+export interface BulkLoadOptions {
+  // Start from an empty tree rather than adding to the current one
+  replace: boolean;
+  animate: boolean;
+  // How the load is named in the history
+  label: string;
+}
+
+interface BulkLoadDialogProps<K> {
+  keyType: KeyType<K>;
+  // Longest run of insertions that is animated one by one
+  maxAnimated: number;
+  onLoad: (values: K[], options: BulkLoadOptions) => void;
+  onClose: () => void;
+}
+
+type Source = 'paste' | 'generate';
+
+// Keys listed in the preview before the rest are only counted
+const PREVIEW_LENGTH = 12;
+
+/** Loads many keys at once, pasted as a list or generated as one of the data sets. */
+export const BulkLoadDialog = <K,>({ keyType, maxAnimated, onLoad, onClose }: BulkLoadDialogProps<K>): React.ReactElement => {
+  const [source, setSource] = useState<Source>('paste');
+  const [text, setText] = useState('');
+  const [kind, setKind] = useState<DataSetKind>('random');
+  const [size, setSize] = useState('15');
+  const [seed, setSeed] = useState(randomSeed);
+  const [replace, setReplace] = useState(true);
+  const [animate, setAnimate] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // The keys that would be loaded, or why there are none
+  const batch = useMemo((): { values: K[]; error: string | null } => {
+    if (source === 'paste') {
+      try {
+        return { values: parseKeySequence(text, keyType), error: null };
+      } catch (error) {
+        if (!(error instanceof TreeParseError)) throw error;
+        return { values: [], error: error.message };
+      }
+    }
+    const count = /^\s*\d+\s*$/.test(size) ? parseInt(size) : NaN;
+    if (!(count >= 1 && count <= MAX_DATA_SET_SIZE)) {
+      return { values: [], error: `The size must be a whole number from 1 to ${MAX_DATA_SET_SIZE}` };
+    }
+    return { values: generateKeys(kind, count, seed, keyType), error: null };
+  }, [source, text, size, kind, seed, keyType]);
+
+  const { values, error } = batch;
+  const handleLoad = () => {
+    if (values.length === 0) return;
+    const label =
+      source === 'paste'
+        ? `Bulk load ${values.length} keys`
+        : `Load ${values.length} ${DATA_SETS[kind].label.toLowerCase()} keys`;
+    onLoad(values, { replace, animate, label });
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+      onClick={event => event.target === event.currentTarget && onClose()}
+    >
+      <div role="dialog" aria-modal="true" className="w-[32rem] max-w-[90vw] bg-card border border-border rounded-lg shadow-xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-foreground">📥 Bulk Load</h2>
+          <Button onClick={onClose} variant="ghost" size="icon" title="Close">
+            <X />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          <Button onClick={() => setSource('paste')} variant={source === 'paste' ? 'default' : 'outline'} size="sm">
+            Paste a list
+          </Button>
+          <Button onClick={() => setSource('generate')} variant={source === 'generate' ? 'default' : 'outline'} size="sm">
+            Generate
+          </Button>
+        </div>
+
+        {source === 'paste' ? (
+          <textarea
+            autoFocus
+            value={text}
+            onChange={event => setText(event.target.value)}
+            placeholder={keyType.samples.map(keyType.format).join(', ')}
+            rows={5}
+            spellCheck={false}
+            className="w-full bg-background text-foreground border border-input rounded-md px-2 py-1 font-mono text-sm"
+          />
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(DATA_SETS) as DataSetKind[]).map(option => (
+                <Button
+                  key={option}
+                  onClick={() => setKind(option)}
+                  variant={kind === option ? 'default' : 'outline'}
+                  size="sm"
+                  className="text-xs"
+                  title={DATA_SETS[option].description}
+                >
+                  {DATA_SETS[option].label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">{DATA_SETS[kind].description}</p>
+            <div className="flex gap-2 items-center mt-3 text-sm text-foreground">
+              <label htmlFor="bulk-size">Keys</label>
+              <input
+                id="bulk-size"
+                type="number"
+                min={1}
+                max={MAX_DATA_SET_SIZE}
+                value={size}
+                onChange={event => setSize(event.target.value)}
+                className="w-24 bg-background text-foreground border border-input rounded-md px-2 py-1 text-sm"
+              />
+              {kind === 'random' && (
+                <>
+                  <label htmlFor="bulk-seed" className="ml-2">
+                    Seed
+                  </label>
+                  <input
+                    id="bulk-seed"
+                    type="number"
+                    value={seed}
+                    onChange={event => setSeed(parseInt(event.target.value) || 0)}
+                    className="w-28 bg-background text-foreground border border-input rounded-md px-2 py-1 text-sm"
+                  />
+                  <Button onClick={() => setSeed(randomSeed())} variant="outline" size="icon" title="New seed">
+                    <Dices />
+                  </Button>
+                </>
+              )}
+            </div>
+          </>
+        )}
+
+        <p className={`text-xs mt-3 min-h-8 font-mono ${error ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {error ??
+            (values.length === 0
+              ? 'No keys yet'
+              : `${values.length} key${values.length === 1 ? '' : 's'}: ${values.slice(0, PREVIEW_LENGTH).map(keyType.format).join(', ')}${
+                  values.length > PREVIEW_LENGTH ? ', …' : ''
+                }`)}
+        </p>
+
+        <div className="space-y-1 mt-3 text-sm text-foreground">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={replace} onChange={event => setReplace(event.target.checked)} />
+            Start from an empty tree
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={animate} onChange={event => setAnimate(event.target.checked)} />
+            Animate each insertion in turn (up to {maxAnimated} keys)
+          </label>
+        </div>
+
+        <div className="flex gap-2 justify-end mt-4">
+          <Button onClick={onClose} variant="outline">
+            Cancel
+          </Button>
+          <Button onClick={handleLoad} disabled={values.length === 0}>
+            {values.length > 0 ? `Insert ${values.length} Keys` : 'Insert Keys'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Crosshair, Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from './ui/button';
+
+interface CameraControlsProps {
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onFit: () => void;
+  follow: boolean;
+  onToggleFollow: () => void;
+}
+
+export const CameraControls: React.FC<CameraControlsProps> = ({ onZoomIn, onZoomOut, onFit, follow, onToggleFollow }) => (
+  <div className="flex gap-1 bg-card/90 border border-border rounded-lg p-1 shadow-lg">
+    <Button onClick={onZoomIn} variant="ghost" size="icon" title="Zoom in">
+      <ZoomIn />
+    </Button>
+    <Button onClick={onZoomOut} variant="ghost" size="icon" title="Zoom out">
+      <ZoomOut />
+    </Button>
+    <Button onClick={onFit} variant="ghost" size="icon" title="Fit to tree">
+      <Maximize />
+    </Button>
+    <Button
+      onClick={onToggleFollow}
+      variant={follow ? 'default' : 'ghost'}
+      size="icon"
+      title={follow ? 'Stop following the compared node' : 'Follow the compared node during animations'}
+    >
+      <Crosshair />
+    </Button>
+  </div>
+);
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import type { StepPlayer } from '../hooks/useStepPlayer';
+import { CODE_LANGUAGES, CODE_LISTINGS, type CodeLanguage } from '../lib/codeListings';
+
+interface CodePanelProps<TFrame> {
+  player: StepPlayer<TFrame>;
+}
+
+/**
+ * The code of the algorithm being played, with the line of the current step
+ * highlighted. Steps outside the listing, like the rotations after an AVL
+ * insertion, keep showing the listing of the last step that had a line.
+ */
+export const CodePanel = <TFrame,>({ player }: CodePanelProps<TFrame>): React.ReactElement => {
+  const [language, setLanguage] = useState<CodeLanguage>('pseudocode');
+
+  const current = player.steps[player.index];
+  let located = current?.line;
+  for (let i = player.index - 1; !located && i >= 0; i--) located = player.steps[i].line;
+  const listing = located && CODE_LISTINGS[located.listing];
+  const activeLine = current?.line?.line;
+
+  return (
+    <div className="p-4 border-b border-border">
+      <h3 className="text-lg font-semibold text-foreground mb-3">🧾 Code</h3>
+      <div className="grid grid-cols-4 gap-1">
+        {(Object.keys(CODE_LANGUAGES) as CodeLanguage[]).map(option => (
+          <Button
+            key={option}
+            onClick={() => setLanguage(option)}
+            variant={language === option ? 'default' : 'outline'}
+            size="sm"
+            className="text-xs px-1"
+          >
+            {option === 'pseudocode' ? 'Pseudo' : CODE_LANGUAGES[option]}
+          </Button>
+        ))}
+      </div>
+      {!listing ? (
+        <p className="text-xs text-muted-foreground mt-3">Insert, search or traverse to follow the algorithm line by line.</p>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground mt-3 mb-1">
+            {listing.title}
+            {!current?.line && ' · this step is not part of the listing'}
+          </p>
+          <pre className="bg-muted/50 border border-border rounded text-[11px] leading-5 py-1 overflow-x-auto">
+            {listing.code[language].map(({ text, id }, index) => (
+              <div
+                key={index}
+                className={`flex pr-2 ${id !== undefined && id === activeLine ? 'bg-primary/20 text-primary font-bold' : 'text-foreground'}`}
+              >
+                <span className="w-7 shrink-0 pr-2 text-right text-muted-foreground select-none">{index + 1}</span>
+                <span className="whitespace-pre">{text}</span>
+              </div>
+            ))}
+          </pre>
+        </>
+      )}
+    </div>
+  );
+};
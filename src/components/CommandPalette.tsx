@@ -0,0 +1,93 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { matchCommands, type Command } from '../lib/commands';
+
+interface CommandPaletteProps {
+  commands: Command[];
+  onClose: () => void;
+}
+
+/** Runs any command by typing part of its name; commands on a key take it after their name, as in "insert 42". */
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const matches = useMemo(() => matchCommands(commands, query), [commands, query]);
+  const current = Math.min(selected, matches.length - 1);
+
+  useEffect(() => {
+    listRef.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [current]);
+
+  const run = (index: number) => {
+    const match = matches[index];
+    if (!match || match.command.disabled) return;
+    onClose();
+    match.command.run(match.argument);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setSelected((current + step + matches.length) % Math.max(1, matches.length));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      run(current);
+    } else if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center pt-[15vh] bg-black/50"
+      onClick={event => event.target === event.currentTarget && onClose()}
+    >
+      <div role="dialog" aria-modal="true" className="w-[36rem] max-w-[90vw] bg-card border border-border rounded-lg shadow-xl">
+        <input
+          autoFocus
+          value={query}
+          onChange={event => {
+            setQuery(event.target.value);
+            setSelected(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder='Type a command, like "insert 42" or "pre-order"'
+          spellCheck={false}
+          className="w-full bg-transparent text-foreground text-lg px-4 py-3 border-b border-border focus:outline-none"
+        />
+        <ul ref={listRef} role="listbox" className="max-h-[50vh] overflow-y-auto py-1">
+          {matches.length === 0 && <li className="px-4 py-3 text-sm text-muted-foreground">No command matches "{query}"</li>}
+          {matches.map(({ command, argument }, index) => (
+            <li
+              key={command.id}
+              role="option"
+              aria-selected={index === current}
+              aria-disabled={command.disabled}
+              onMouseMove={() => setSelected(index)}
+              onClick={() => run(index)}
+              className={`flex items-center gap-3 px-4 py-2 text-sm cursor-pointer ${
+                index === current ? 'bg-primary/20' : ''
+              } ${command.disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <span className="w-24 shrink-0 text-xs text-muted-foreground">{command.group}</span>
+              <span className="flex-1 min-w-0 truncate text-foreground">
+                {command.label}
+                {argument && <span className="ml-2 font-mono font-semibold text-primary">{argument}</span>}
+              </span>
+              {command.shortcut && (
+                <kbd className="px-1.5 py-0.5 rounded border border-border bg-muted text-xs font-mono text-muted-foreground">
+                  {command.shortcut}
+                </kbd>
+              )}
+            </li>
+          ))}
+        </ul>
+        <p className="px-4 py-2 border-t border-border text-xs text-muted-foreground">
+          ↑ ↓ to choose · Enter to run · Esc to close. Key commands use the key field when no key is typed.
+        </p>
+      </div>
+    </div>
+  );
+};
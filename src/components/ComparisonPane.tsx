@@ -0,0 +1,106 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { Button } from './ui/button';
+import { TreeCanvas } from './TreeCanvas';
+import { useCamera } from '../hooks/useCamera';
+import type { TreeNode } from '../types/TreeNode';
+import type { TreeFrame } from '../lib/treeRecorder';
+import { TREE_MODES, type TreeMode } from '../lib/treeModes';
+import { INSERTION_ORDERS, type InsertionOrder } from '../lib/insertionOrders';
+import { DEFAULT_LAYOUT } from '../lib/tidyLayout';
+import type { TreeKey } from '../lib/keys';
+
+interface ComparisonPaneProps {
+  title: string;
+  mode: TreeMode;
+  order: InsertionOrder;
+  frame: TreeFrame<TreeNode<TreeKey>>;
+  // The message of the step this tree is at, while a recording is loaded
+  message: string | null;
+  width: number;
+  height: number;
+  formatKey: (key: TreeKey) => string;
+  disabled: boolean;
+  onModeChange: (mode: TreeMode) => void;
+  onOrderChange: (order: InsertionOrder) => void;
+  // Left out when the comparison cannot lose another tree
+  onRemove?: () => void;
+}
+
+const SELECT_CLASS = 'bg-background text-foreground border border-input rounded-md px-2 py-1 text-sm disabled:opacity-50';
+
+/** One of the trees of a side-by-side comparison, with its own camera. */
+export const ComparisonPane: React.FC<ComparisonPaneProps> = ({
+  title,
+  mode,
+  order,
+  frame,
+  message,
+  width,
+  height,
+  formatKey,
+  disabled,
+  onModeChange,
+  onOrderChange,
+  onRemove,
+}) => {
+  const camera = useCamera();
+
+  return (
+    <div className="h-full flex flex-col gap-2 p-2 overflow-hidden">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold text-foreground">{title}</span>
+        <select
+          value={mode}
+          onChange={(e) => onModeChange(e.target.value as TreeMode)}
+          disabled={disabled}
+          className={SELECT_CLASS}
+          aria-label={`${title} mode`}
+        >
+          {(Object.keys(TREE_MODES) as TreeMode[]).map(option => (
+            <option key={option} value={option}>
+              {TREE_MODES[option].label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={order}
+          onChange={(e) => onOrderChange(e.target.value as InsertionOrder)}
+          disabled={disabled}
+          className={SELECT_CLASS}
+          aria-label={`${title} insertion order`}
+        >
+          {(Object.keys(INSERTION_ORDERS) as InsertionOrder[]).map(option => (
+            <option key={option} value={option}>
+              {INSERTION_ORDERS[option]}
+            </option>
+          ))}
+        </select>
+        {onRemove && (
+          <Button
+            onClick={onRemove}
+            disabled={disabled}
+            variant="ghost"
+            size="icon"
+            title={`Remove ${title}`}
+            className="ml-auto"
+          >
+            <X />
+          </Button>
+        )}
+      </div>
+      <TreeCanvas
+        frame={frame}
+        width={width}
+        height={height}
+        mode={mode}
+        formatKey={formatKey}
+        layout={DEFAULT_LAYOUT}
+        camera={camera}
+      />
+      <p className="h-5 truncate font-mono text-xs text-muted-foreground" title={message ?? undefined}>
+        {message}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React from 'react';
+import { leftIndex, rightIndex, type HeapFrame } from '../lib/heapAlgorithms';
+
+interface HeapViewProps {
+  frame: HeapFrame;
+  selected: number | null;
+  onSelect: (index: number) => void;
+}
+
+interface HeapCanvasProps extends HeapViewProps {
+  width: number;
+  height: number;
+}
+
+const NODE_RADIUS = 26;
+const SLOT_WIDTH = 64;
+const LEVEL_HEIGHT = 90;
+
+const depthOf = (index: number): number => Math.floor(Math.log2(index + 1));
+
+const stateColor = (frame: HeapFrame, index: number): string =>
+  frame.found.has(index)
+    ? '#10b981' // green for result
+    : frame.highlighted.has(index)
+    ? '#f59e0b' // amber for highlighted (currently comparing)
+    : frame.visited.has(index)
+    ? '#8b5cf6' // purple for visited
+    : '#3b82f6'; // blue for default
+
+/**
+ * Draws the heap as the complete binary tree its array encodes: index `i` sits
+ * at depth ⌊log₂(i + 1)⌋, and every level splits the width evenly.
+ */
+export const HeapCanvas: React.FC<HeapCanvasProps> = ({ frame, width, height, selected, onSelect }) => {
+  const { values } = frame;
+  if (values.length === 0) return null;
+
+  const levels = depthOf(values.length - 1) + 1;
+  const totalWidth = Math.pow(2, levels - 1) * SLOT_WIDTH;
+  const positionOf = (index: number) => {
+    const depth = depthOf(index);
+    const slot = index - (Math.pow(2, depth) - 1);
+    const spacing = totalWidth / Math.pow(2, depth);
+    return { x: (slot + 0.5) * spacing, y: depth * LEVEL_HEIGHT };
+  };
+
+  const padding = 50;
+  const viewBox = `${-padding} ${-NODE_RADIUS - padding} ${totalWidth + 2 * padding} ${(levels - 1) * LEVEL_HEIGHT + 2 * (NODE_RADIUS + padding)}`;
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      className="border border-border rounded-lg bg-gradient-to-br from-background to-muted/20 shadow-xl"
+      viewBox={viewBox}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {values.map((_, index) => {
+        const from = positionOf(index);
+        return [leftIndex(index), rightIndex(index)]
+          .filter(child => child < values.length)
+          .map(child => {
+            const to = positionOf(child);
+            const active = frame.highlighted.has(index) && frame.highlighted.has(child);
+            return (
+              <line
+                key={`edge-${child}`}
+                x1={from.x}
+                y1={from.y}
+                x2={to.x}
+                y2={to.y}
+                stroke={active ? '#f59e0b' : 'hsl(var(--muted-foreground))'}
+                strokeWidth={active ? '4' : '2.5'}
+                strokeLinecap="round"
+                className="transition-all duration-300"
+              />
+            );
+          });
+      })}
+
+      {values.map((value, index) => {
+        const { x, y } = positionOf(index);
+        return (
+          <g key={`node-${index}`} className="cursor-pointer" onClick={() => onSelect(index)}>
+            <circle
+              cx={x}
+              cy={y}
+              r={NODE_RADIUS}
+              fill={stateColor(frame, index)}
+              stroke={selected === index ? 'hsl(var(--foreground))' : 'hsl(var(--background))'}
+              strokeWidth={selected === index ? '4' : '3'}
+              className="transition-all duration-300"
+              style={{
+                filter: frame.highlighted.has(index)
+                  ? 'drop-shadow(0 0 16px rgba(245, 158, 11, 0.8))'
+                  : 'drop-shadow(0 2px 4px rgba(0, 0, 0, 0.2))'
+              }}
+            />
+            <text
+              x={x}
+              y={y}
+              textAnchor="middle"
+              dy="0.35em"
+              fill="white"
+              fontSize="16"
+              fontWeight="bold"
+              style={{ textShadow: '1px 1px 2px rgba(0,0,0,0.8)' }}
+            >
+              {value}
+            </text>
+            {/* Array index */}
+            <text
+              x={x + NODE_RADIUS + 2}
+              y={y - NODE_RADIUS + 4}
+              fontSize="11"
+              fontWeight="bold"
+              fill="hsl(var(--muted-foreground))"
+            >
+              [{index}]
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+/** The backing array of the heap, highlighted in step with the tree view. */
+export const HeapArrayView: React.FC<HeapViewProps> = ({ frame, selected, onSelect }) => (
+  <div className="flex flex-wrap justify-center gap-1">
+    {frame.values.map((value, index) => (
+      <button
+        key={index}
+        onClick={() => onSelect(index)}
+        className="flex flex-col items-center"
+      >
+        <span
+          className={`w-11 h-11 flex items-center justify-center rounded font-bold text-white transition-colors duration-300 ${
+            selected === index ? 'ring-2 ring-foreground' : ''
+          }`}
+          style={{ backgroundColor: stateColor(frame, index) }}
+        >
+          {value}
+        </span>
+        <span className="text-[10px] text-muted-foreground font-mono">{index}</span>
+      </button>
+    ))}
+  </div>
+);
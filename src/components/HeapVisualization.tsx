@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { Button } from './ui/button';
+import { HeapArrayView, HeapCanvas } from './HeapCanvas';
+import { StepPlayerControls } from './StepPlayerControls';
+import { AlgorithmLog } from './AlgorithmLog';
+import { useStepPlayer } from '../hooks/useStepPlayer';
+import { useCanvasDimensions } from '../hooks/useCanvasDimensions';
+import { NUMBER_KEYS } from '../lib/keys';
+import {
+  recordHeapExtraction,
+  recordHeapify,
+  recordHeapInsertion,
+  recordKeyChange,
+  staticHeapFrame,
+  type HeapFrame,
+  type HeapKind,
+  type HeapRecording,
+} from '../lib/heapAlgorithms';
+
+const SAMPLE_VALUES = [42, 17, 8, 91, 23, 4, 56, 15, 33, 70];
+
+export const HeapVisualization: React.FC = () => {
+  const [kind, setKind] = useState<HeapKind>('min');
+  const [heap, setHeap] = useState<number[]>(() => recordHeapify(SAMPLE_VALUES, 'min').result);
+  const [inputValue, setInputValue] = useState<string>('');
+  const [arrayInput, setArrayInput] = useState<string>(SAMPLE_VALUES.join(', '));
+  const [selected, setSelected] = useState<number | null>(null);
+  const player = useStepPlayer<HeapFrame>();
+  const isAnimating = player.isPlaying;
+  // The array view sits between the canvas and the player controls
+  const dimensions = useCanvasDimensions(400);
+
+  const apply = ({ steps, result }: HeapRecording) => {
+    setHeap(result);
+    setSelected(null);
+    player.load(steps);
+  };
+
+  // Parses the input as a number, telling the user when it is not one
+  const readValue = (): number | null => {
+    const value = NUMBER_KEYS.parse(inputValue);
+    if (value === null) {
+      toast.error(`"${inputValue}" is not a number`);
+    }
+    return value;
+  };
+
+  const handleInsert = () => {
+    if (isAnimating) return;
+    const value = readValue();
+    if (value === null) return;
+
+    apply(recordHeapInsertion(heap, value, kind));
+    setInputValue('');
+  };
+
+  const handleExtract = () => {
+    if (heap.length === 0 || isAnimating) return;
+    apply(recordHeapExtraction(heap, kind));
+  };
+
+  const handleKeyChange = () => {
+    if (selected === null || isAnimating) return;
+    const value = readValue();
+    if (value === null) return;
+
+    apply(recordKeyChange(heap, selected, value, kind));
+    setInputValue('');
+  };
+
+  const handleHeapify = () => {
+    if (isAnimating) return;
+    const tokens = arrayInput.split(/[\s,]+/).filter(token => token !== '');
+    const invalid = tokens.find(token => NUMBER_KEYS.parse(token) === null);
+    if (invalid !== undefined) {
+      toast.error(`"${invalid}" is not a number`);
+      return;
+    }
+    const values = tokens.map(token => NUMBER_KEYS.parse(token)!);
+
+    apply(recordHeapify(values, kind));
+  };
+
+  const handleKindChange = (newKind: HeapKind) => {
+    if (newKind === kind || isAnimating) return;
+
+    // The current array is in the wrong order for the other kind, so rebuild it with heapify
+    setKind(newKind);
+    apply(recordHeapify(heap, newKind));
+  };
+
+  const clearHeap = () => {
+    setHeap([]);
+    setSelected(null);
+    player.clear();
+  };
+
+  // While a recording is loaded both views show its current step, otherwise the live heap
+  const frame = player.currentStep?.frame ?? staticHeapFrame(heap);
+  const keyChangeLabel = kind === 'min' ? 'DECREASE KEY' : 'INCREASE KEY';
+
+  return (
+    <div className="h-full w-full flex flex-col bg-background">
+      {/* Header */}
+      <div className="bg-card shadow-lg border-b border-border px-6 py-4">
+        <h1 className="text-2xl font-bold text-center text-foreground">
+          ⛰️ Binary Heap Visualization
+        </h1>
+      </div>
+
+      {/* Input Section */}
+      <div className="bg-gradient-to-r from-muted/20 to-accent/20 p-4 border-b border-border">
+        <div className="flex gap-4 items-center justify-center">
+          <input
+            type="number"
+            placeholder="Value (e.g., 42)"
+            value={inputValue}
+            onChange={(e) => setInputValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                handleInsert();
+              }
+            }}
+            disabled={isAnimating}
+            className="w-48 text-xl py-2 px-4 border-2 border-input focus:border-ring rounded-lg focus:outline-none disabled:opacity-50 bg-background text-center font-bold text-foreground"
+          />
+          <Button onClick={handleInsert} disabled={isAnimating || !inputValue} className="font-bold">
+            INSERT
+          </Button>
+          <Button onClick={handleExtract} disabled={isAnimating || heap.length === 0} variant="destructive" className="font-bold">
+            EXTRACT {kind.toUpperCase()}
+          </Button>
+          <Button
+            onClick={handleKeyChange}
+            disabled={isAnimating || !inputValue || selected === null}
+            variant="secondary"
+            className="font-bold"
+            title="Click a node or array cell first"
+          >
+            {keyChangeLabel}{selected !== null && ` [${selected}]`}
+          </Button>
+        </div>
+      </div>
+
+      {/* Main content */}
+      <div className="flex-1 flex">
+        {/* Heap visualization area */}
+        <div className="flex-1 p-4 flex flex-col items-center justify-center gap-3">
+          <HeapCanvas
+            frame={frame}
+            width={dimensions.width}
+            height={dimensions.height}
+            selected={selected}
+            onSelect={setSelected}
+          />
+          <HeapArrayView frame={frame} selected={selected} onSelect={setSelected} />
+          <div style={{ width: dimensions.width }}>
+            <StepPlayerControls player={player} />
+          </div>
+        </div>
+
+        {/* Control panel */}
+        <div className="w-80 bg-card shadow-xl border-l border-border flex flex-col">
+          {/* Heap Kind Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">⚖️ Heap Kind</h3>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                onClick={() => handleKindChange('min')}
+                disabled={isAnimating}
+                variant={kind === 'min' ? 'default' : 'outline'}
+                size="sm"
+              >
+                Min-Heap
+              </Button>
+              <Button
+                onClick={() => handleKindChange('max')}
+                disabled={isAnimating}
+                variant={kind === 'max' ? 'default' : 'outline'}
+                size="sm"
+              >
+                Max-Heap
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Every parent is {kind === 'min' ? 'smaller' : 'larger'} than or equal to its children, so the {kind === 'min' ? 'minimum' : 'maximum'} sits at index 0
+            </p>
+          </div>
+
+          {/* Heapify Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">🧱 Heapify Array</h3>
+            <input
+              type="text"
+              placeholder="e.g. 5, 3, 8, 1"
+              value={arrayInput}
+              onChange={(e) => setArrayInput(e.target.value)}
+              disabled={isAnimating}
+              className="w-full mb-2 py-1.5 px-3 border border-input rounded-md bg-background text-sm font-mono text-foreground disabled:opacity-50"
+            />
+            <Button onClick={handleHeapify} disabled={isAnimating} variant="outline" className="w-full">
+              Build Heap
+            </Button>
+          </div>
+
+          {/* Utility Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">🛠️ Utilities</h3>
+            <div className="space-y-2">
+              <Button onClick={player.clear} disabled={isAnimating} variant="outline" className="w-full">
+                Clear Highlights
+              </Button>
+              <Button onClick={clearHeap} disabled={isAnimating} variant="destructive" className="w-full">
+                Clear Heap
+              </Button>
+            </div>
+          </div>
+
+          <AlgorithmLog player={player} />
+        </div>
+      </div>
+    </div>
+  );
+};
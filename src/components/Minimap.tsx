@@ -0,0 +1,62 @@
+import React, { useRef } from 'react';
+import type { Bounds, CameraView } from '../lib/camera';
+import type { Point } from '../lib/tidyLayout';
+
+interface MinimapProps {
+  bounds: Bounds;
+  view: CameraView;
+  // Size of the main viewport, which the outlined rectangle stands for
+  width: number;
+  height: number;
+  onCenter: (point: Point) => void;
+  children: React.ReactNode;
+}
+
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 130;
+
+/** The whole drawing in miniature with the visible part outlined; click or drag to move the camera there. */
+export const Minimap: React.FC<MinimapProps> = ({ bounds, view, width, height, onCenter, children }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const padding = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) * 0.05;
+
+  const centerOn = (event: React.PointerEvent) => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    onCenter({ x: point.x, y: point.y });
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      width={MINIMAP_WIDTH}
+      height={MINIMAP_HEIGHT}
+      className="bg-card/90 border border-border rounded-lg shadow-lg cursor-pointer touch-none"
+      viewBox={`${bounds.minX - padding} ${bounds.minY - padding} ${bounds.maxX - bounds.minX + 2 * padding} ${
+        bounds.maxY - bounds.minY + 2 * padding
+      }`}
+      preserveAspectRatio="xMidYMid meet"
+      onPointerDown={event => {
+        svgRef.current?.setPointerCapture(event.pointerId);
+        centerOn(event);
+      }}
+      onPointerMove={event => {
+        if (svgRef.current?.hasPointerCapture(event.pointerId)) centerOn(event);
+      }}
+    >
+      {children}
+      <rect
+        x={view.cx - (view.scale * width) / 2}
+        y={view.cy - (view.scale * height) / 2}
+        width={view.scale * width}
+        height={view.scale * height}
+        fill="var(--primary)"
+        fillOpacity="0.12"
+        stroke="var(--primary)"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+};
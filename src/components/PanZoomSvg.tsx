@@ -0,0 +1,117 @@
+import React, { useEffect, useRef } from 'react';
+import { panView, viewBoxOf, zoomView, type CameraView } from '../lib/camera';
+import type { Point } from '../lib/tidyLayout';
+
+interface PanZoomSvgProps {
+  view: CameraView;
+  width: number;
+  height: number;
+  onViewChange: (view: CameraView) => void;
+  children: React.ReactNode;
+}
+
+// Pixels a pointer has to travel before a press becomes a drag rather than a click
+const DRAG_THRESHOLD = 4;
+
+interface Gesture {
+  start: CameraView;
+  // Where each pointer went down, in viewport pixels
+  pointers: Map<number, Point>;
+  dragging: boolean;
+}
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * An SVG viewport that zooms with the mouse wheel or a pinch and pans by
+ * dragging. Gestures are measured from where they started rather than event
+ * by event, so moves that arrive between two renders are never lost.
+ */
+export const PanZoomSvg: React.FC<PanZoomSvgProps> = ({ view, width, height, onViewChange, children }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const gesture = useRef<Gesture | null>(null);
+  // Latest position of every pointer that is down
+  const current = useRef(new Map<number, Point>());
+
+  // React registers wheel listeners as passive, which cannot stop the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      // Trackpad pinches arrive as wheel events with ctrl held and much smaller deltas
+      const factor = Math.exp(-event.deltaY * (event.ctrlKey ? 0.01 : 0.0015));
+      onViewChange(zoomView(view, factor, { x: event.clientX - rect.left, y: event.clientY - rect.top }, width, height));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [view, width, height, onViewChange]);
+
+  const pixelOf = (event: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  // Every press or release starts a new gesture from the view as it is now
+  const restartGesture = () => {
+    gesture.current =
+      current.current.size > 0
+        ? { start: view, pointers: new Map(current.current), dragging: gesture.current?.dragging ?? false }
+        : null;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (event.button !== 0) return;
+    current.current.set(event.pointerId, pixelOf(event));
+    restartGesture();
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const active = gesture.current;
+    if (!active || !current.current.has(event.pointerId)) return;
+    current.current.set(event.pointerId, pixelOf(event));
+
+    const ids = [...active.pointers.keys()];
+    const [first, second] = ids.map(id => ({ from: active.pointers.get(id)!, to: current.current.get(id)! }));
+
+    if (!active.dragging) {
+      if (distance(first.from, first.to) < DRAG_THRESHOLD && !second) return;
+      active.dragging = true;
+      // Captured only now, so a plain click still reaches the node under the pointer
+      svgRef.current!.setPointerCapture(event.pointerId);
+    }
+
+    if (!second) {
+      onViewChange(panView(active.start, first.to.x - first.from.x, first.to.y - first.from.y));
+      return;
+    }
+    const fromCentre = midpoint(first.from, second.from);
+    const toCentre = midpoint(first.to, second.to);
+    const factor = distance(first.to, second.to) / Math.max(1, distance(first.from, second.from));
+    const zoomed = zoomView(active.start, factor, fromCentre, width, height);
+    onViewChange(panView(zoomed, toCentre.x - fromCentre.x, toCentre.y - fromCentre.y));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (!current.current.delete(event.pointerId)) return;
+    restartGesture();
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      width={width}
+      height={height}
+      className="border border-border rounded-lg bg-gradient-to-br from-background to-muted/20 shadow-xl cursor-grab active:cursor-grabbing touch-none select-none"
+      viewBox={viewBoxOf(view, width, height)}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {children}
+    </svg>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  DEFAULT_SHORTCUTS,
+  RESERVED_KEYS,
+  SHORTCUT_ACTIONS,
+  keyLabel,
+  rebind,
+  type ShortcutAction,
+  type ShortcutBindings,
+} from '../lib/shortcuts';
+
+interface ShortcutSheetProps {
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+}
+
+// Shortcuts held by the browser conventions they copy, listed but not rebindable
+const FIXED_SHORTCUTS: [string, string][] = [
+  ['Ctrl+K', 'Command palette'],
+  ['Ctrl+Z', 'Undo'],
+  ['Ctrl+Shift+Z', 'Redo'],
+  ['Esc', 'Leave the key field, close a dialog'],
+];
+
+/** Every keyboard shortcut, with the single-key ones changed by clicking them and pressing the new key. */
+export const ShortcutSheet: React.FC<ShortcutSheetProps> = ({ bindings, onChange, onClose }) => {
+  // The action waiting for its new key
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  // Captures the key before anything else on the page can act on it
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      if (event.key === 'Escape') {
+        event.stopImmediatePropagation();
+        if (recording) setRecording(null);
+        else onClose();
+        return;
+      }
+      if (!recording || RESERVED_KEYS.has(event.key)) return;
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      onChange(rebind(bindings, recording, event.key));
+      setRecording(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [recording, bindings, onChange, onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+      onClick={event => event.target === event.currentTarget && onClose()}
+    >
+      <div role="dialog" aria-modal="true" className="w-[36rem] max-w-[90vw] bg-card border border-border rounded-lg shadow-xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-foreground">⌨️ Keyboard Shortcuts</h2>
+          <Button onClick={onClose} variant="ghost" size="icon" title="Close">
+            <X />
+          </Button>
+        </div>
+
+        <p className="text-xs text-muted-foreground mb-2">
+          Click a key to change it, then press the new one. A key already in use swaps with it.
+        </p>
+        <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+          {(Object.keys(SHORTCUT_ACTIONS) as ShortcutAction[]).map(action => (
+            <div key={action} className="flex items-center justify-between gap-2" title={SHORTCUT_ACTIONS[action].description}>
+              <span className="text-muted-foreground truncate">{SHORTCUT_ACTIONS[action].label}</span>
+              <button
+                onClick={() => setRecording(recording === action ? null : action)}
+                className={`min-w-16 px-2 py-0.5 rounded border text-xs font-mono transition-colors ${
+                  recording === action
+                    ? 'border-primary bg-primary/20 text-primary animate-pulse'
+                    : 'border-border bg-muted text-foreground hover:border-ring'
+                }`}
+              >
+                {recording === action ? 'Press a key' : keyLabel(bindings[action])}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm mt-4 pt-3 border-t border-border">
+          {FIXED_SHORTCUTS.map(([keys, label]) => (
+            <div key={keys} className="flex items-center justify-between gap-2">
+              <span className="text-muted-foreground truncate">{label}</span>
+              <kbd className="px-1.5 py-0.5 rounded border border-border bg-muted text-xs font-mono text-foreground">{keys}</kbd>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 justify-end mt-4">
+          <Button onClick={() => onChange(DEFAULT_SHORTCUTS)} variant="outline">
+            Reset to Defaults
+          </Button>
+          <Button onClick={onClose}>Done</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Pause, Play, SkipBack, SkipForward } from 'lucide-react';
+import { Button } from './ui/button';
+import { PLAYBACK_SPEEDS, type StepPlayer } from '../hooks/useStepPlayer';
+
+interface StepPlayerControlsProps<TFrame> {
+  player: StepPlayer<TFrame>;
+}
+
+export const StepPlayerControls = <TFrame,>({ player }: StepPlayerControlsProps<TFrame>): React.ReactElement => {
+  const { steps, index, isPlaying, speed } = player;
+  const hasSteps = steps.length > 0;
+
+  return (
+    <div className="flex items-center gap-3 bg-card border border-border rounded-lg px-4 py-2 shadow-lg">
+      <Button
+        onClick={player.stepBack}
+        disabled={!hasSteps || index === 0}
+        variant="outline"
+        size="icon"
+        title="Step back"
+      >
+        <SkipBack />
+      </Button>
+      <Button
+        onClick={player.togglePlay}
+        disabled={steps.length < 2}
+        variant="default"
+        size="icon"
+        title={isPlaying ? 'Pause' : 'Play'}
+      >
+        {isPlaying ? <Pause /> : <Play />}
+      </Button>
+      <Button
+        onClick={player.stepForward}
+        disabled={!hasSteps || index >= steps.length - 1}
+        variant="outline"
+        size="icon"
+        title="Step forward"
+      >
+        <SkipForward />
+      </Button>
+
+      <input
+        type="range"
+        min={0}
+        max={Math.max(0, steps.length - 1)}
+        value={index}
+        onChange={(e) => player.seek(Number(e.target.value))}
+        disabled={!hasSteps}
+        className="flex-1 accent-primary disabled:opacity-50"
+        aria-label="Scrub through algorithm steps"
+      />
+      <span className="text-sm font-mono text-muted-foreground w-16 text-right">
+        {hasSteps ? `${index + 1}/${steps.length}` : '0/0'}
+      </span>
+
+      <select
+        value={speed}
+        onChange={(e) => player.setSpeed(Number(e.target.value))}
+        className="bg-background text-foreground border border-input rounded-md px-2 py-1 text-sm"
+        aria-label="Playback speed"
+      >
+        {PLAYBACK_SPEEDS.map(option => (
+          <option key={option} value={option}>
+            {option}x
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
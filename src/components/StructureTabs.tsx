@@ -0,0 +1,37 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+export type Structure = 'binary' | 'compare' | 'quiz' | 'btree' | 'heap' | 'trie';
+
+const STRUCTURES: { value: Structure; label: string }[] = [
+  { value: 'binary', label: '🌳 Binary Search Trees' },
+  { value: 'compare', label: '⚖️ Compare Trees' },
+  { value: 'quiz', label: '🎓 Quiz' },
+  { value: 'btree', label: '🗂️ B-Tree' },
+  { value: 'heap', label: '⛰️ Binary Heap' },
+  { value: 'trie', label: '🔤 Trie' },
+];
+
+interface StructureTabsProps {
+  value: Structure;
+  onChange: (structure: Structure) => void;
+}
+
+export const StructureTabs: React.FC<StructureTabsProps> = ({ value, onChange }) => (
+  <div className="flex gap-1 bg-muted/40 border-b border-border px-4 pt-2">
+    {STRUCTURES.map(structure => (
+      <button
+        key={structure.value}
+        onClick={() => onChange(structure.value)}
+        className={cn(
+          'px-4 py-2 text-sm font-semibold rounded-t-md transition-colors',
+          value === structure.value
+            ? 'bg-card text-foreground border border-b-0 border-border'
+            : 'text-muted-foreground hover:text-foreground'
+        )}
+      >
+        {structure.label}
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,209 @@
+import React, { useMemo } from 'react';
+import { TreeNode } from '../types/TreeNode';
+import type { TreeFrame } from '../lib/treeRecorder';
+import type { TreeMode } from '../lib/treeModes';
+import { checkRedBlackInvariants } from '../lib/redBlackAlgorithms';
+import type { LayoutSettings } from '../lib/tidyLayout';
+import { FOCUS_SCALE, resolveView, viewContains, zoomView, type CameraView } from '../lib/camera';
+import { CSS_PALETTE } from '../lib/imageExport';
+import type { Camera } from '../hooks/useCamera';
+import { NODE_DIAMETER, STATE_COLORS, buildScene, renderBatched, treeRenderers } from './treeDrawing';
+import { PanZoomSvg } from './PanZoomSvg';
+import { Minimap } from './Minimap';
+import { CameraControls } from './CameraControls';
+import { ChildSlot, TreeEditLayer, type TreeEditor } from './TreeEditLayer';
+import type { ChildSide } from '../lib/treeEditing';
+
+interface TreeCanvasProps<K> {
+  frame: TreeFrame<TreeNode<K>>;
+  width: number;
+  height: number;
+  mode: TreeMode;
+  formatKey: (key: K) => string;
+  layout: LayoutSettings;
+  camera: Camera;
+  onNodeHover?: (id: number | null) => void;
+  // Turns on hand editing of the tree; only offered while nodes are drawn in detail
+  editor?: TreeEditor;
+  // For answering by pointing: a click on a node, or on the "+" of an empty child position
+  onNodeClick?: (id: number) => void;
+  onSlotClick?: (parentId: number, side: ChildSide) => void;
+  // The node under the keyboard cursor, ringed
+  cursorId?: number;
+}
+
+// Room around a node centre for the badges, rings and labels drawn outside its circle
+const DECORATION_MARGIN = 60;
+// Below this many pixels across, keys and badges are unreadable and nodes are drawn as plain dots
+const MIN_DETAILED_DIAMETER = 16;
+// Beyond this many nodes on screen, one SVG group per node is too slow and they are batched into paths
+const MAX_DETAILED_NODES = 600;
+// Drop shadows are the most expensive effect, so only small drawings get them on every node
+const MAX_SHADOWED_NODES = 150;
+
+const isVisible = (view: CameraView, width: number, height: number, x: number, y: number): boolean =>
+  Math.abs(x - view.cx) <= (view.scale * width) / 2 + DECORATION_MARGIN &&
+  Math.abs(y - view.cy) <= (view.scale * height) / 2 + DECORATION_MARGIN;
+
+// An edge is kept when the box around it overlaps the view, which is cheap and never drops a visible one
+const isEdgeVisible = <K,>(view: CameraView, width: number, height: number, from: TreeNode<K>, to: TreeNode<K>): boolean =>
+  Math.max(from.x, to.x) >= view.cx - (view.scale * width) / 2 - DECORATION_MARGIN &&
+  Math.min(from.x, to.x) <= view.cx + (view.scale * width) / 2 + DECORATION_MARGIN &&
+  Math.max(from.y, to.y) >= view.cy - (view.scale * height) / 2 - DECORATION_MARGIN &&
+  Math.min(from.y, to.y) <= view.cy + (view.scale * height) / 2 + DECORATION_MARGIN;
+
+export const TreeCanvas = <K,>({
+  frame,
+  width,
+  height,
+  mode,
+  formatKey,
+  layout,
+  camera,
+  onNodeHover,
+  editor,
+  onNodeClick,
+  onSlotClick,
+  cursorId,
+}: TreeCanvasProps<K>): React.ReactElement | null => {
+  const { root, highlighted, found } = frame;
+  const { orientation, compact } = layout;
+
+  // Recorded frames share one snapshot per structure, so laying out once per root survives playback and camera moves
+  const scene = useMemo(() => (root ? buildScene(root, { orientation, compact }) : null), [root, orientation, compact]);
+  const isRedBlack = mode === 'redblack';
+  // Live red-black invariant check of whatever structure is on screen
+  const violations = useMemo(
+    () => (root && isRedBlack ? checkRedBlackInvariants(root, formatKey) : []),
+    [root, isRedBlack, formatKey]
+  );
+
+  if (!root || !scene) return null;
+  const { nodes, bounds } = scene;
+
+  const { edgeColor, nodeColorOf, renderEdge, renderNode } = treeRenderers(frame, scene, {
+    mode,
+    formatKey,
+    orientation,
+    palette: CSS_PALETTE,
+    animated: true,
+    violatingIds: new Set(violations.map(violation => violation.nodeId)),
+    onNodeDoubleClick: camera.focus,
+    onNodeClick,
+    onNodeHover,
+  });
+
+  const locate = (id: number) => nodes.find(node => node.id === id) ?? null;
+  const chosenView = resolveView(camera.target, bounds, width, height, locate);
+  // Following keeps the zoom but never stays zoomed out so far that the compared key is unreadable
+  const followed = camera.follow ? nodes.find(node => highlighted.has(node.id)) : undefined;
+  const view = followed
+    ? { cx: followed.x, cy: followed.y, scale: Math.min(chosenView.scale, FOCUS_SCALE) }
+    : chosenView;
+  const zoomBy = (factor: number) => camera.moveTo(zoomView(view, factor, { x: width / 2, y: height / 2 }, width, height));
+
+  // Only what is on screen is drawn, in full detail when it is large and few enough to read
+  const visibleNodes = nodes.filter(node => isVisible(view, width, height, node.x, node.y));
+  const visibleEdges: [TreeNode<K>, TreeNode<K>, 'left' | 'right'][] = [];
+  for (const node of nodes) {
+    if (node.left && isEdgeVisible(view, width, height, node, node.left)) visibleEdges.push([node, node.left, 'left']);
+    if (node.right && isEdgeVisible(view, width, height, node, node.right)) visibleEdges.push([node, node.right, 'right']);
+  }
+  const detailed = NODE_DIAMETER / view.scale >= MIN_DETAILED_DIAMETER && visibleNodes.length <= MAX_DETAILED_NODES;
+  const cursor = cursorId === undefined ? undefined : visibleNodes.find(node => node.id === cursorId);
+
+  return (
+    <div className="relative">
+      <PanZoomSvg view={view} width={width} height={height} onViewChange={camera.moveTo}>
+        {detailed ? (
+          <>
+            {visibleEdges.map(([node, child, side]) => renderEdge(node, child, side))}
+            {visibleNodes.map(node => renderNode(node, visibleNodes.length <= MAX_SHADOWED_NODES))}
+            {cursor && (
+              <circle
+                cx={cursor.x}
+                cy={cursor.y}
+                r={NODE_DIAMETER / 2 + 8}
+                fill="none"
+                stroke="var(--ring)"
+                strokeWidth="3"
+                pointerEvents="none"
+              />
+            )}
+            {onSlotClick &&
+              visibleNodes.flatMap(node =>
+                (['left', 'right'] as const)
+                  .filter(side => !node[side])
+                  .map(side => (
+                    <ChildSlot
+                      key={`slot-${node.id}-${side}`}
+                      parent={node}
+                      side={side}
+                      orientation={orientation}
+                      title={`${side === 'left' ? 'Left' : 'Right'} child of ${formatKey(node.value)}`}
+                      onClick={() => onSlotClick(node.id, side)}
+                    />
+                  ))
+              )}
+            {editor && (
+              <TreeEditLayer
+                nodes={visibleNodes}
+                rootId={root.id}
+                orientation={orientation}
+                formatKey={formatKey}
+                editor={editor}
+                onNodeHover={onNodeHover}
+              />
+            )}
+          </>
+        ) : (
+          renderBatched(visibleEdges.map(([node, child]) => [node, child]), visibleNodes, edgeColor, nodeColorOf, 3)
+        )}
+      </PanZoomSvg>
+      <div className="absolute bottom-3 left-3">
+        <CameraControls
+          onZoomIn={() => zoomBy(1.25)}
+          onZoomOut={() => zoomBy(0.8)}
+          onFit={camera.fit}
+          follow={camera.follow}
+          onToggleFollow={camera.toggleFollow}
+        />
+      </div>
+      {!viewContains(view, bounds, width, height) && (
+        <div className="absolute bottom-3 right-3">
+          <Minimap
+            bounds={bounds}
+            view={view}
+            width={width}
+            height={height}
+            onCenter={({ x, y }) => camera.moveTo({ ...view, cx: x, cy: y })}
+          >
+            {renderBatched(
+              nodes.flatMap(node =>
+                [node.left, node.right].filter(child => child !== null).map(child => [node, child] as [TreeNode<K>, TreeNode<K>])
+              ),
+              nodes,
+              () => 'var(--muted-foreground)',
+              node => (found.has(node.id) ? STATE_COLORS.found : highlighted.has(node.id) ? STATE_COLORS.highlighted : '#3b82f6'),
+              6
+            )}
+          </Minimap>
+        </div>
+      )}
+      {isRedBlack && (
+        <div className="absolute top-3 left-3 max-w-sm bg-card/90 border border-border rounded-lg p-3 text-xs shadow-lg">
+          {violations.length === 0 ? (
+            <p className="text-green-500 font-semibold">✅ All red-black properties hold</p>
+          ) : (
+            <>
+              <p className="text-red-500 font-semibold mb-1">⚠️ {violations.length} red-black violation(s)</p>
+              {violations.map((violation, index) => (
+                <p key={index} className="font-mono text-foreground">{violation.message}</p>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
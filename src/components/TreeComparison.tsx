@@ -0,0 +1,410 @@
+import React, { useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
+import { Plus } from 'lucide-react';
+import type { TreeNode } from '../types/TreeNode';
+import { Button } from './ui/button';
+import { ComparisonPane } from './ComparisonPane';
+import { StepPlayerControls } from './StepPlayerControls';
+import { AlgorithmLog } from './AlgorithmLog';
+import { useStepPlayer } from '../hooks/useStepPlayer';
+import { useCanvasDimensions } from '../hooks/useCanvasDimensions';
+import { playInParallel, type ParallelFrame } from '../lib/steps';
+import { staticFrame, type TreeFrame, type TreeStep } from '../lib/treeRecorder';
+import type { TreeRecording } from '../lib/bstAlgorithms';
+import { TREE_MODES, type TreeMode } from '../lib/treeModes';
+import { INSERTION_ORDERS, arrangeValues, type InsertionOrder } from '../lib/insertionOrders';
+import { comparisonsToReach, measureTree } from '../lib/treeMetrics';
+import { TreeParseError, parseKeySequence } from '../lib/treeFormats';
+import { KEY_TYPES, type KeyContext, type KeyTypeId, type TreeKey } from '../lib/keys';
+
+/** One tree of the comparison, built from the shared keys in its own mode and order. */
+interface ComparedTree {
+  id: number;
+  mode: TreeMode;
+  order: InsertionOrder;
+  root: TreeNode<TreeKey> | null;
+  // Operations change `root` in place, so the canvas is given a copy
+  snapshot: TreeNode<TreeKey> | null;
+  buildComparisons: number;
+  // Comparisons made by the latest operation applied to this tree, if any
+  lastComparisons: number | null;
+}
+
+type Operation = 'insert' | 'search' | 'delete';
+
+const MIN_TREES = 2;
+const MAX_TREES = 4;
+const TREE_NAMES = ['A', 'B', 'C', 'D'];
+// As in the main view, walks deeper than this are applied without a recording
+const MAX_ANIMATED_HEIGHT = 200;
+// Width of the control panel beside the trees
+const PANEL_WIDTH = 320;
+
+const SAMPLE_ORDERS: { mode: TreeMode; order: InsertionOrder }[] = [
+  { mode: 'bst', order: 'sorted' },
+  { mode: 'bst', order: 'shuffled' },
+];
+
+let nextTreeId = 0;
+
+// Only the shapes are compared, so duplicate keys are simply turned away
+const keysOf = (keyTypeId: KeyTypeId): KeyContext<TreeKey> => ({ type: KEY_TYPES[keyTypeId], duplicates: 'reject' });
+
+// Inserts the keys one by one in the tree's order, counting the comparisons on the way down to each
+const buildComparedTree = (
+  mode: TreeMode,
+  order: InsertionOrder,
+  values: TreeKey[],
+  keys: KeyContext<TreeKey>,
+  id: number = nextTreeId++
+): ComparedTree => {
+  let root: TreeNode<TreeKey> | null = null;
+  let buildComparisons = 0;
+  for (const value of arrangeValues(values, order, keys.type.compare)) {
+    buildComparisons += comparisonsToReach(root, value, keys.type.compare);
+    root = TREE_MODES[mode].insert(root, value, keys, true).result;
+  }
+  return { id, mode, order, root, snapshot: root && root.clone(), buildComparisons, lastComparisons: null };
+};
+
+interface TreeStats {
+  height: number;
+  nodes: number;
+  buildComparisons: number;
+  averageSearch: number;
+  lastComparisons: number | null;
+}
+
+const STATS: { label: string; description: string; value: (stats: TreeStats) => number | null; digits: number }[] = [
+  { label: 'Height', description: 'Levels from the root down to the deepest leaf', value: stats => stats.height, digits: 0 },
+  { label: 'Nodes', description: 'Keys in the tree', value: stats => stats.nodes, digits: 0 },
+  {
+    label: 'Build comparisons',
+    description: 'Keys compared while inserting the keys in this order',
+    value: stats => stats.buildComparisons,
+    digits: 0,
+  },
+  {
+    label: 'Avg. search',
+    description: 'Keys compared by a search for a key in the tree, on average',
+    value: stats => stats.averageSearch,
+    digits: 2,
+  },
+  {
+    label: 'Last operation',
+    description: 'Keys compared on the way down by the latest insert, search or delete',
+    value: stats => stats.lastComparisons,
+    digits: 0,
+  },
+];
+
+export const TreeComparison: React.FC = () => {
+  const [keyTypeId, setKeyTypeId] = useState<KeyTypeId>('number');
+  const [valuesText, setValuesText] = useState(() => KEY_TYPES.number.samples.map(KEY_TYPES.number.format).join(', '));
+  const [values, setValues] = useState<TreeKey[]>(KEY_TYPES.number.samples);
+  const [trees, setTrees] = useState<ComparedTree[]>(() =>
+    SAMPLE_ORDERS.map(({ mode, order }) => buildComparedTree(mode, order, KEY_TYPES.number.samples, keysOf('number')))
+  );
+  const [inputValue, setInputValue] = useState('');
+  // Which tree operations go to, by id, or all of them at once
+  const [target, setTarget] = useState<number | 'all'>('all');
+  // Percentages of the width, as laid out by the panel group
+  const [sizes, setSizes] = useState<number[]>([]);
+  const player = useStepPlayer<ParallelFrame<TreeFrame<TreeNode<TreeKey>>>>();
+  const isAnimating = player.isPlaying;
+  // Account for the structure tabs, header, input, stats strip, pane headers and player controls
+  const dimensions = useCanvasDimensions(560);
+
+  const keys = keysOf(keyTypeId);
+  const names = trees.map((_, index) => `Tree ${TREE_NAMES[index]}`);
+
+  const stats = useMemo(
+    () =>
+      trees.map((tree): TreeStats => {
+        const { statistics } = measureTree(tree.snapshot);
+        return {
+          height: statistics.height,
+          nodes: statistics.nodes,
+          buildComparisons: tree.buildComparisons,
+          averageSearch: statistics.averageSearch,
+          lastComparisons: tree.lastComparisons,
+        };
+      }),
+    [trees]
+  );
+
+  // Changing which trees there are or what they hold leaves any loaded recording behind
+  const replaceTrees = (newTrees: ComparedTree[]) => {
+    setTrees(newTrees);
+    player.clear();
+  };
+
+  const handleBuild = () => {
+    if (isAnimating) return;
+    let parsed: TreeKey[];
+    try {
+      parsed = parseKeySequence(valuesText, keys.type);
+    } catch (error) {
+      if (!(error instanceof TreeParseError)) throw error;
+      toast.error(error.message);
+      return;
+    }
+    setValues(parsed);
+    replaceTrees(trees.map(tree => buildComparedTree(tree.mode, tree.order, parsed, keys, tree.id)));
+  };
+
+  const handleKeyTypeChange = (newKeyTypeId: KeyTypeId) => {
+    if (newKeyTypeId === keyTypeId || isAnimating) return;
+
+    // Keys of one type cannot be converted to another, so start over from that type's samples
+    const newKeys = keysOf(newKeyTypeId);
+    setKeyTypeId(newKeyTypeId);
+    setValuesText(newKeys.type.samples.map(newKeys.type.format).join(', '));
+    setValues(newKeys.type.samples);
+    setInputValue('');
+    replaceTrees(trees.map(tree => buildComparedTree(tree.mode, tree.order, newKeys.type.samples, newKeys, tree.id)));
+  };
+
+  // A tree given another mode or order is rebuilt from the shared keys, without the operations applied since
+  const handleTreeChange = (id: number, mode: TreeMode, order: InsertionOrder) => {
+    replaceTrees(trees.map(tree => (tree.id === id ? buildComparedTree(mode, order, values, keys, id) : tree)));
+  };
+
+  const handleAddTree = () => {
+    if (trees.length >= MAX_TREES || isAnimating) return;
+    // Start from a mode not on screen yet, which is usually the next thing to compare with
+    const mode = (Object.keys(TREE_MODES) as TreeMode[]).find(option => !trees.some(tree => tree.mode === option)) ?? 'bst';
+    replaceTrees([...trees, buildComparedTree(mode, 'given', values, keys)]);
+  };
+
+  const handleRemoveTree = (id: number) => {
+    if (trees.length <= MIN_TREES || isAnimating) return;
+    replaceTrees(trees.filter(tree => tree.id !== id));
+    if (target === id) setTarget('all');
+  };
+
+  // Applies one operation to every targeted tree and plays their recordings side by side
+  const runOperation = (operation: Operation) => {
+    if (isAnimating) return;
+    const value = keys.type.parse(inputValue);
+    if (value === null) {
+      toast.error(`"${inputValue}" is not a valid ${keys.type.label.toLowerCase()} key`);
+      return;
+    }
+
+    const record = (tree: ComparedTree, silent: boolean): TreeRecording<TreeKey> | null => {
+      const definition = TREE_MODES[tree.mode];
+      if (operation === 'insert') return definition.insert(tree.root, value, keys, silent);
+      if (!tree.root) return null;
+      return operation === 'search'
+        ? definition.search(tree.root, value, keys, silent)
+        : definition.delete(tree.root, value, keys, 'successor', silent);
+    };
+
+    const recordings: (TreeStep<TreeNode<TreeKey>>[] | null)[] = [];
+    const newTrees = trees.map(tree => {
+      // Counted first, as the operation changes the tree in place
+      const comparisons = comparisonsToReach(tree.root, value, keys.type.compare);
+      const silent = tree.root !== null && tree.root.computeHeight() > MAX_ANIMATED_HEIGHT;
+      const recording = target === 'all' || target === tree.id ? record(tree, silent) : null;
+      if (!recording) {
+        recordings.push(null);
+        return tree;
+      }
+      recordings.push(recording.steps);
+      const { result } = recording;
+      return { ...tree, root: result, snapshot: result && result.clone(), lastComparisons: comparisons };
+    });
+    setTrees(newTrees);
+    player.load(playInParallel(recordings, newTrees.map(tree => staticFrame(tree.snapshot)), names));
+    setInputValue('');
+  };
+
+  const availableWidth = dimensions.width - PANEL_WIDTH;
+
+  return (
+    <div className="h-full w-full flex flex-col bg-background">
+      {/* Header */}
+      <div className="bg-card shadow-lg border-b border-border px-6 py-4">
+        <h1 className="text-2xl font-bold text-center text-foreground">
+          ⚖️ Tree Comparison
+        </h1>
+      </div>
+
+      {/* Input Section */}
+      <div className="bg-gradient-to-r from-muted/20 to-accent/20 p-4 border-b border-border">
+        <div className="flex gap-4 items-center justify-center">
+          <input
+            type={keys.type.inputType}
+            placeholder={keys.type.placeholder}
+            value={inputValue}
+            onChange={(e) => setInputValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                runOperation('insert');
+              }
+            }}
+            disabled={isAnimating}
+            className="w-48 text-xl py-2 px-4 border-2 border-input focus:border-ring rounded-lg focus:outline-none disabled:opacity-50 bg-background text-center font-bold text-foreground"
+          />
+          <select
+            value={target}
+            onChange={(e) => setTarget(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+            disabled={isAnimating}
+            className="bg-background text-foreground border border-input rounded-md px-2 py-2 text-sm disabled:opacity-50"
+            aria-label="Trees to apply operations to"
+          >
+            <option value="all">All trees</option>
+            {trees.map((tree, index) => (
+              <option key={tree.id} value={tree.id}>
+                {names[index]} only
+              </option>
+            ))}
+          </select>
+          <Button onClick={() => runOperation('insert')} disabled={isAnimating || !inputValue} className="font-bold">
+            INSERT
+          </Button>
+          <Button onClick={() => runOperation('search')} disabled={isAnimating || !inputValue} variant="secondary" className="font-bold">
+            SEARCH
+          </Button>
+          <Button onClick={() => runOperation('delete')} disabled={isAnimating || !inputValue} variant="destructive" className="font-bold">
+            DELETE
+          </Button>
+        </div>
+      </div>
+
+      {/* Main content */}
+      <div className="flex-1 flex min-h-0">
+        {/* Comparison area */}
+        <div className="flex-1 min-w-0 p-4 flex flex-col gap-3">
+          {/* Stats strip */}
+          <table className="w-full text-sm bg-card border border-border rounded-lg">
+            <thead>
+              <tr className="border-b border-border">
+                <th />
+                {trees.map((tree, index) => (
+                  <th key={tree.id} className="px-3 py-1 text-left font-semibold text-foreground">
+                    {names[index]}
+                    <span className="ml-2 font-normal text-muted-foreground">
+                      {TREE_MODES[tree.mode].label} · {INSERTION_ORDERS[tree.order]}
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {STATS.map(stat => {
+                const shown = stats.map(stat.value);
+                const known = shown.filter(value => value !== null);
+                // The lowest value is the best one, marked only when the trees differ
+                const best = known.length > 1 && new Set(known).size > 1 ? Math.min(...known) : null;
+                return (
+                  <tr key={stat.label}>
+                    <th className="px-3 py-1 text-left font-normal text-muted-foreground" title={stat.description}>
+                      {stat.label}
+                    </th>
+                    {shown.map((value, index) => (
+                      <td
+                        key={trees[index].id}
+                        className={`px-3 py-1 font-mono ${value === best ? 'text-green-500 font-bold' : 'text-foreground'}`}
+                      >
+                        {value === null ? '–' : value.toFixed(stat.digits)}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <PanelGroup direction="horizontal" onLayout={setSizes} className="bg-card border border-border rounded-lg">
+            {trees.map((tree, index) => (
+              <React.Fragment key={tree.id}>
+                {index > 0 && <PanelResizeHandle className="w-1.5 bg-border hover:bg-primary transition-colors" />}
+                <Panel id={`tree-${tree.id}`} order={index} minSize={15}>
+                  <ComparisonPane
+                    title={names[index]}
+                    mode={tree.mode}
+                    order={tree.order}
+                    frame={player.currentStep?.frame.frames[index] ?? staticFrame(tree.snapshot)}
+                    message={player.currentStep?.frame.messages[index] ?? null}
+                    width={Math.max(0, (availableWidth * (sizes[index] ?? 100 / trees.length)) / 100 - 16)}
+                    height={dimensions.height}
+                    formatKey={keys.type.format}
+                    disabled={isAnimating}
+                    onModeChange={mode => handleTreeChange(tree.id, mode, tree.order)}
+                    onOrderChange={order => handleTreeChange(tree.id, tree.mode, order)}
+                    onRemove={trees.length > MIN_TREES ? () => handleRemoveTree(tree.id) : undefined}
+                  />
+                </Panel>
+              </React.Fragment>
+            ))}
+          </PanelGroup>
+
+          <StepPlayerControls player={player} />
+        </div>
+
+        {/* Control panel */}
+        <div className="w-80 bg-card shadow-xl border-l border-border flex flex-col">
+          {/* Keys Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">🔑 Keys</h3>
+            <div className="grid grid-cols-4 gap-2">
+              {(Object.keys(KEY_TYPES) as KeyTypeId[]).map(option => (
+                <Button
+                  key={option}
+                  onClick={() => handleKeyTypeChange(option)}
+                  disabled={isAnimating}
+                  variant={keyTypeId === option ? 'default' : 'outline'}
+                  size="sm"
+                >
+                  {KEY_TYPES[option].label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-3 mb-2">
+              Every tree is built from these keys, inserted in its own order:
+            </p>
+            <textarea
+              value={valuesText}
+              onChange={(e) => setValuesText(e.target.value)}
+              disabled={isAnimating}
+              rows={3}
+              spellCheck={false}
+              className="w-full p-2 border border-input focus:border-ring focus:ring-2 focus:ring-ring/20 rounded-lg focus:outline-none bg-background font-mono text-xs text-foreground resize-y disabled:opacity-50"
+            />
+            <Button
+              onClick={handleBuild}
+              disabled={isAnimating}
+              variant="outline"
+              title="Rebuild every tree from the keys; shuffled trees get a new order"
+              className="w-full mt-2"
+            >
+              Build All Trees
+            </Button>
+          </div>
+
+          {/* Trees Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">🌳 Trees</h3>
+            <Button
+              onClick={handleAddTree}
+              disabled={isAnimating || trees.length >= MAX_TREES}
+              variant="outline"
+              className="w-full"
+            >
+              <Plus /> Add Tree
+            </Button>
+            <p className="text-xs text-muted-foreground mt-2">
+              Compare {MIN_TREES} to {MAX_TREES} trees. Changing a tree's mode or order rebuilds it from the keys;
+              drag the bars between trees to resize them.
+            </p>
+          </div>
+
+          <AlgorithmLog player={player} placeholder="Insert, search or delete a key to see every tree's steps..." />
+        </div>
+      </div>
+    </div>
+  );
+};
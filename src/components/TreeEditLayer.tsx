@@ -0,0 +1,265 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TreeNode } from '../types/TreeNode';
+import type { LayoutOrientation, Point } from '../lib/tidyLayout';
+import type { ChildSide } from '../lib/treeEditing';
+import { NODE_DIAMETER } from './treeDrawing';
+
+/** What the edit layer asks of the view. The text callbacks return whether the text was accepted. */
+export interface TreeEditor {
+  onAddChild: (parentId: number, side: ChildSide, text: string) => boolean;
+  onSetKey: (id: number, text: string) => boolean;
+  onMoveSubtree: (id: number, parentId: number, side: ChildSide) => void;
+}
+
+interface TreeEditLayerProps<K> {
+  nodes: TreeNode<K>[];
+  rootId: number;
+  orientation: LayoutOrientation;
+  formatKey: (key: K) => string;
+  editor: TreeEditor;
+  onNodeHover?: (id: number | null) => void;
+}
+
+type Field = { kind: 'add'; parentId: number; side: ChildSide } | { kind: 'key'; id: number };
+
+interface Drag {
+  id: number;
+  // Where the press started, in client pixels
+  from: Point;
+  moving: boolean;
+}
+
+// Same as the canvas: a press has to travel this far before it moves a subtree
+const DRAG_THRESHOLD = 4;
+const SLOT_RADIUS = 14;
+// A slot sits most of a level below its parent, to the side its child would go
+const SLOT_ACROSS = 38;
+const SLOT_DOWN = 58;
+const FIELD_WIDTH = 110;
+const FIELD_HEIGHT = 32;
+
+const slotOffset = (orientation: LayoutOrientation, side: ChildSide): Point => {
+  const sign = side === 'left' ? -1 : 1;
+  return orientation === 'top-down' ? { x: sign * SLOT_ACROSS, y: SLOT_DOWN } : { x: SLOT_DOWN, y: sign * SLOT_ACROSS };
+};
+
+interface ChildSlotProps<K> {
+  parent: TreeNode<K>;
+  side: ChildSide;
+  orientation: LayoutOrientation;
+  title: string;
+  // Drawn in green while a subtree is being dragged, and filled when it is over this slot
+  armed?: boolean;
+  targeted?: boolean;
+  onClick?: () => void;
+  onPointerUp?: () => void;
+  onPointerEnter?: () => void;
+  onPointerLeave?: () => void;
+}
+
+/** A dashed "+" where `parent` has no `side` child, for picking that empty position. */
+export const ChildSlot = <K,>({
+  parent,
+  side,
+  orientation,
+  title,
+  armed = false,
+  targeted = false,
+  onClick,
+  onPointerUp,
+  onPointerEnter,
+  onPointerLeave,
+}: ChildSlotProps<K>): React.ReactElement => {
+  const { x, y } = slotOffset(orientation, side);
+  return (
+    <g
+      className="cursor-pointer"
+      onPointerDown={event => event.stopPropagation()}
+      onPointerEnter={onPointerEnter}
+      onPointerLeave={onPointerLeave}
+      onPointerUp={onPointerUp}
+      onClick={onClick}
+    >
+      <title>{title}</title>
+      <line
+        x1={parent.x}
+        y1={parent.y}
+        x2={parent.x + x}
+        y2={parent.y + y}
+        stroke="var(--muted-foreground)"
+        strokeWidth="1.5"
+        strokeDasharray="3,3"
+        opacity={0.6}
+      />
+      <circle
+        cx={parent.x + x}
+        cy={parent.y + y}
+        r={targeted ? SLOT_RADIUS + 4 : SLOT_RADIUS}
+        fill={targeted ? '#10b981' : 'var(--background)'}
+        stroke={armed ? '#10b981' : 'var(--muted-foreground)'}
+        strokeWidth="2"
+        strokeDasharray="4,3"
+      />
+      <text
+        x={parent.x + x}
+        y={parent.y + y}
+        textAnchor="middle"
+        dy="0.35em"
+        fontSize="16"
+        fontWeight="bold"
+        fill={targeted ? 'white' : 'var(--muted-foreground)'}
+        pointerEvents="none"
+      >
+        +
+      </text>
+    </g>
+  );
+};
+
+/**
+ * Drawn over the tree in editing mode: a "+" slot on every empty child
+ * position, a click target over every node to change its key, and dragging a
+ * node onto a slot to move its subtree there. Keys are typed into a field
+ * that opens on the canvas where the key goes.
+ */
+export const TreeEditLayer = <K,>({
+  nodes,
+  rootId,
+  orientation,
+  formatKey,
+  editor,
+  onNodeHover,
+}: TreeEditLayerProps<K>): React.ReactElement => {
+  const [field, setField] = useState<Field | null>(null);
+  const [draft, setDraft] = useState('');
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [targetSlot, setTargetSlot] = useState<string | null>(null);
+  // A drag that ends over the node it started on must not count as a click on it
+  const dragged = useRef(false);
+
+  // Drags are followed on the window, so they end wherever the pointer is released
+  useEffect(() => {
+    if (!drag) return;
+    const handleMove = (event: PointerEvent) => {
+      if (!drag.moving && Math.hypot(event.clientX - drag.from.x, event.clientY - drag.from.y) >= DRAG_THRESHOLD) {
+        setDrag({ ...drag, moving: true });
+      }
+    };
+    const handleUp = () => {
+      dragged.current = drag.moving;
+      setDrag(null);
+      setTargetSlot(null);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+    };
+  }, [drag]);
+
+  const openField = (next: Field, text: string) => {
+    setField(next);
+    setDraft(text);
+  };
+
+  const submit = () => {
+    if (!field) return;
+    const accepted = field.kind === 'add' ? editor.onAddChild(field.parentId, field.side, draft) : editor.onSetKey(field.id, draft);
+    if (accepted) setField(null);
+  };
+
+  const moving = drag?.moving ? nodes.find(node => node.id === drag.id) : undefined;
+  // A subtree cannot be dropped anywhere inside itself
+  const insideMoved = new Set(moving ? moving.getAllNodes().map(node => node.id) : []);
+
+  const slots = nodes.flatMap(node =>
+    (['left', 'right'] as const)
+      .filter(side => !node[side] && !insideMoved.has(node.id))
+      .map(side => ({ node, side, key: `${node.id}-${side}` }))
+  );
+
+  const fieldAnchor = (): Point | null => {
+    if (!field) return null;
+    if (field.kind === 'key') return nodes.find(node => node.id === field.id) ?? null;
+    const parent = nodes.find(node => node.id === field.parentId);
+    if (!parent || parent[field.side]) return null;
+    const offset = slotOffset(orientation, field.side);
+    return { x: parent.x + offset.x, y: parent.y + offset.y };
+  };
+  const anchor = fieldAnchor();
+
+  return (
+    <g>
+      {slots.map(({ node, side, key }) => (
+        <ChildSlot
+          key={`slot-${key}`}
+          parent={node}
+          side={side}
+          orientation={orientation}
+          title={`Add a ${side} child to ${formatKey(node.value)}`}
+          armed={moving !== undefined}
+          targeted={moving !== undefined && targetSlot === key}
+          onPointerEnter={() => moving && setTargetSlot(key)}
+          onPointerLeave={() => setTargetSlot(current => (current === key ? null : current))}
+          onPointerUp={() => moving && editor.onMoveSubtree(moving.id, node.id, side)}
+          onClick={() => !moving && openField({ kind: 'add', parentId: node.id, side }, '')}
+        />
+      ))}
+
+      {nodes.map(node => (
+        <circle
+          key={`hit-${node.id}`}
+          cx={node.x}
+          cy={node.y}
+          r={NODE_DIAMETER / 2}
+          fill="transparent"
+          stroke={moving?.id === node.id ? '#10b981' : 'none'}
+          strokeWidth="4"
+          strokeDasharray="6,4"
+          className={node.id === rootId ? 'cursor-pointer' : 'cursor-move'}
+          onPointerDown={event => {
+            if (event.button !== 0) return;
+            // Keeps the canvas from panning, and lets touch pointers reach the slot they are released over
+            event.stopPropagation();
+            const target = event.currentTarget;
+            if (target.hasPointerCapture(event.pointerId)) target.releasePointerCapture(event.pointerId);
+            dragged.current = false;
+            // The root has no parent to be cut from, so it can only be clicked
+            if (node.id !== rootId) setDrag({ id: node.id, from: { x: event.clientX, y: event.clientY }, moving: false });
+          }}
+          onClick={() => !dragged.current && openField({ kind: 'key', id: node.id }, formatKey(node.value))}
+          onMouseEnter={onNodeHover && (() => onNodeHover(node.id))}
+          onMouseLeave={onNodeHover && (() => onNodeHover(null))}
+        >
+          <title>{node.id === rootId ? 'Click to change the key' : 'Click to change the key, drag onto a + to move the subtree'}</title>
+        </circle>
+      ))}
+
+      {field && anchor && (
+        <foreignObject
+          x={anchor.x - FIELD_WIDTH / 2}
+          y={anchor.y - FIELD_HEIGHT / 2}
+          width={FIELD_WIDTH}
+          height={FIELD_HEIGHT}
+          onPointerDown={event => event.stopPropagation()}
+        >
+          <input
+            autoFocus
+            value={draft}
+            placeholder={field.kind === 'add' ? 'New key' : 'Key'}
+            onChange={event => setDraft(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === 'Enter') submit();
+              if (event.key === 'Escape') setField(null);
+            }}
+            onBlur={() => setField(null)}
+            className="w-full h-full bg-background text-foreground border-2 border-primary rounded-md px-2 text-sm text-center shadow-lg"
+          />
+        </foreignObject>
+      )}
+    </g>
+  );
+};
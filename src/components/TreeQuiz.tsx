@@ -0,0 +1,319 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Button } from './ui/button';
+import { TreeCanvas } from './TreeCanvas';
+import { StepPlayerControls } from './StepPlayerControls';
+import { AlgorithmLog } from './AlgorithmLog';
+import { useStepPlayer } from '../hooks/useStepPlayer';
+import { useCanvasDimensions } from '../hooks/useCanvasDimensions';
+import { useCamera } from '../hooks/useCamera';
+import type { TreeNode } from '../types/TreeNode';
+import { staticFrame, type TreeFrame } from '../lib/treeRecorder';
+import { DEFAULT_LAYOUT } from '../lib/tidyLayout';
+import type { ChildSide } from '../lib/treeEditing';
+import {
+  QUESTION_KINDS,
+  QUIZ_KEYS,
+  createRound,
+  emptyQuizStats,
+  explainRound,
+  loadQuizStats,
+  promptOf,
+  saveQuizStats,
+  scoreAnswer,
+  type QuestionKind,
+  type QuizRound,
+  type Tally,
+} from '../lib/quiz';
+
+// Width of the control panel beside the tree
+const PANEL_WIDTH = 320;
+const ALL_KINDS = Object.keys(QUESTION_KINDS) as QuestionKind[];
+
+interface Outcome {
+  correct: boolean;
+  message: string;
+  // The node the student got wrong, marked while the answer is replayed
+  wrongId?: number;
+}
+
+const percentOf = ({ asked, correct }: Tally): string => (asked === 0 ? '–' : `${Math.round((100 * correct) / asked)}%`);
+
+/** Practice: questions about a random tree, answered on the canvas and graded on the spot. */
+export const TreeQuiz: React.FC = () => {
+  const [kinds, setKinds] = useState<QuestionKind[]>(ALL_KINDS);
+  const [round, setRound] = useState<QuizRound>(() => createRound(ALL_KINDS));
+  // Nodes clicked so far, for the questions answered by clicking a sequence of them
+  const [picks, setPicks] = useState<number[]>([]);
+  const [heightInput, setHeightInput] = useState('');
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+  const [stats, setStats] = useState(loadQuizStats);
+  const player = useStepPlayer<TreeFrame<TreeNode<number>>>();
+  const camera = useCamera();
+  // Account for the structure tabs, header, question and player controls
+  const dimensions = useCanvasDimensions(330);
+  const isAnimating = player.isPlaying;
+  const { root, question } = round;
+  const { format } = QUIZ_KEYS.type;
+
+  useEffect(() => {
+    saveQuizStats(stats);
+  }, [stats]);
+
+  const keyOf = (id: number): string => format(root.getAllNodes().find(node => node.id === id)!.value);
+
+  // Grades the question once, and replays the usual animation of the operation when the answer was wrong
+  const finish = (result: Outcome) => {
+    setOutcome(result);
+    setStats(current => scoreAnswer(current, question.kind, result.correct));
+    if (result.correct) return;
+    const flagged = new Set(result.wrongId === undefined ? [] : [result.wrongId]);
+    player.load(explainRound(round).map(step => ({ ...step, frame: { ...step.frame, flagged } })));
+  };
+
+  const handleNodeClick = (id: number) => {
+    if (outcome || isAnimating || (question.kind !== 'traversal' && question.kind !== 'search')) return;
+    const { answer } = question;
+    const expected = answer[picks.length];
+    if (id !== expected) {
+      const picked = keyOf(id);
+      finish({
+        correct: false,
+        wrongId: id,
+        message:
+          question.kind === 'traversal'
+            ? `${picked} is not next: the traversal visits ${keyOf(expected)} there`
+            : expected === undefined
+            ? `The search stops at ${keyOf(answer[answer.length - 1])}: it never reaches ${picked}`
+            : `search(${question.value}) compares with ${keyOf(expected)} next, not ${picked}`,
+      });
+      return;
+    }
+    const next = [...picks, id];
+    setPicks(next);
+    // A traversal is over once every node is clicked, but where a search stops is part of the answer
+    if (question.kind === 'traversal' && next.length === answer.length) {
+      finish({ correct: true, message: `✅ Right: ${next.map(keyOf).join(' → ')}` });
+    }
+  };
+
+  // The end of a search path is the student's call, as a missing key's path ends at a leaf like any other
+  const handleSearchDone = () => {
+    if (outcome || question.kind !== 'search') return;
+    const { answer, value } = question;
+    if (picks.length === answer.length) {
+      finish({ correct: true, message: `✅ Right: ${picks.map(keyOf).join(' → ')}` });
+      return;
+    }
+    finish({
+      correct: false,
+      message: `search(${value}) does not stop there: it goes on to ${keyOf(answer[picks.length])}`,
+    });
+  };
+
+  const handleSlotClick = (parentId: number, side: ChildSide) => {
+    if (outcome || isAnimating || question.kind !== 'insertion') return;
+    const { answer, value } = question;
+    const correct = answer.parentId === parentId && answer.side === side;
+    finish({
+      correct,
+      message: correct
+        ? `✅ Right: ${value} becomes the ${side} child of ${keyOf(parentId)}`
+        : `${value} becomes the ${answer.side} child of ${keyOf(answer.parentId)}, not the ${side} child of ${keyOf(parentId)}`,
+    });
+  };
+
+  const handleHeightAnswer = () => {
+    if (outcome || question.kind !== 'height') return;
+    if (!/^\s*\d+\s*$/.test(heightInput)) {
+      toast.error(`"${heightInput}" is not a number of levels`);
+      return;
+    }
+    const guess = parseInt(heightInput);
+    finish({
+      correct: guess === question.answer,
+      message:
+        guess === question.answer
+          ? `✅ Right: the tree has ${question.answer} levels`
+          : `The tree has ${question.answer} levels, not ${guess}`,
+    });
+  };
+
+  const handleNext = () => {
+    setRound(createRound(kinds));
+    setPicks([]);
+    setHeightInput('');
+    setOutcome(null);
+    player.clear();
+    camera.fit();
+  };
+
+  const toggleKind = (kind: QuestionKind) => {
+    // At least one kind of question stays on
+    if (kinds.includes(kind) && kinds.length === 1) return;
+    setKinds(kinds.includes(kind) ? kinds.filter(other => other !== kind) : ALL_KINDS.filter(other => other === kind || kinds.includes(other)));
+  };
+
+  const answerFrame = useMemo(
+    (): TreeFrame<TreeNode<number>> => ({
+      ...staticFrame(root),
+      visited: new Set(picks),
+      flagged: outcome?.wrongId === undefined ? undefined : new Set([outcome.wrongId]),
+    }),
+    [root, picks, outcome]
+  );
+  // A replayed explanation takes over the canvas until the next question
+  const frame = player.currentStep?.frame ?? answerFrame;
+  const answering = !outcome && !isAnimating;
+
+  return (
+    <div className="h-full w-full flex flex-col bg-background">
+      {/* Header */}
+      <div className="bg-card shadow-lg border-b border-border px-6 py-4">
+        <h1 className="text-2xl font-bold text-center text-foreground">🎓 Tree Quiz</h1>
+      </div>
+
+      {/* Question Section */}
+      <div className="bg-gradient-to-r from-muted/20 to-accent/20 p-4 border-b border-border">
+        <div className="flex gap-4 items-center justify-center">
+          <span className="px-2 py-0.5 rounded bg-muted text-xs font-semibold text-muted-foreground">
+            {QUESTION_KINDS[question.kind].label}
+          </span>
+          <p className="text-lg font-semibold text-foreground">{promptOf(question)}</p>
+          {question.kind === 'height' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={heightInput}
+                onChange={(e) => setHeightInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleHeightAnswer();
+                }}
+                disabled={!!outcome}
+                className="w-24 text-lg py-1 px-3 border-2 border-input focus:border-ring rounded-lg focus:outline-none disabled:opacity-50 bg-background text-center font-bold text-foreground"
+              />
+              <Button onClick={handleHeightAnswer} disabled={!!outcome || !heightInput}>
+                Answer
+              </Button>
+            </>
+          )}
+          {question.kind === 'search' && (
+            <Button onClick={handleSearchDone} disabled={!answering} variant="outline" title="The search ends at the last node clicked">
+              Path ends here
+            </Button>
+          )}
+          <Button onClick={handleNext} variant={outcome ? 'default' : 'outline'}>
+            {outcome ? 'Next Question' : 'Skip'}
+          </Button>
+        </div>
+        <p
+          className={`text-center mt-2 text-sm font-semibold h-5 ${
+            !outcome ? 'text-muted-foreground' : outcome.correct ? 'text-green-500' : 'text-destructive'
+          }`}
+        >
+          {outcome
+            ? outcome.correct
+              ? outcome.message
+              : `❌ ${outcome.message}. Watch the replay below.`
+            : question.kind === 'traversal' || question.kind === 'search'
+            ? `${picks.length > 0 ? `So far: ${picks.map(keyOf).join(' → ')}` : 'Click a node to start'}`
+            : ''}
+        </p>
+      </div>
+
+      {/* Main content */}
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1 min-w-0 p-4 flex flex-col items-center gap-3">
+          <TreeCanvas
+            frame={frame}
+            width={dimensions.width - PANEL_WIDTH}
+            height={dimensions.height}
+            mode="bst"
+            formatKey={format}
+            layout={DEFAULT_LAYOUT}
+            camera={camera}
+            onNodeClick={answering && (question.kind === 'traversal' || question.kind === 'search') ? handleNodeClick : undefined}
+            onSlotClick={answering && question.kind === 'insertion' ? handleSlotClick : undefined}
+          />
+          <div style={{ width: dimensions.width - PANEL_WIDTH }}>
+            <StepPlayerControls player={player} />
+          </div>
+        </div>
+
+        {/* Control panel */}
+        <div className="w-80 bg-card shadow-xl border-l border-border flex flex-col">
+          {/* Questions Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">❓ Questions</h3>
+            <div className="space-y-1">
+              {ALL_KINDS.map(kind => (
+                <label key={kind} className="flex items-start gap-2 text-sm text-foreground" title={QUESTION_KINDS[kind].description}>
+                  <input type="checkbox" checked={kinds.includes(kind)} onChange={() => toggleKind(kind)} className="mt-1" />
+                  <span>
+                    {QUESTION_KINDS[kind].label}
+                    <span className="block text-xs text-muted-foreground">{QUESTION_KINDS[kind].description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            {outcome?.correct && (
+              <Button onClick={() => player.load(explainRound(round))} disabled={isAnimating} variant="outline" className="w-full mt-3">
+                Replay the Answer
+              </Button>
+            )}
+          </div>
+
+          {/* Score Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">🏆 Score</h3>
+            <p className="text-sm text-foreground">
+              <span className="text-2xl font-bold">
+                {stats.session.correct}/{stats.session.asked}
+              </span>{' '}
+              <span className="text-muted-foreground">right this session ({percentOf(stats.session)})</span>
+            </p>
+            {stats.session.streak > 1 && <p className="text-xs text-primary mt-1">🔥 {stats.session.streak} in a row</p>}
+            <p className="text-xs text-muted-foreground mt-3 mb-1">Accuracy by question, over all sessions:</p>
+            <dl className="space-y-1 text-sm">
+              {ALL_KINDS.map(kind => {
+                const tally = stats.byKind[kind];
+                return (
+                  <div key={kind}>
+                    <div className="flex justify-between">
+                      <dt className="text-muted-foreground">{QUESTION_KINDS[kind].label}</dt>
+                      <dd className="font-mono text-foreground">
+                        {percentOf(tally)} <span className="text-xs text-muted-foreground">({tally.correct}/{tally.asked})</span>
+                      </dd>
+                    </div>
+                    <div className="h-1.5 rounded bg-muted overflow-hidden">
+                      <div
+                        className="h-full bg-green-500"
+                        style={{ width: `${tally.asked === 0 ? 0 : (100 * tally.correct) / tally.asked}%` }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </dl>
+            <div className="flex gap-2 mt-3">
+              <Button
+                onClick={() => setStats({ ...stats, session: emptyQuizStats().session })}
+                variant="outline"
+                size="sm"
+                className="flex-1"
+              >
+                New Session
+              </Button>
+              <Button onClick={() => setStats(emptyQuizStats())} variant="outline" size="sm" className="flex-1">
+                Reset All
+              </Button>
+            </div>
+          </div>
+
+          <AlgorithmLog player={player} placeholder="A wrong answer replays the right one here, step by step..." />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useMemo } from 'react';
+import type { TreeNode } from '../types/TreeNode';
+import { formatBalance } from '../lib/avlAlgorithms';
+import { TREE_SHAPES, measureTree, type TreeShape } from '../lib/treeMetrics';
+
+interface TreeStatsPanelProps<K> {
+  root: TreeNode<K> | null;
+  // The node under the pointer on the canvas, if any
+  hoveredId: number | null;
+  formatKey: (key: K) => string;
+}
+
+/** Facts about the tree on screen and its shape, plus where the hovered node sits in it. */
+export const TreeStatsPanel = <K,>({ root, hoveredId, formatKey }: TreeStatsPanelProps<K>): React.ReactElement => {
+  const { statistics, nodes } = useMemo(() => measureTree(root), [root]);
+  const hovered = useMemo(
+    () => (root && hoveredId !== null ? root.getAllNodes().find(node => node.id === hoveredId) ?? null : null),
+    [root, hoveredId]
+  );
+  const hoveredMetrics = hovered && nodes.get(hovered.id);
+
+  const rows: [string, string][] = [
+    ['Nodes', statistics.keys > statistics.nodes ? `${statistics.nodes} (${statistics.keys} keys)` : `${statistics.nodes}`],
+    ['Height (levels)', `${statistics.height}`],
+    ['Leaves', `${statistics.leaves}`],
+    [
+      'Leaf depth',
+      statistics.minLeafDepth === statistics.maxLeafDepth
+        ? `${statistics.minLeafDepth}`
+        : `${statistics.minLeafDepth} – ${statistics.maxLeafDepth}`,
+    ],
+    ['Internal path length', `${statistics.internalPathLength}`],
+    ['Avg. successful search', `${statistics.averageSearch.toFixed(2)} comparisons`],
+  ];
+
+  return (
+    <div className="p-4 border-b border-border">
+      <h3 className="text-lg font-semibold text-foreground mb-3">📊 Statistics</h3>
+      {!root ? (
+        <p className="text-xs text-muted-foreground">The tree is empty.</p>
+      ) : (
+        <>
+          <dl className="grid grid-cols-2 gap-x-2 gap-y-1 text-sm">
+            {rows.map(([label, value]) => (
+              <React.Fragment key={label}>
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="font-mono text-foreground text-right">{value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+          <div className="flex flex-wrap gap-1 mt-3">
+            {(Object.keys(TREE_SHAPES) as TreeShape[]).map(shape => (
+              <span
+                key={shape}
+                title={TREE_SHAPES[shape].description}
+                className={`px-2 py-0.5 rounded text-xs font-semibold ${
+                  statistics[shape] ? 'bg-green-500/20 text-green-500' : 'bg-muted text-muted-foreground line-through'
+                }`}
+              >
+                {TREE_SHAPES[shape].label}
+              </span>
+            ))}
+          </div>
+          <p className="text-xs mt-3 h-4">
+            {hovered && hoveredMetrics ? (
+              <span className="font-mono text-foreground">
+                {formatKey(hovered.value)}: depth {hoveredMetrics.depth} · height {hoveredMetrics.height} · balance{' '}
+                {formatBalance(hoveredMetrics.balance)}
+              </span>
+            ) : (
+              <span className="text-muted-foreground">Point at a node to see its depth, height and balance factor</span>
+            )}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,579 +1,949 @@
-import React, { useState, useEffect } from 'react';
-import { TreeNode } from '../types/TreeNode';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import toast from 'react-hot-toast';
+import { TreeNode, type DeletionStrategy } from '../types/TreeNode';
+import { Keyboard, Redo2, Trash2, Undo2 } from 'lucide-react';
 import { Button } from './ui/button';
+import { TreeCanvas } from './TreeCanvas';
+import type { TreeEditor } from './TreeEditLayer';
+import { renderStills, type StillOptions } from './treeDrawing';
+import { StepPlayerControls } from './StepPlayerControls';
+import { AlgorithmLog } from './AlgorithmLog';
+import { CodePanel } from './CodePanel';
+import { WorkListPanel } from './WorkListPanel';
+import { TreeStatsPanel } from './TreeStatsPanel';
+import { BulkLoadDialog, type BulkLoadOptions } from './BulkLoadDialog';
+import { CommandPalette } from './CommandPalette';
+import { ShortcutSheet } from './ShortcutSheet';
+import { PLAYBACK_SPEEDS, useStepPlayer } from '../hooks/useStepPlayer';
+import { useCanvasDimensions } from '../hooks/useCanvasDimensions';
+import { useCamera } from '../hooks/useCamera';
+import { useHistory, type HistoryEntry } from '../hooks/useHistory';
+import { staticFrame, type TreeStep } from '../lib/treeRecorder';
+import { recordTraversal, type TraversalType } from '../lib/bstAlgorithms';
+import { ORDER_QUERIES, recordOrderQuery, type OrderQuery, type OrderQueryKind } from '../lib/queryAlgorithms';
+import { isSearchTree, recordBstValidation } from '../lib/validationAlgorithms';
+import { addChild, moveSubtree, setKey } from '../lib/treeEditing';
+import { moveCursor, type CursorMove } from '../lib/treeMetrics';
+import type { Command } from '../lib/commands';
+import {
+  actionForKey,
+  keyLabel,
+  loadShortcuts,
+  saveShortcuts,
+  type ShortcutAction,
+} from '../lib/shortcuts';
+import {
+  WORK_LIST_TRAVERSALS,
+  recordWorkListTraversal,
+  type TraversalFrame,
+  type WorkListTraversal,
+} from '../lib/traversalAlgorithms';
+import {
+  TREE_FORMATS,
+  TreeParseError,
+  encodeTreeLink,
+  locateParseError,
+  parseTree,
+  readTreeLink,
+  serializeTree,
+  type ParseErrorLocation,
+  type TreeDocument,
+  type TreeFormat,
+  type TreeSettings,
+} from '../lib/treeFormats';
+import { downloadBlob, fittingScale, renderPng, resolvePalette, zipFiles, type StillImage } from '../lib/imageExport';
+import {
+  deleteWorkspace,
+  describeTree,
+  listWorkspaces,
+  loadHistory,
+  loadLog,
+  loadSession,
+  saveHistory,
+  saveLog,
+  saveSession,
+  saveWorkspace,
+  type Workspace,
+} from '../lib/workspaces';
+import { DEFAULT_LAYOUT, LAYOUT_ORIENTATIONS, type LayoutOrientation, type LayoutSettings } from '../lib/tidyLayout';
+import { TREE_MODES, buildTree, convertTree, type TreeMode } from '../lib/treeModes';
+import {
+  DUPLICATE_POLICIES,
+  KEY_TYPES,
+  type DuplicatePolicy,
+  type KeyContext,
+  type KeyTypeId,
+  type TreeKey,
+} from '../lib/keys';
 
-interface TreeVisualizationProps {}
+// Every recorded step keeps the highlighted nodes of the whole tree, so walks hundreds of levels
+// deep and traversals of thousands of nodes would take too long and too much memory to record
+const MAX_ANIMATED_HEIGHT = 200;
+const MAX_ANIMATED_TRAVERSAL = 1000;
+// A bulk load animates its insertions one after another, which only stays watchable for a few of them
+const MAX_ANIMATED_BULK = 100;
 
-export const TreeVisualization: React.FC<TreeVisualizationProps> = () => {
-  const [tree, setTree] = useState<TreeNode | null>(null);
+// Resolutions offered for PNG export, as multiples of the on-screen size
+const IMAGE_SCALES = [1, 2, 4] as const;
+// Each exported frame is rasterized in turn, which takes a while for long recordings
+const MAX_EXPORTED_FRAMES = 500;
+// The session is saved once changes pause for this long, rather than after every step of a burst
+const AUTOSAVE_DELAY = 1000;
+
+const DEFAULT_SETTINGS: TreeSettings = { mode: 'bst', keyTypeId: 'number', duplicates: 'reject' };
+
+// The tree of the share link the page was opened with, the reason it cannot be read, or null without one
+const readSharedTree = (): TreeDocument | TreeParseError | null => {
+  try {
+    return readTreeLink(window.location.hash, DEFAULT_SETTINGS);
+  } catch (error) {
+    if (!(error instanceof TreeParseError)) throw error;
+    return error;
+  }
+};
+
+interface TreeVisualizationProps {
+  // Whether this view's tab is showing, so that its keyboard shortcuts apply
+  active: boolean;
+}
+
+export const TreeVisualization: React.FC<TreeVisualizationProps> = ({ active }) => {
+  const [tree, setTreeRoot] = useState<TreeNode<TreeKey> | null>(null);
+  const [liveFrame, setLiveFrame] = useState(() => staticFrame<TreeNode<TreeKey>>(null));
   const [inputValue, setInputValue] = useState<string>('');
-  const [isAnimating, setIsAnimating] = useState<boolean>(false);
-  const [animationLog, setAnimationLog] = useState<string[]>([]);
-  const [dimensions, setDimensions] = useState({ width: 1200, height: 500 });
-  const [renderTrigger, setRenderTrigger] = useState(0);
+  const [deletionStrategy, setDeletionStrategy] = useState<DeletionStrategy>('successor');
+  const [mode, setMode] = useState<TreeMode>('bst');
+  const [keyTypeId, setKeyTypeId] = useState<KeyTypeId>('number');
+  const [duplicates, setDuplicates] = useState<DuplicatePolicy>('reject');
+  const [layout, setLayout] = useState<LayoutSettings>(DEFAULT_LAYOUT);
+  const [transferFormat, setTransferFormat] = useState<TreeFormat>('json');
+  const [transferText, setTransferText] = useState('');
+  const [transferError, setTransferError] = useState<ParseErrorLocation | null>(null);
+  const [imageScale, setImageScale] = useState<number>(2);
+  const [isExporting, setIsExporting] = useState(false);
+  // The theme class can sit on any ancestor, so exported colors are read where the tree is drawn
+  const viewRef = useRef<HTMLDivElement>(null);
+  const [hoveredId, setHoveredId] = useState<number | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isBulkLoading, setIsBulkLoading] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isShowingShortcuts, setIsShowingShortcuts] = useState(false);
+  const [shortcuts, setShortcuts] = useState(loadShortcuts);
+  // The node the arrow keys move between, if they have been used
+  const [cursorId, setCursorId] = useState<number | null>(null);
+  const keyInputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState<OrderQueryKind>('min');
+  const [queryFirst, setQueryFirst] = useState('');
+  const [querySecond, setQuerySecond] = useState('');
+  const [workspaceName, setWorkspaceName] = useState('');
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  // Read once: the link is dropped from the address bar as soon as its tree is shown
+  const [sharedTree] = useState(readSharedTree);
+  const player = useStepPlayer<TraversalFrame<TreeKey>>();
+  const camera = useCamera();
+  const history = useHistory<TreeDocument>();
+  const isAnimating = player.isPlaying;
+  // Account for the structure tabs, header, input and player controls
+  const dimensions = useCanvasDimensions(400);
 
-  // Update dimensions on window resize
-  useEffect(() => {
-    const updateDimensions = () => {
-      const width = window.innerWidth - 40;
-      const height = window.innerHeight - 300; // Account for header and input
-      setDimensions({ width: Math.max(1000, width), height: Math.max(500, height) });
-    };
+  const keys: KeyContext<TreeKey> = { type: KEY_TYPES[keyTypeId], duplicates };
+  const settings: TreeSettings = { mode, keyTypeId, duplicates };
+  // Hand editing can break the key order, which only a plain BST is allowed to hold on to
+  const editing = isEditing && mode === 'bst' && !isAnimating;
+  // The live tree changes in place, so its snapshot is what tells when to check it again
+  const isOrdered = useMemo(
+    () => isSearchTree(liveFrame.root, { type: KEY_TYPES[keyTypeId], duplicates }),
+    [liveFrame.root, keyTypeId, duplicates]
+  );
 
-    updateDimensions();
-    window.addEventListener('resize', updateDimensions);
-    return () => window.removeEventListener('resize', updateDimensions);
+  // Operations change the tree in place, so each update also snapshots it; the canvas lays out a snapshot
+  // only once, and the history keeps it to go back to
+  const setTree = useCallback((root: TreeNode<TreeKey> | null, snapshot: TreeNode<TreeKey> | null = root && root.clone()) => {
+    setTreeRoot(root);
+    setLiveFrame(staticFrame(snapshot));
+    return snapshot;
   }, []);
 
-  // Initialize with a sample tree
+  // Shows the result of a structural operation and adds it to the history, unless nothing changed
+  const commitTree = (label: string, root: TreeNode<TreeKey> | null, newSettings: TreeSettings = settings) => {
+    const snapshot = setTree(root);
+    const current = history.current;
+    const unchanged =
+      current !== null &&
+      current.mode === newSettings.mode &&
+      current.keyTypeId === newSettings.keyTypeId &&
+      current.duplicates === newSettings.duplicates &&
+      (snapshot ? snapshot.sameStructure(current.root) : current.root === null);
+    if (!unchanged) history.record(label, { ...newSettings, root: snapshot });
+  };
+
+  // Brings back a saved workspace with its whole history and log; throws a TreeParseError if it is damaged
+  const { reset: resetHistory, replaceAll: replaceHistory } = history;
+  const { load: loadSteps, clear: clearSteps, setSpeed } = player;
+  const applyWorkspace = useCallback((workspace: Workspace) => {
+    const entries: HistoryEntry<TreeDocument>[] = loadHistory(workspace.history);
+    const index = Math.max(0, Math.min(entries.length - 1, workspace.historyIndex));
+    const { state } = entries[index];
+    setMode(state.mode);
+    setKeyTypeId(state.keyTypeId);
+    setDuplicates(state.duplicates);
+    setTree(state.root && state.root.clone(), state.root);
+    replaceHistory(entries, index);
+    setLayout(workspace.layout);
+    setDeletionStrategy(workspace.deletionStrategy);
+    const { log } = workspace;
+    const steps = loadLog<TraversalFrame<TreeKey>>(log, staticFrame(state.root));
+    if (steps && log) loadSteps(steps, false, log.index);
+    else clearSteps();
+    if (log && (PLAYBACK_SPEEDS as readonly number[]).includes(log.speed)) setSpeed(log.speed);
+  }, [setTree, replaceHistory, loadSteps, clearSteps, setSpeed]);
+
+  // Initialize with the shared tree, else the last session, else a sample tree
   useEffect(() => {
-    const root = new TreeNode(50);
-    root.insert(30);
-    root.insert(70);
-    root.insert(20);
-    root.insert(40);
-    root.insert(60);
-    root.insert(80);
-    root.insert(15);
-    root.insert(25);
-    root.insert(35);
-    root.insert(45);
-    root.calculatePositions(dimensions.width / 2, 80, Math.max(80, dimensions.width / 12));
-    setTree(root);
-  }, [dimensions]);
-
-  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-  const addAnimationLog = (message: string) => {
-    setAnimationLog(prev => [...prev.slice(-6), message]);
-  };
-
-  const forceRerender = () => {
-    setRenderTrigger(prev => prev + 1);
-  };
-
-  const calculateTreeBounds = (node: TreeNode | null): { minX: number, maxX: number, minY: number, maxY: number } => {
-    if (!node) return { minX: 0, maxX: 0, minY: 0, maxY: 0 };
-
-    let minX = node.x - 35; // Account for node radius (30) + small buffer
-    let maxX = node.x + 35;
-    let minY = node.y - 35;
-    let maxY = node.y + 35;
-
-    if (node.left) {
-      const leftBounds = calculateTreeBounds(node.left);
-      minX = Math.min(minX, leftBounds.minX);
-      maxX = Math.max(maxX, leftBounds.maxX);
-      minY = Math.min(minY, leftBounds.minY);
-      maxY = Math.max(maxY, leftBounds.maxY);
-    }
+    let cancelled = false;
+    const showSample = () => {
+      const sample = buildTree('bst', KEY_TYPES.number.samples, { type: KEY_TYPES.number, duplicates: 'reject' });
+      resetHistory('Sample tree', { ...DEFAULT_SETTINGS, root: setTree(sample) });
+    };
 
-    if (node.right) {
-      const rightBounds = calculateTreeBounds(node.right);
-      minX = Math.min(minX, rightBounds.minX);
-      maxX = Math.max(maxX, rightBounds.maxX);
-      minY = Math.min(minY, rightBounds.minY);
-      maxY = Math.max(maxY, rightBounds.maxY);
+    if (sharedTree) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    }
+    if (sharedTree && !(sharedTree instanceof TreeParseError)) {
+      setMode(sharedTree.mode);
+      setKeyTypeId(sharedTree.keyTypeId);
+      setDuplicates(sharedTree.duplicates);
+      resetHistory('Shared tree', { ...sharedTree, root: setTree(sharedTree.root) });
+      return;
+    }
+    if (sharedTree) {
+      toast.error(`The shared tree could not be loaded: ${sharedTree.message}`, { id: 'shared-tree' });
+      showSample();
+      return;
     }
 
-    return { minX, maxX, minY, maxY };
-  };
+    loadSession()
+      .then(session => {
+        if (cancelled) return;
+        if (session) applyWorkspace(session);
+        else showSample();
+      })
+      .catch(error => {
+        if (cancelled) return;
+        // Storage being unavailable is normal in private windows; only a damaged session is worth a mention
+        if (error instanceof TreeParseError) {
+          toast.error(`The last session could not be restored: ${error.message}`, { id: 'restore-session' });
+        }
+        showSample();
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sharedTree, setTree, resetHistory, applyWorkspace]);
 
-  const handleInsert = async () => {
-    const value = parseInt(inputValue);
-    if (isNaN(value) || isAnimating) return;
+  const { entries: historyEntries, index: historyIndex } = history;
+  const { steps: playerSteps, index: playerIndex, speed: playerSpeed } = player;
+  const makeWorkspace = useCallback(
+    (name: string): Workspace => ({
+      name,
+      savedAt: Date.now(),
+      summary: describeTree(historyEntries[historyIndex].state),
+      layout,
+      deletionStrategy,
+      history: saveHistory(historyEntries),
+      historyIndex,
+      log: saveLog(playerSteps, playerIndex, playerSpeed),
+    }),
+    [historyEntries, historyIndex, layout, deletionStrategy, playerSteps, playerIndex, playerSpeed]
+  );
 
-    setIsAnimating(true);
+  // Keep the session saved so a reload picks up where it left off; nothing is saved before it has started
+  useEffect(() => {
+    if (historyEntries.length === 0) return;
+    const timer = setTimeout(() => {
+      saveSession(makeWorkspace('')).catch(() =>
+        toast.error('This browser does not allow saving, so the session will not survive a reload', { id: 'autosave' })
+      );
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [historyEntries.length, makeWorkspace]);
 
-    if (!tree) {
-      const newTree = new TreeNode(value);
-      newTree.calculatePositions(dimensions.width / 2, 80, Math.max(80, dimensions.width / 12));
-      setTree(newTree);
-      addAnimationLog(`Created root node with value: ${value}`);
-    } else {
-      // Check if value already exists
-      const existingNode = tree.search(value);
-      if (existingNode) {
-        addAnimationLog(`⚠️ Value ${value} already exists in tree`);
-        setIsAnimating(false);
-        setInputValue('');
-        return;
-      }
+  useEffect(() => {
+    listWorkspaces().then(setWorkspaces, () => setWorkspaces([]));
+  }, []);
 
-      // Run the animation first
-      await animateInsertion(tree, value);
-      
-      // Then actually insert the value
-      tree.insert(value);
-      
-      // Recalculate positions for the new tree structure
-      tree.calculatePositions(dimensions.width / 2, 80, Math.max(80, dimensions.width / 12));
-      
-      // Clear all highlights and update the tree
-      tree.clearHighlights();
-      forceRerender();
-      
-      addAnimationLog(`✅ Node ${value} successfully inserted!`);
+  // Parses the input as a key of the current type, telling the user when it is not one
+  const readKey = (input: string = inputValue): TreeKey | null => {
+    const value = keys.type.parse(input);
+    if (value === null) {
+      toast.error(`"${input}" is not a valid ${keys.type.label.toLowerCase()} key`);
     }
+    return value;
+  };
+
+  // Too deep a tree is changed at once, without a recording
+  const isTooDeepToAnimate = (): boolean => {
+    const levels = tree ? tree.computeHeight() : 0;
+    if (levels <= MAX_ANIMATED_HEIGHT) return false;
+    toast(`The tree is ${levels} levels deep, so this runs without animation`);
+    return true;
+  };
 
+  // Quick add passes its key straight in rather than through the input field, whose new value would not be read yet
+  const handleInsert = (input: string = inputValue) => {
+    if (isAnimating) return;
+    const value = readKey(input);
+    if (value === null) return;
+
+    const { steps, result } = TREE_MODES[mode].insert(tree, value, keys, isTooDeepToAnimate());
+    commitTree(`Insert ${keys.type.format(value)}`, result);
+    player.load(steps);
     setInputValue('');
-    setIsAnimating(false);
   };
 
-  const reconstructTree = (node: TreeNode): TreeNode => {
-    const newNode = new TreeNode(node.value);
-    if (node.left) {
-      newNode.left = reconstructTree(node.left);
+  // Inserts every key in turn and adds the result to the history as one change
+  const handleBulkLoad = (values: TreeKey[], { replace, animate, label }: BulkLoadOptions) => {
+    if (isAnimating) return;
+    let root = replace ? null : tree;
+    const animated =
+      animate && values.length <= MAX_ANIMATED_BULK && (root ? root.computeHeight() : 0) + values.length <= MAX_ANIMATED_HEIGHT;
+    if (animate && !animated) {
+      toast(`${values.length} keys are inserted at once: loads are animated for up to ${MAX_ANIMATED_BULK} keys`);
     }
-    if (node.right) {
-      newNode.right = reconstructTree(node.right);
+
+    const steps: TreeStep<TreeNode<TreeKey>>[] = [];
+    values.forEach((value, index) => {
+      const recording = TREE_MODES[mode].insert(root, value, keys, !animated);
+      for (const step of recording.steps) steps.push({ ...step, message: `${index + 1}/${values.length} · ${step.message}` });
+      root = recording.result;
+    });
+    commitTree(label, root);
+    player.load(steps);
+    camera.fit();
+  };
+
+  const handleSearch = (input: string = inputValue) => {
+    if (!tree || isAnimating) return;
+    const value = readKey(input);
+    if (value === null) return;
+
+    const silent = isTooDeepToAnimate();
+    if (silent) {
+      toast(tree.search(value, keys.type.compare) ? `Found ${keys.type.format(value)}` : `${keys.type.format(value)} is not in the tree`);
     }
-    return newNode;
+    const { steps, result } = TREE_MODES[mode].search(tree, value, keys, silent);
+    // Only splaying changes the tree, and only then does the search show up in the history
+    commitTree(`Search ${keys.type.format(value)}`, result);
+    player.load(steps);
+    setInputValue('');
   };
 
-  const animateInsertion = async (node: TreeNode, value: number) => {
-    node.clearHighlights();
-    let current = node;
-    let path: TreeNode[] = [];
+  const handleDelete = (input: string = inputValue) => {
+    if (!tree || isAnimating) return;
+    const value = readKey(input);
+    if (value === null) return;
 
-    addAnimationLog(`🔄 Starting insertion of ${value}`);
-    await sleep(400);
+    const { steps, result } = TREE_MODES[mode].delete(tree, value, keys, deletionStrategy, isTooDeepToAnimate());
+    commitTree(`Delete ${keys.type.format(value)}`, result);
+    player.load(steps);
+    setInputValue('');
+  };
 
-    while (current) {
-      current.isHighlighted = true;
-      path.push(current);
-      
-      // Force a re-render without reconstructing the entire tree
-      forceRerender();
-      
-      // Show comparison with visual emphasis
-      addAnimationLog(`📍 Comparing ${value} with ${current.value}...`);
-      await sleep(1000);
-
-      if (value < current.value) {
-        // Highlight the left direction
-        addAnimationLog(`✅ ${value} < ${current.value} → Go LEFT (smaller values)`);
-        current.isVisited = true; // Mark as part of the path
-        forceRerender(); // Update visual state
-        await sleep(800);
-        
-        if (!current.left) {
-          addAnimationLog(`🎯 Found insertion point: LEFT child of ${current.value}`);
-          addAnimationLog(`💡 Rule: ${value} < ${current.value}, so ${value} goes to the left`);
-          break;
-        }
-        current.isHighlighted = false;
-        current = current.left;
-      } else if (value > current.value) {
-        // Highlight the right direction
-        addAnimationLog(`✅ ${value} > ${current.value} → Go RIGHT (larger values)`);
-        current.isVisited = true; // Mark as part of the path
-        forceRerender(); // Update visual state
-        await sleep(800);
-        
-        if (!current.right) {
-          addAnimationLog(`🎯 Found insertion point: RIGHT child of ${current.value}`);
-          addAnimationLog(`💡 Rule: ${value} > ${current.value}, so ${value} goes to the right`);
-          break;
-        }
-        current.isHighlighted = false;
-        current = current.right;
-      } else {
-        addAnimationLog(`⚠️ Value ${value} already exists in tree - no insertion needed`);
-        current.isHighlighted = false;
-        forceRerender();
-        return;
+  // A traversal is nothing but its animation, so large trees are refused rather than run silently
+  const isTooLargeToTraverse = (root: TreeNode<TreeKey>): boolean => {
+    const size = root.getAllNodes().length;
+    if (size <= MAX_ANIMATED_TRAVERSAL) return false;
+    toast.error(`Traversals are animated node by node; ${size} nodes is more than the ${MAX_ANIMATED_TRAVERSAL} they can show`);
+    return true;
+  };
+
+  const handleTraversal = (type: TraversalType) => {
+    if (!tree || isAnimating || isTooLargeToTraverse(tree)) return;
+
+    player.load(recordTraversal(tree, type, keys).steps);
+  };
+
+  const handleWorkListTraversal = (type: WorkListTraversal) => {
+    if (!tree || isAnimating || isTooLargeToTraverse(tree)) return;
+
+    player.load(recordWorkListTraversal(tree, type, keys).steps);
+  };
+
+  // Reads the query's operands from the query fields, or returns null after saying what is wrong with them
+  const readQuery = (): OrderQuery<TreeKey> | null => {
+    if (query === 'min' || query === 'max') return { kind: query };
+    if (query === 'kth') {
+      if (!/^\s*\d+\s*$/.test(queryFirst)) {
+        toast.error(`"${queryFirst}" is not a rank: use 1 for the smallest key, 2 for the next and so on`);
+        return null;
       }
+      return { kind: query, rank: parseInt(queryFirst) };
     }
 
-    // Show the final insertion with a special animation
-    addAnimationLog(`🎉 Inserting ${value} at the correct position!`);
-    current.isHighlighted = false;
-    current.isVisited = true;
-    
-    // Highlight the entire path taken
-    for (const pathNode of path) {
-      pathNode.isVisited = true;
-    }
-    forceRerender();
-    await sleep(1000);
-    
-    addAnimationLog(`✨ ${value} successfully added! Tree maintains BST order.`);
-  };
-
-  const handleSearch = async () => {
-    const value = parseInt(inputValue);
-    if (isNaN(value) || !tree || isAnimating) return;
-
-    setIsAnimating(true);
-    tree.clearHighlights();
-    addAnimationLog(`🔍 Searching for value: ${value}`);
-
-    let current: TreeNode | null = tree;
-    let found = false;
-
-    while (current) {
-      current.isHighlighted = true;
-      forceRerender();
-      await sleep(800);
-
-      if (value === current.value) {
-        current.isSearchResult = true;
-        addAnimationLog(`✅ Found ${value}!`);
-        found = true;
-        break;
-      } else if (value < current.value) {
-        addAnimationLog(`📍 ${value} < ${current.value}, go left`);
-        current.isHighlighted = false;
-        current.isVisited = true;
-        current = current.left;
-      } else {
-        addAnimationLog(`📍 ${value} > ${current.value}, go right`);
-        current.isHighlighted = false;
-        current.isVisited = true;
-        current = current.right;
-      }
+    const first = readKey(queryFirst);
+    if (first === null) return null;
+    if (query !== 'range' && query !== 'lca') return { kind: query, key: first };
+    const second = readKey(querySecond);
+    if (second === null) return null;
+    return query === 'range' ? { kind: query, low: first, high: second } : { kind: query, first, second };
+  };
+
+  // Queries never change the tree, so they stay out of the history
+  const handleQuery = () => {
+    if (!tree || isAnimating) return;
+    const request = readQuery();
+    if (!request) return;
+
+    // A range query reports every key in range one by one, like a traversal
+    const silent =
+      isTooDeepToAnimate() || (request.kind === 'range' && tree.getAllNodes().length > MAX_ANIMATED_TRAVERSAL);
+    const { steps, result } = recordOrderQuery(tree, request, keys, silent);
+    if (silent) {
+      toast(`${ORDER_QUERIES[query].label}: ${result.length > 0 ? result.map(keys.type.format).join(', ') : 'none'}`);
     }
+    player.load(steps);
+  };
 
-    if (!found) {
-      addAnimationLog(`❌ Value ${value} not found in tree`);
+  // The checker visits every node like a traversal, so large trees only get its verdict
+  const handleValidate = () => {
+    if (!tree || isAnimating) return;
+    const size = tree.getAllNodes().length;
+    const silent = size > MAX_ANIMATED_TRAVERSAL;
+    const { steps, result } = recordBstValidation(tree, keys, silent);
+    if (silent) {
+      toast(
+        result.length === 0
+          ? `Valid BST: all ${size} nodes are within their bounds`
+          : `Not a valid BST: ${result.length} of ${size} nodes are out of place`
+      );
     }
+    player.load(steps);
+  };
+
+  const nodeById = (id: number): TreeNode<TreeKey> | null => tree?.getAllNodes().find(node => node.id === id) ?? null;
+
+  const editor: TreeEditor = {
+    onAddChild: (parentId, side, text) => {
+      const value = readKey(text);
+      const parent = nodeById(parentId);
+      if (value === null || !tree || !parent || !addChild(tree, parentId, side, value)) return false;
+      commitTree(`Add ${keys.type.format(value)} as ${side} child of ${keys.type.format(parent.value)}`, tree);
+      player.clear();
+      return true;
+    },
+    onSetKey: (id, text) => {
+      const value = readKey(text);
+      const node = nodeById(id);
+      if (value === null || !tree || !node) return false;
+      const label = `Change ${keys.type.format(node.value)} to ${keys.type.format(value)}`;
+      if (!setKey(tree, id, value)) return false;
+      commitTree(label, tree);
+      player.clear();
+      return true;
+    },
+    onMoveSubtree: (id, parentId, side) => {
+      const node = nodeById(id);
+      const parent = nodeById(parentId);
+      if (!tree || !node || !parent || !moveSubtree(tree, id, parentId, side)) return;
+      commitTree(`Move ${keys.type.format(node.value)} under ${keys.type.format(parent.value)} (${side})`, tree);
+      player.clear();
+    },
+  };
+
+  const handleModeChange = (newMode: TreeMode) => {
+    if (newMode === mode || isAnimating) return;
+
+    setMode(newMode);
+    commitTree(`Switch to ${TREE_MODES[newMode].label}`, convertTree(tree, newMode, keys), { ...settings, mode: newMode });
+    player.clear();
+  };
+
+  const handleKeyTypeChange = (newKeyTypeId: KeyTypeId) => {
+    if (newKeyTypeId === keyTypeId || isAnimating) return;
 
-    forceRerender();
+    // Keys of one type cannot be converted to another, so start over from that type's sample tree
+    const newKeys = { type: KEY_TYPES[newKeyTypeId], duplicates };
+    setKeyTypeId(newKeyTypeId);
+    commitTree(`${newKeys.type.label} sample tree`, buildTree(mode, newKeys.type.samples, newKeys), {
+      ...settings,
+      keyTypeId: newKeyTypeId,
+    });
     setInputValue('');
-    setIsAnimating(false);
+    player.clear();
   };
 
-  const handleTraversal = async (type: 'inorder' | 'preorder' | 'postorder') => {
-    if (!tree || isAnimating) return;
+  const handleDuplicatesChange = (newDuplicates: DuplicatePolicy) => {
+    if (newDuplicates === duplicates || isAnimating) return;
 
-    setIsAnimating(true);
-    tree.clearHighlights();
-    addAnimationLog(`Starting ${type} traversal`);
+    setDuplicates(newDuplicates);
+    commitTree(
+      `Duplicates: ${DUPLICATE_POLICIES[newDuplicates]}`,
+      convertTree(tree, mode, { type: keys.type, duplicates: newDuplicates }),
+      { ...settings, duplicates: newDuplicates }
+    );
+    player.clear();
+  };
+
+  const clearTree = () => {
+    commitTree('Clear tree', null);
+    player.clear();
+  };
+
+  // Puts an earlier or later version back, with the settings it was made under
+  const restore = (state: TreeDocument | null) => {
+    if (!state) return;
+    setMode(state.mode);
+    setKeyTypeId(state.keyTypeId);
+    setDuplicates(state.duplicates);
+    // The history's snapshot is shown as is, while operations get a copy of their own to change
+    setTree(state.root && state.root.clone(), state.root);
+    setInputValue('');
+    player.clear();
+  };
 
-    const visitedOrder: number[] = [];
+  const handleUndo = () => restore(history.undo());
+  const handleRedo = () => restore(history.redo());
 
-    const animateNode = async (node: TreeNode) => {
-      node.isHighlighted = true;
-      node.isVisited = true;
-      visitedOrder.push(node.value);
-      forceRerender();
-      await sleep(800);
-      node.isHighlighted = false;
+  // Ctrl+Z and Ctrl+Shift+Z (or Ctrl+Y) move through the history while this tab is showing
+  useEffect(() => {
+    if (!active) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      // Text fields keep their own undo
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+      event.preventDefault();
+      if (key === 'y' || event.shiftKey) handleRedo();
+      else handleUndo();
     };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
-    try {
-      if (type === 'inorder') {
-        await inOrderTraversalAnimated(tree, animateNode);
-      } else if (type === 'preorder') {
-        await preOrderTraversalAnimated(tree, animateNode);
-      } else {
-        await postOrderTraversalAnimated(tree, animateNode);
-      }
+  const handleFocus = (input: string = inputValue) => {
+    if (!tree) return;
+    const value = readKey(input);
+    if (value === null) return;
+
+    const node = tree.search(value, keys.type.compare);
+    if (!node) {
+      toast.error(`${keys.type.format(value)} is not in the tree`);
+      return;
+    }
+    camera.focus(node.id);
+  };
+
+  const clearHighlights = () => {
+    player.clear();
+  };
 
-      addAnimationLog(`${type} traversal result: ${visitedOrder.join(' → ')}`);
+  const handleExport = (format: TreeFormat = transferFormat) => {
+    setTransferFormat(format);
+    setTransferText(serializeTree({ ...settings, root: tree }, format));
+    setTransferError(null);
+    if (format === 'level-order' && tree?.getAllNodes().some(node => node.count > 1)) {
+      toast('Level-order arrays hold each key once, so duplicate counts were left out');
+    }
+  };
+
+  const handleImport = () => {
+    if (isAnimating) return;
+    let imported: TreeDocument;
+    try {
+      imported = parseTree(transferText, transferFormat, settings);
     } catch (error) {
-      addAnimationLog('Traversal completed');
+      if (!(error instanceof TreeParseError)) throw error;
+      setTransferError(locateParseError(transferText, error));
+      toast.error(error.message);
+      return;
     }
 
-    setIsAnimating(false);
+    setMode(imported.mode);
+    setKeyTypeId(imported.keyTypeId);
+    setDuplicates(imported.duplicates);
+    commitTree(`Import ${TREE_FORMATS[transferFormat].label}`, imported.root, imported);
+    if (imported.mode === 'bst' && !isSearchTree(imported.root, { type: KEY_TYPES[imported.keyTypeId], duplicates: imported.duplicates })) {
+      toast('This tree is not in search-tree order: use Validate BST to see which nodes are out of place');
+    }
+    setTransferError(null);
+    setInputValue('');
+    player.clear();
+    camera.fit();
   };
 
-  const inOrderTraversalAnimated = async (node: TreeNode | null, callback: (node: TreeNode) => Promise<void>): Promise<void> => {
-    if (!node) return;
-    await inOrderTraversalAnimated(node.left, callback);
-    await callback(node);
-    await inOrderTraversalAnimated(node.right, callback);
+  // Exports use the theme's current colors, resolved so that the files look the same outside the page
+  const stillOptions = (): StillOptions<TreeKey> => ({
+    mode,
+    formatKey: keys.type.format,
+    layout,
+    palette: resolvePalette(viewRef.current ?? undefined),
+  });
+
+  // Rasterizes at the chosen scale, or the largest one a canvas can hold, saying so
+  const toPng = (image: StillImage): Promise<Blob> => {
+    const scale = fittingScale(image, imageScale);
+    if (scale < imageScale) {
+      toast(`The tree is too large for ${imageScale}× export, so the PNG is ${scale.toFixed(2)}×`, { id: 'png-scale' });
+    }
+    return renderPng(image, scale);
   };
 
-  const preOrderTraversalAnimated = async (node: TreeNode | null, callback: (node: TreeNode) => Promise<void>): Promise<void> => {
-    if (!node) return;
-    await callback(node);
-    await preOrderTraversalAnimated(node.left, callback);
-    await preOrderTraversalAnimated(node.right, callback);
+  // Runs one export at a time, reporting failures rather than leaving the buttons disabled
+  const runExport = (task: () => Promise<void>) => {
+    setIsExporting(true);
+    task()
+      .catch(error => toast.error(`Export failed: ${error instanceof Error ? error.message : error}`))
+      .finally(() => setIsExporting(false));
   };
 
-  const postOrderTraversalAnimated = async (node: TreeNode | null, callback: (node: TreeNode) => Promise<void>): Promise<void> => {
-    if (!node) return;
-    await postOrderTraversalAnimated(node.left, callback);
-    await postOrderTraversalAnimated(node.right, callback);
-    await callback(node);
+  const handleExportSvg = () =>
+    runExport(async () => {
+      const [image] = await renderStills([frame], stillOptions());
+      downloadBlob(new Blob([image.svg], { type: 'image/svg+xml;charset=utf-8' }), 'tree.svg');
+    });
+
+  const handleExportPng = () =>
+    runExport(async () => {
+      const [image] = await renderStills([frame], stillOptions());
+      downloadBlob(await toPng(image), 'tree.png');
+    });
+
+  // One numbered PNG per recorded step, captioned with its message, plus a list of the step timings
+  const handleExportFrames = () => {
+    const { steps } = player;
+    if (steps.length > MAX_EXPORTED_FRAMES) {
+      toast.error(`Recordings of up to ${MAX_EXPORTED_FRAMES} steps can be exported; this one has ${steps.length}`);
+      return;
+    }
+    player.pause();
+    runExport(async () => {
+      const digits = String(steps.length).length;
+      const number = (index: number) => String(index + 1).padStart(digits, '0');
+      const images = await renderStills(
+        steps.map(step => step.frame),
+        stillOptions(),
+        steps.map((step, index) => `${index + 1}/${steps.length}  ${step.message}`)
+      );
+
+      const files: { name: string; data: Uint8Array }[] = [];
+      for (const [index, image] of images.entries()) {
+        const png = await toPng(image);
+        files.push({ name: `frame-${number(index)}.png`, data: new Uint8Array(await png.arrayBuffer()) });
+      }
+      const timings = steps.map((step, index) => `frame-${number(index)}.png\t${step.duration} ms\t${step.message}`);
+      files.push({ name: 'steps.txt', data: new TextEncoder().encode(`${timings.join('\n')}\n`) });
+      downloadBlob(zipFiles(files), 'tree-animation.zip');
+    });
   };
 
-  const clearTree = () => {
-    setTree(null);
-    setAnimationLog([]);
+  const handleSaveWorkspace = () => {
+    const name = workspaceName.trim();
+    if (!name) return;
+    const replacing = workspaces.some(workspace => workspace.name === name);
+    saveWorkspace(makeWorkspace(name))
+      .then(listWorkspaces)
+      .then(saved => {
+        setWorkspaces(saved);
+        setWorkspaceName('');
+        toast(replacing ? `Updated workspace "${name}"` : `Saved workspace "${name}"`);
+      })
+      .catch(() => toast.error('Could not save the workspace: this browser does not allow storage'));
   };
 
-  const clearHighlights = () => {
-    if (tree) {
-      tree.clearHighlights();
-      forceRerender();
+  const handleLoadWorkspace = (workspace: Workspace) => {
+    if (isAnimating) return;
+    try {
+      applyWorkspace(workspace);
+    } catch (error) {
+      if (!(error instanceof TreeParseError)) throw error;
+      toast.error(`Workspace "${workspace.name}" is damaged: ${error.message}`);
+      return;
     }
+    setInputValue('');
+    camera.fit();
+    toast(`Opened workspace "${workspace.name}"`);
   };
 
-  const renderTree = () => {
-    if (!tree) return null;
-    
-    // Use renderTrigger to force re-renders (this variable forces React to update)
-    void renderTrigger;
+  const handleDeleteWorkspace = (name: string) => {
+    deleteWorkspace(name)
+      .then(listWorkspaces)
+      .then(setWorkspaces)
+      .catch(() => toast.error(`Could not delete workspace "${name}"`));
+  };
 
-    const renderNode = (node: TreeNode): React.ReactElement[] => {
-      const elements: React.ReactElement[] = [];
+  const handleCopyLink = () => {
+    const url = `${window.location.origin}${window.location.pathname}${window.location.search}${encodeTreeLink({ ...settings, root: tree })}`;
+    navigator.clipboard.writeText(url).then(
+      () => toast('Link copied: whoever opens it sees this tree'),
+      () => toast.error('Could not copy the link to the clipboard')
+    );
+  };
 
-      // Render connections to children with directional arrows
-      if (node.left) {
-        const lineColor = (node.isHighlighted || node.left.isHighlighted) ? '#f59e0b' : 
-                         (node.isVisited || node.left.isVisited) ? '#8b5cf6' : 'hsl(var(--muted-foreground))';
-        const lineWidth = (node.isHighlighted || node.left.isHighlighted) ? '4' : '3';
-        
-        // Calculate arrow position
-        const dx = node.left.x - node.x;
-        const dy = node.left.y - node.y;
-        const length = Math.sqrt(dx * dx + dy * dy);
-        const unitX = dx / length;
-        const unitY = dy / length;
-        
-        // Arrow position (80% along the line)
-        const arrowX = node.x + (dx * 0.8);
-        const arrowY = node.y + (dy * 0.8);
-        
-        elements.push(
-          <g key={`line-${node.value}-left`}>
-            {/* Main line */}
-            <line
-              x1={node.x}
-              y1={node.y}
-              x2={node.left.x}
-              y2={node.left.y}
-              stroke={lineColor}
-              strokeWidth={lineWidth}
-              className="transition-all duration-300"
-              strokeLinecap="round"
-            />
-            {/* Directional arrow */}
-            <polygon
-              points={`${arrowX},${arrowY} ${arrowX - unitX * 8 - unitY * 4},${arrowY - unitY * 8 + unitX * 4} ${arrowX - unitX * 8 + unitY * 4},${arrowY - unitY * 8 - unitX * 4}`}
-              fill={lineColor}
-              className="transition-all duration-300"
-            />
-            {/* "SMALLER" label */}
-            <text
-              x={node.x - 25}
-              y={node.y + 15}
-              fill="hsl(var(--muted-foreground))"
-              fontSize="10"
-              fontWeight="bold"
-              className="transition-all duration-300"
-            >
-              &lt;
-            </text>
-          </g>
-        );
-        elements.push(...renderNode(node.left));
-      }
+  const closeBulkLoad = useCallback(() => setIsBulkLoading(false), []);
 
-      if (node.right) {
-        const lineColor = (node.isHighlighted || node.right.isHighlighted) ? '#f59e0b' : 
-                         (node.isVisited || node.right.isVisited) ? '#8b5cf6' : 'hsl(var(--muted-foreground))';
-        const lineWidth = (node.isHighlighted || node.right.isHighlighted) ? '4' : '3';
-        
-        // Calculate arrow position
-        const dx = node.right.x - node.x;
-        const dy = node.right.y - node.y;
-        const length = Math.sqrt(dx * dx + dy * dy);
-        const unitX = dx / length;
-        const unitY = dy / length;
-        
-        // Arrow position (80% along the line)
-        const arrowX = node.x + (dx * 0.8);
-        const arrowY = node.y + (dy * 0.8);
-        
-        elements.push(
-          <g key={`line-${node.value}-right`}>
-            {/* Main line */}
-            <line
-              x1={node.x}
-              y1={node.y}
-              x2={node.right.x}
-              y2={node.right.y}
-              stroke={lineColor}
-              strokeWidth={lineWidth}
-              className="transition-all duration-300"
-              strokeLinecap="round"
-            />
-            {/* Directional arrow */}
-            <polygon
-              points={`${arrowX},${arrowY} ${arrowX - unitX * 8 - unitY * 4},${arrowY - unitY * 8 + unitX * 4} ${arrowX - unitX * 8 + unitY * 4},${arrowY - unitY * 8 - unitX * 4}`}
-              fill={lineColor}
-              className="transition-all duration-300"
-            />
-            {/* "LARGER" label */}
-            <text
-              x={node.x + 15}
-              y={node.y + 15}
-              fill="hsl(var(--muted-foreground))"
-              fontSize="10"
-              fontWeight="bold"
-              className="transition-all duration-300"
-            >
-              &gt;
-            </text>
-          </g>
-        );
-        elements.push(...renderNode(node.right));
-      }
+  // While a recording is loaded the canvas shows its current step, otherwise the live tree
+  const frame: TraversalFrame<TreeKey> = player.currentStep?.frame ?? liveFrame;
 
-      // Render the node itself
-      const nodeColor = node.isSearchResult
-        ? '#10b981' // green for search result
-        : node.isHighlighted
-        ? '#f59e0b' // amber for highlighted (currently comparing)
-        : node.isVisited
-        ? '#8b5cf6' // purple for visited (part of path)
-        : '#3b82f6'; // blue for default
-
-      const nodeRadius = 30;
-      const isActive = node.isHighlighted || node.isVisited;
-
-      elements.push(
-        <g key={`node-${node.value}`} className="cursor-pointer">
-          {/* Main circle with enhanced styling */}
-          <circle
-            cx={node.x}
-            cy={node.y}
-            r={nodeRadius}
-            fill={nodeColor}
-            stroke="hsl(var(--background))"
-            strokeWidth={isActive ? "4" : "3"}
-            className="transition-all duration-300"
-            style={{
-              filter: node.isHighlighted 
-                ? 'drop-shadow(0 0 20px rgba(245, 158, 11, 0.8))' 
-                : node.isVisited 
-                ? 'drop-shadow(0 0 15px rgba(139, 92, 246, 0.6))'
-                : 'drop-shadow(0 2px 4px rgba(0, 0, 0, 0.2))'
-            }}
-          />
-          
-          {/* Node value */}
-          <text
-            x={node.x}
-            y={node.y}
-            textAnchor="middle"
-            dy="0.35em"
-            fill="hsl(var(--primary-foreground))"
-            fontSize="18"
-            fontWeight="bold"
-            className="transition-all duration-300"
-            style={{ textShadow: '1px 1px 2px rgba(0,0,0,0.8)' }}
-          >
-            {node.value}
-          </text>
-          
-          {/* Pulse animation for currently highlighted nodes */}
-          {node.isHighlighted && (
-            <>
-              <circle
-                cx={node.x}
-                cy={node.y}
-                r={nodeRadius + 15}
-                fill="none"
-                stroke={nodeColor}
-                strokeWidth="3"
-                opacity="0.6"
-                className="animate-ping"
-              />
-              {/* Comparison indicator */}
-              <text
-                x={node.x}
-                y={node.y - 50}
-                textAnchor="middle"
-                fill="hsl(var(--primary))"
-                fontSize="14"
-                fontWeight="bold"
-                className="animate-bounce"
-              >
-                COMPARING
-              </text>
-            </>
-          )}
-          
-          {/* Path indicator for visited nodes */}
-          {node.isVisited && !node.isHighlighted && (
-            <circle
-              cx={node.x}
-              cy={node.y}
-              r={nodeRadius + 8}
-              fill="none"
-              stroke="#8b5cf6"
-              strokeWidth="2"
-              opacity="0.8"
-              strokeDasharray="5,5"
-              className="transition-all duration-300"
-            />
-          )}
-          
-          {/* Direction indicators */}
-          {isActive && (
-            <>
-              {/* Left arrow for smaller values */}
-              <g opacity="0.7">
-                <circle cx={node.x - 45} cy={node.y} r="12" fill="hsl(var(--muted))" stroke="hsl(var(--border))"/>
-                <text x={node.x - 45} y={node.y} textAnchor="middle" dy="0.35em" fontSize="12" fontWeight="bold" fill="hsl(var(--muted-foreground))">
-                  &lt;
-                </text>
-                <text x={node.x - 45} y={node.y + 20} textAnchor="middle" fontSize="8" fill="hsl(var(--muted-foreground))">
-                  smaller
-                </text>
-              </g>
-              
-              {/* Right arrow for larger values */}
-              <g opacity="0.7">
-                <circle cx={node.x + 45} cy={node.y} r="12" fill="hsl(var(--muted))" stroke="hsl(var(--border))"/>
-                <text x={node.x + 45} y={node.y} textAnchor="middle" dy="0.35em" fontSize="12" fontWeight="bold" fill="hsl(var(--muted-foreground))">
-                  &gt;
-                </text>
-                <text x={node.x + 45} y={node.y + 20} textAnchor="middle" fontSize="8" fill="hsl(var(--muted-foreground))">
-                  larger
-                </text>
-              </g>
-            </>
-          )}
-        </g>
-      );
+  useEffect(() => {
+    saveShortcuts(shortcuts);
+  }, [shortcuts]);
 
-      return elements;
-    };
+  // The cursor is dropped once its node is gone from the tree on screen
+  const cursorNode = cursorId === null ? null : frame.root?.getAllNodes().find(node => node.id === cursorId) ?? null;
 
-    // Calculate the bounds of the tree to optimize viewBox
-    const bounds = calculateTreeBounds(tree);
-    const padding = 50; // Reduced padding
-    const viewBoxX = bounds.minX - padding;
-    const viewBoxY = bounds.minY - padding;
-    const viewBoxWidth = bounds.maxX - bounds.minX + 2 * padding;
-    const viewBoxHeight = bounds.maxY - bounds.minY + 2 * padding;
-
-    return (
-      <svg 
-        width={dimensions.width} 
-        height={dimensions.height} 
-        className="border border-border rounded-lg bg-gradient-to-br from-background to-muted/20 shadow-xl"
-        viewBox={`${viewBoxX} ${viewBoxY} ${viewBoxWidth} ${viewBoxHeight}`}
-        preserveAspectRatio="xMidYMid meet"
-      >
-        {renderNode(tree)}
-      </svg>
-    );
+  const moveCursorBy = (move: CursorMove) => {
+    if (!frame.root) return;
+    const id = moveCursor(frame.root, cursorNode && cursorNode.id, move);
+    setCursorId(id);
+    // The statistics panel shows the metrics of the node under the cursor, as it does for a hovered one
+    setHoveredId(id);
+  };
+
+  // Key commands act on the typed key, else the key under the cursor; with neither, the key field takes over
+  const runOnKey = (operation: (input: string) => void, useCursor: boolean) => {
+    if (inputValue) operation(inputValue);
+    else if (useCursor && cursorNode) operation(keys.type.format(cursorNode.value));
+    else keyInputRef.current?.focus();
   };
 
+  const runShortcut = (action: ShortcutAction) => {
+    switch (action) {
+      case 'insert':
+        return runOnKey(handleInsert, false);
+      case 'search':
+        return runOnKey(handleSearch, true);
+      case 'delete':
+        return runOnKey(handleDelete, true);
+      case 'traverse':
+        return handleTraversal('inorder');
+      case 'playPause':
+        return player.togglePlay();
+      case 'stepBack':
+        return player.stepBack();
+      case 'stepForward':
+        return player.stepForward();
+      case 'cursorUp':
+        return moveCursorBy('up');
+      case 'cursorDown':
+        return moveCursorBy('down');
+      case 'cursorLeft':
+        return moveCursorBy('left');
+      case 'cursorRight':
+        return moveCursorBy('right');
+      case 'focusCursor':
+        return cursorNode && camera.focus(cursorNode.id);
+      case 'fit':
+        return camera.fit();
+      case 'edit':
+        return mode === 'bst' && setIsEditing(!isEditing);
+      case 'cheatSheet':
+        return setIsShowingShortcuts(true);
+    }
+  };
+
+  // Ctrl+K opens the command palette from anywhere; single-key shortcuts only apply outside text fields.
+  // Dialogs keep the keyboard to themselves while they are open
+  useEffect(() => {
+    if (!active || isPaletteOpen || isShowingShortcuts || isBulkLoading) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setIsPaletteOpen(true);
+        return;
+      }
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      const { target } = event;
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) {
+        return;
+      }
+      // A focused button keeps its own Enter and Space
+      if (target instanceof HTMLButtonElement && (event.key === 'Enter' || event.key === ' ')) return;
+      if (event.key === 'Escape') {
+        setCursorId(null);
+        setHoveredId(null);
+        return;
+      }
+      const action = actionForKey(shortcuts, event.key);
+      if (!action) return;
+      event.preventDefault();
+      runShortcut(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const shortcutOf = (action: ShortcutAction) => keyLabel(shortcuts[action]);
+
+  // Everything the palette offers, mirroring the buttons: whatever a button is disabled for, its command is too
+  const paletteCommands = (): Command[] => [
+    {
+      id: 'insert',
+      label: 'Insert key',
+      group: 'Keys',
+      takesKey: true,
+      shortcut: shortcutOf('insert'),
+      disabled: isAnimating,
+      run: input => handleInsert(input || inputValue),
+    },
+    {
+      id: 'search',
+      label: 'Search key',
+      group: 'Keys',
+      takesKey: true,
+      shortcut: shortcutOf('search'),
+      disabled: isAnimating || !tree,
+      run: input => handleSearch(input || inputValue),
+    },
+    {
+      id: 'delete',
+      label: 'Delete key',
+      group: 'Keys',
+      takesKey: true,
+      shortcut: shortcutOf('delete'),
+      disabled: isAnimating || !tree,
+      run: input => handleDelete(input || inputValue),
+    },
+    {
+      id: 'focus',
+      label: 'Focus on key',
+      group: 'Keys',
+      takesKey: true,
+      disabled: !tree,
+      run: input => handleFocus(input || inputValue),
+    },
+    { id: 'bulk-load', label: 'Bulk load…', group: 'Keys', disabled: isAnimating, run: () => setIsBulkLoading(true) },
+    ...(['inorder', 'preorder', 'postorder'] as const).map(
+      (type): Command => ({
+        id: `traverse-${type}`,
+        label: `${{ inorder: 'In-order', preorder: 'Pre-order', postorder: 'Post-order' }[type]} traversal`,
+        group: 'Traversal',
+        shortcut: type === 'inorder' ? shortcutOf('traverse') : undefined,
+        disabled: isAnimating || !tree,
+        run: () => handleTraversal(type),
+      })
+    ),
+    ...(Object.keys(WORK_LIST_TRAVERSALS) as WorkListTraversal[]).map(
+      (type): Command => ({
+        id: `traverse-${type}`,
+        label: `${WORK_LIST_TRAVERSALS[type].label} traversal`,
+        group: 'Traversal',
+        disabled: isAnimating || !tree,
+        run: () => handleWorkListTraversal(type),
+      })
+    ),
+    { id: 'play', label: 'Play / pause', group: 'Animation', shortcut: shortcutOf('playPause'), run: player.togglePlay },
+    { id: 'step-back', label: 'Step back', group: 'Animation', shortcut: shortcutOf('stepBack'), run: player.stepBack },
+    { id: 'step-forward', label: 'Step forward', group: 'Animation', shortcut: shortcutOf('stepForward'), run: player.stepForward },
+    ...(Object.keys(TREE_MODES) as TreeMode[]).map(
+      (option): Command => ({
+        id: `mode-${option}`,
+        label: `Switch to ${TREE_MODES[option].label}`,
+        group: 'Tree',
+        disabled: isAnimating || option === mode,
+        run: () => handleModeChange(option),
+      })
+    ),
+    ...(Object.keys(KEY_TYPES) as KeyTypeId[]).map(
+      (option): Command => ({
+        id: `keys-${option}`,
+        label: `Use ${KEY_TYPES[option].label.toLowerCase()} keys`,
+        group: 'Tree',
+        disabled: isAnimating || option === keyTypeId,
+        run: () => handleKeyTypeChange(option),
+      })
+    ),
+    {
+      id: 'edit',
+      label: editing ? 'Stop editing' : 'Edit on canvas',
+      group: 'Tree',
+      shortcut: shortcutOf('edit'),
+      disabled: mode !== 'bst',
+      run: () => setIsEditing(!isEditing),
+    },
+    { id: 'validate', label: 'Validate BST', group: 'Tree', disabled: isAnimating || !tree, run: handleValidate },
+    { id: 'undo', label: 'Undo', group: 'Tree', shortcut: 'Ctrl+Z', disabled: !history.canUndo, run: handleUndo },
+    { id: 'redo', label: 'Redo', group: 'Tree', shortcut: 'Ctrl+Shift+Z', disabled: !history.canRedo, run: handleRedo },
+    { id: 'clear-highlights', label: 'Clear highlights', group: 'Tree', disabled: isAnimating, run: clearHighlights },
+    { id: 'clear', label: 'Clear tree', group: 'Tree', disabled: isAnimating, run: clearTree },
+    ...(Object.keys(LAYOUT_ORIENTATIONS) as LayoutOrientation[]).map(
+      (orientation): Command => ({
+        id: `layout-${orientation}`,
+        label: `${LAYOUT_ORIENTATIONS[orientation]} layout`,
+        group: 'Layout',
+        disabled: layout.orientation === orientation,
+        run: () => setLayout({ ...layout, orientation }),
+      })
+    ),
+    {
+      id: 'compact',
+      label: layout.compact ? 'Normal spacing' : 'Compact spacing',
+      group: 'Layout',
+      run: () => setLayout({ ...layout, compact: !layout.compact }),
+    },
+    { id: 'fit', label: 'Fit tree to view', group: 'Layout', shortcut: shortcutOf('fit'), run: camera.fit },
+    ...(Object.keys(TREE_FORMATS) as TreeFormat[]).map(
+      (format): Command => ({
+        id: `export-${format}`,
+        label: `Export as ${TREE_FORMATS[format].label}`,
+        group: 'Export',
+        run: () => handleExport(format),
+      })
+    ),
+    { id: 'export-svg', label: 'Export SVG image', group: 'Export', disabled: isExporting || !frame.root, run: handleExportSvg },
+    { id: 'export-png', label: 'Export PNG image', group: 'Export', disabled: isExporting || !frame.root, run: handleExportPng },
+    {
+      id: 'export-frames',
+      label: 'Export animation frames',
+      group: 'Export',
+      disabled: isExporting || player.steps.length < 2,
+      run: handleExportFrames,
+    },
+    { id: 'copy-link', label: 'Copy link', group: 'Export', run: handleCopyLink },
+    {
+      id: 'shortcuts',
+      label: 'Keyboard shortcuts',
+      group: 'Help',
+      shortcut: shortcutOf('cheatSheet'),
+      run: () => setIsShowingShortcuts(true),
+    },
+  ];
+
+  const closePalette = useCallback(() => setIsPaletteOpen(false), []);
+  const closeShortcuts = useCallback(() => setIsShowingShortcuts(false), []);
+
   return (
-    <div className="h-screen w-screen flex flex-col bg-background">
+    <div ref={viewRef} className="h-full w-full flex flex-col bg-background">
+      {isBulkLoading && (
+        <BulkLoadDialog
+          keyType={keys.type}
+          maxAnimated={MAX_ANIMATED_BULK}
+          onLoad={handleBulkLoad}
+          onClose={closeBulkLoad}
+        />
+      )}
+      {isPaletteOpen && <CommandPalette commands={paletteCommands()} onClose={closePalette} />}
+      {isShowingShortcuts && (
+        <ShortcutSheet bindings={shortcuts} onChange={setShortcuts} onClose={closeShortcuts} />
+      )}
       {/* Header */}
-      <div className="bg-card shadow-lg border-b border-border px-6 py-4">
+      <div className="relative bg-card shadow-lg border-b border-border px-6 py-4">
         <h1 className="text-2xl font-bold text-center text-foreground">
           🌳 Binary Search Tree Visualization
         </h1>
+        <div className="absolute right-6 top-1/2 -translate-y-1/2 flex gap-2">
+          <Button onClick={() => setIsPaletteOpen(true)} variant="outline" size="sm" title="Run any operation by name">
+            Commands <kbd className="font-mono text-xs text-muted-foreground">Ctrl+K</kbd>
+          </Button>
+          <Button
+            onClick={() => setIsShowingShortcuts(true)}
+            variant="ghost"
+            size="icon"
+            title={`Keyboard shortcuts (${keyLabel(shortcuts.cheatSheet)})`}
+          >
+            <Keyboard />
+          </Button>
+        </div>
       </div>
       
       {/* Input Section - TOP OF SCREEN */}
@@ -581,22 +951,23 @@ export const TreeVisualization: React.FC<TreeVisualizationProps> = () => {
         <div className="max-w-4xl mx-auto">
           <div className="bg-card rounded-lg p-6 shadow-xl border border-border">
             <h2 className="text-2xl font-bold text-center text-foreground mb-4">
-              ➕ ADD NUMBERS TO TREE ➕
+              ➕ ADD KEYS TO TREE ➕
             </h2>
             <div className="flex gap-4 items-end justify-center">
               <div className="flex-1 max-w-xs">
                 <label className="block text-lg font-semibold text-foreground mb-2">
-                  Enter a number:
+                  Enter a {keys.type.label.toLowerCase()}:
                 </label>
                 <input
-                  type="number"
-                  placeholder="Type here (e.g., 42)"
+                  type={keys.type.inputType}
+                  placeholder={keys.type.placeholder}
                   value={inputValue}
                   onChange={(e) => setInputValue(e.target.value)}
-                  onKeyPress={(e) => {
-                    if (e.key === 'Enter') {
-                      handleInsert();
-                    }
+                  ref={keyInputRef}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleInsert();
+                    // Leaving the field hands the keyboard back to the shortcuts
+                    if (e.key === 'Escape') e.currentTarget.blur();
                   }}
                   disabled={isAnimating}
                   className="w-full text-2xl py-4 px-4 border-2 border-input focus:border-ring focus:ring-2 focus:ring-ring/20 rounded-lg focus:outline-none disabled:opacity-50 bg-background text-center font-bold shadow-lg text-foreground"
@@ -604,7 +975,7 @@ export const TreeVisualization: React.FC<TreeVisualizationProps> = () => {
                 />
               </div>
               <Button
-                onClick={handleInsert}
+                onClick={() => handleInsert()}
                 disabled={isAnimating || !inputValue}
                 variant="default"
                 className="px-8 py-4 text-xl font-bold h-[70px]"
@@ -612,34 +983,47 @@ export const TreeVisualization: React.FC<TreeVisualizationProps> = () => {
                 INSERT
               </Button>
               <Button
-                onClick={handleSearch}
+                onClick={() => handleSearch()}
                 disabled={isAnimating || !inputValue || !tree}
                 variant="secondary"
                 className="px-8 py-4 text-xl font-bold h-[70px]"
               >
                 SEARCH
               </Button>
+              <Button
+                onClick={() => handleDelete()}
+                disabled={isAnimating || !inputValue || !tree}
+                variant="destructive"
+                className="px-8 py-4 text-xl font-bold h-[70px]"
+              >
+                DELETE
+              </Button>
             </div>
             {isAnimating && (
               <div className="text-center mt-4 text-lg text-primary font-bold animate-pulse">
-                🤖 Processing algorithm...
+                🤖 Playing algorithm... (pause to step through it)
               </div>
             )}
-            <div className="flex gap-2 justify-center mt-4">
-              <span className="text-sm text-muted-foreground">Quick add:</span>
-              {[10, 25, 75, 90].map(num => (
-                <button
-                  key={num}
-                  onClick={() => {
-                    setInputValue(num.toString());
-                    setTimeout(() => handleInsert(), 100);
-                  }}
-                  disabled={isAnimating}
-                  className="px-3 py-1 bg-muted hover:bg-muted/80 rounded text-sm disabled:opacity-50 text-muted-foreground hover:text-foreground transition-colors"
-                >
-                  {num}
-                </button>
-              ))}
+            <div className="flex gap-2 justify-center items-center mt-4">
+              {/* Quick add only offers numbers */}
+              {keyTypeId === 'number' && (
+                <>
+                  <span className="text-sm text-muted-foreground">Quick add:</span>
+                  {[10, 25, 75, 90].map(num => (
+                    <button
+                      key={num}
+                      onClick={() => handleInsert(num.toString())}
+                      disabled={isAnimating}
+                      className="px-3 py-1 bg-muted hover:bg-muted/80 rounded text-sm disabled:opacity-50 text-muted-foreground hover:text-foreground transition-colors"
+                    >
+                      {num}
+                    </button>
+                  ))}
+                </>
+              )}
+              <Button onClick={() => setIsBulkLoading(true)} disabled={isAnimating} variant="outline" size="sm">
+                📥 Bulk load…
+              </Button>
             </div>
           </div>
         </div>
@@ -648,13 +1032,85 @@ export const TreeVisualization: React.FC<TreeVisualizationProps> = () => {
       {/* Main content */}
       <div className="flex-1 flex">
         {/* Tree visualization area */}
-        <div className="flex-1 p-4 flex items-center justify-center">
-          {renderTree()}
+        <div className="flex-1 p-4 flex flex-col items-center justify-center gap-3">
+          <div className="relative">
+            <TreeCanvas
+              frame={frame}
+              width={dimensions.width}
+              height={dimensions.height}
+              mode={mode}
+              formatKey={keys.type.format}
+              layout={layout}
+              camera={camera}
+              onNodeHover={setHoveredId}
+              editor={editing ? editor : undefined}
+              cursorId={cursorNode?.id}
+            />
+            {frame.workList && (
+              <div className="absolute top-3 right-3">
+                <WorkListPanel workList={frame.workList} />
+              </div>
+            )}
+          </div>
+          <div style={{ width: dimensions.width }}>
+            <StepPlayerControls player={player} />
+          </div>
         </div>
         
         {/* Control panel */}
         <div className="w-80 bg-card shadow-xl border-l border-border flex flex-col">
           
+          {/* Mode Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">🧬 Tree Mode</h3>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(TREE_MODES) as TreeMode[]).map(option => (
+                <Button
+                  key={option}
+                  onClick={() => handleModeChange(option)}
+                  disabled={isAnimating}
+                  variant={mode === option ? 'default' : 'outline'}
+                  size="sm"
+                >
+                  {TREE_MODES[option].label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">{TREE_MODES[mode].description}</p>
+          </div>
+
+          {/* Keys Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">🔑 Keys</h3>
+            <div className="grid grid-cols-4 gap-2">
+              {(Object.keys(KEY_TYPES) as KeyTypeId[]).map(option => (
+                <Button
+                  key={option}
+                  onClick={() => handleKeyTypeChange(option)}
+                  disabled={isAnimating}
+                  variant={keyTypeId === option ? 'default' : 'outline'}
+                  size="sm"
+                >
+                  {KEY_TYPES[option].label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-3 mb-2">Duplicate keys:</p>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(DUPLICATE_POLICIES) as DuplicatePolicy[]).map(option => (
+                <Button
+                  key={option}
+                  onClick={() => handleDuplicatesChange(option)}
+                  disabled={isAnimating}
+                  variant={duplicates === option ? 'default' : 'outline'}
+                  size="sm"
+                >
+                  {DUPLICATE_POLICIES[option]}
+                </Button>
+              ))}
+            </div>
+          </div>
+
           {/* Traversal Section */}
           <div className="p-4 border-b border-border">
             <h3 className="text-lg font-semibold text-foreground mb-3">🌲 Tree Traversal</h3>
@@ -684,12 +1140,176 @@ export const TreeVisualization: React.FC<TreeVisualizationProps> = () => {
                 Post-order (L → R → Root)
               </Button>
             </div>
+            <p className="text-xs text-muted-foreground mt-3 mb-2">With an explicit stack or queue:</p>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(WORK_LIST_TRAVERSALS) as WorkListTraversal[]).map(type => (
+                <Button
+                  key={type}
+                  onClick={() => handleWorkListTraversal(type)}
+                  disabled={isAnimating || !tree}
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                >
+                  {WORK_LIST_TRAVERSALS[type].label}
+                </Button>
+              ))}
+            </div>
           </div>
           
+          {/* Edit Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">✏️ Edit Tree</h3>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => setIsEditing(!isEditing)}
+                disabled={mode !== 'bst'}
+                variant={editing ? 'default' : 'outline'}
+                className="flex-1"
+              >
+                {isEditing && mode === 'bst' ? 'Stop Editing' : 'Edit on Canvas'}
+              </Button>
+              <Button onClick={handleValidate} disabled={isAnimating || !tree} variant="outline" className="flex-1">
+                Validate BST
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              {mode !== 'bst'
+                ? 'Only a plain BST can be edited by hand; the other modes keep their own balance.'
+                : editing
+                ? tree
+                  ? 'Click + to add a child, click a node to change its key, drag a node onto + to move its subtree.'
+                  : 'Insert a key to start the tree, then add children on the canvas.'
+                : 'Draw any binary tree by hand, sorted or not, and check whether it is a BST.'}
+            </p>
+            {tree && !isOrdered && (
+              <p className="text-xs text-amber-500 mt-2">
+                ⚠️ The keys are out of search-tree order, so searches, inserts and deletes may miss keys.
+              </p>
+            )}
+          </div>
+
+          {/* Order Queries Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">🧭 Order Queries</h3>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(ORDER_QUERIES) as OrderQueryKind[]).map(option => (
+                <Button
+                  key={option}
+                  onClick={() => setQuery(option)}
+                  variant={query === option ? 'default' : 'outline'}
+                  size="sm"
+                  className="text-xs"
+                  title={ORDER_QUERIES[option].description}
+                >
+                  {option === 'lca' ? 'LCA' : ORDER_QUERIES[option].label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">{ORDER_QUERIES[query].description}</p>
+            {ORDER_QUERIES[query].operands !== 'none' && (
+              <div className="flex gap-2 mt-2">
+                <input
+                  type={ORDER_QUERIES[query].operands === 'rank' ? 'number' : keys.type.inputType}
+                  placeholder={
+                    ORDER_QUERIES[query].operands === 'rank'
+                      ? 'k (1 = smallest)'
+                      : ORDER_QUERIES[query].operands === 'range'
+                      ? 'From'
+                      : ORDER_QUERIES[query].operands === 'pair'
+                      ? 'First key'
+                      : 'Key'
+                  }
+                  value={queryFirst}
+                  onChange={(e) => setQueryFirst(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleQuery();
+                  }}
+                  className="flex-1 min-w-0 px-2 py-1 border border-input focus:border-ring focus:ring-2 focus:ring-ring/20 rounded-md focus:outline-none bg-background text-sm text-foreground"
+                />
+                {(ORDER_QUERIES[query].operands === 'range' || ORDER_QUERIES[query].operands === 'pair') && (
+                  <input
+                    type={keys.type.inputType}
+                    placeholder={ORDER_QUERIES[query].operands === 'range' ? 'To' : 'Second key'}
+                    value={querySecond}
+                    onChange={(e) => setQuerySecond(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleQuery();
+                    }}
+                    className="flex-1 min-w-0 px-2 py-1 border border-input focus:border-ring focus:ring-2 focus:ring-ring/20 rounded-md focus:outline-none bg-background text-sm text-foreground"
+                  />
+                )}
+              </div>
+            )}
+            <Button onClick={handleQuery} disabled={isAnimating || !tree} variant="outline" className="w-full mt-2">
+              Run {ORDER_QUERIES[query].label}
+            </Button>
+          </div>
+
+          {/* Deletion Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">🗑️ Two-Child Deletion</h3>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => setDeletionStrategy('successor')}
+                disabled={isAnimating}
+                variant={deletionStrategy === 'successor' ? 'default' : 'outline'}
+                className="flex-1"
+              >
+                Successor
+              </Button>
+              <Button
+                onClick={() => setDeletionStrategy('predecessor')}
+                disabled={isAnimating}
+                variant={deletionStrategy === 'predecessor' ? 'default' : 'outline'}
+                className="flex-1"
+              >
+                Predecessor
+              </Button>
+            </div>
+          </div>
+
+          {/* Layout Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">📐 Layout</h3>
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                {(Object.keys(LAYOUT_ORIENTATIONS) as LayoutOrientation[]).map(orientation => (
+                  <Button
+                    key={orientation}
+                    onClick={() => setLayout({ ...layout, orientation })}
+                    variant={layout.orientation === orientation ? 'default' : 'outline'}
+                    size="sm"
+                    className="flex-1"
+                  >
+                    {LAYOUT_ORIENTATIONS[orientation]}
+                  </Button>
+                ))}
+              </div>
+              <Button
+                onClick={() => setLayout({ ...layout, compact: !layout.compact })}
+                variant={layout.compact ? 'default' : 'outline'}
+                size="sm"
+                className="w-full"
+              >
+                Compact spacing
+              </Button>
+            </div>
+          </div>
+
           {/* Utility Section */}
           <div className="p-4 border-b border-border">
             <h3 className="text-lg font-semibold text-foreground mb-3">🛠️ Utilities</h3>
             <div className="space-y-2">
+              <Button
+                onClick={() => handleFocus()}
+                disabled={!tree || !inputValue}
+                variant="outline"
+                title="Centre the camera on the typed key; double-clicking a node does the same"
+                className="w-full"
+              >
+                Focus on Node
+              </Button>
               <Button
                 onClick={clearHighlights}
                 disabled={isAnimating}
@@ -709,6 +1329,189 @@ export const TreeVisualization: React.FC<TreeVisualizationProps> = () => {
             </div>
           </div>
 
+          {/* Workspaces Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">🗂️ Workspaces</h3>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder="Workspace name"
+                value={workspaceName}
+                onChange={(e) => setWorkspaceName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSaveWorkspace();
+                }}
+                className="flex-1 min-w-0 px-2 py-1 border border-input focus:border-ring focus:ring-2 focus:ring-ring/20 rounded-md focus:outline-none bg-background text-sm text-foreground"
+              />
+              <Button onClick={handleSaveWorkspace} disabled={!workspaceName.trim() || !history.current} size="sm">
+                Save
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Saves the tree, its settings, its history and the algorithm log. The last session is restored on startup.
+            </p>
+            {workspaces.length > 0 && (
+              <ul className="mt-2 max-h-40 overflow-y-auto space-y-1">
+                {workspaces.map(workspace => (
+                  <li key={workspace.name} className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleLoadWorkspace(workspace)}
+                      disabled={isAnimating}
+                      title={`Saved ${new Date(workspace.savedAt).toLocaleString()}`}
+                      className="flex-1 min-w-0 text-left px-2 py-1 rounded hover:bg-muted transition-colors disabled:opacity-50"
+                    >
+                      <span className="block truncate text-sm text-foreground">{workspace.name}</span>
+                      <span className="block truncate text-xs text-muted-foreground">{workspace.summary}</span>
+                    </button>
+                    <Button
+                      onClick={() => handleDeleteWorkspace(workspace.name)}
+                      variant="ghost"
+                      size="icon"
+                      title={`Delete workspace "${workspace.name}"`}
+                    >
+                      <Trash2 />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* History Section */}
+          <div className="p-4 border-b border-border">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-lg font-semibold text-foreground">🕘 History</h3>
+              <div className="flex gap-1">
+                <Button onClick={handleUndo} disabled={!history.canUndo} variant="ghost" size="icon" title="Undo (Ctrl+Z)">
+                  <Undo2 />
+                </Button>
+                <Button
+                  onClick={handleRedo}
+                  disabled={!history.canRedo}
+                  variant="ghost"
+                  size="icon"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 />
+                </Button>
+              </div>
+            </div>
+            <ol className="max-h-48 overflow-y-auto space-y-1 text-sm">
+              {history.entries.map((entry, index) => (
+                <li key={index}>
+                  <button
+                    onClick={() => restore(history.jumpTo(index))}
+                    className={`w-full text-left px-2 py-1 rounded transition-colors ${
+                      index === history.index
+                        ? 'bg-primary text-primary-foreground font-semibold'
+                        : index > history.index
+                        ? 'text-muted-foreground/60 hover:bg-muted'
+                        : 'text-muted-foreground hover:bg-muted hover:text-foreground'
+                    }`}
+                  >
+                    <span className="font-mono text-xs mr-2">{index + 1}.</span>
+                    {entry.label}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          {/* Import / Export Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">💾 Import / Export</h3>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(TREE_FORMATS) as TreeFormat[]).map(format => (
+                <Button
+                  key={format}
+                  onClick={() => {
+                    setTransferFormat(format);
+                    setTransferError(null);
+                  }}
+                  variant={transferFormat === format ? 'default' : 'outline'}
+                  size="sm"
+                  className="text-xs"
+                >
+                  {TREE_FORMATS[format].label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-2 mb-2">{TREE_FORMATS[transferFormat].description}</p>
+            <textarea
+              value={transferText}
+              onChange={(e) => {
+                setTransferText(e.target.value);
+                setTransferError(null);
+              }}
+              placeholder={TREE_FORMATS[transferFormat].placeholder}
+              rows={5}
+              spellCheck={false}
+              className="w-full p-2 border border-input focus:border-ring focus:ring-2 focus:ring-ring/20 rounded-lg focus:outline-none bg-background font-mono text-xs text-foreground resize-y"
+            />
+            {transferError && (
+              <div className="mt-2 text-xs text-destructive">
+                <p>
+                  Line {transferError.line}, column {transferError.column}: {transferError.message}
+                </p>
+                <pre className="mt-1 p-2 bg-muted rounded overflow-x-auto">
+                  {transferError.excerpt}
+                  {'\n'}
+                  {transferError.caret}
+                </pre>
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-2 mt-2">
+              <Button onClick={() => handleExport()} variant="outline" size="sm">
+                Export
+              </Button>
+              <Button onClick={handleImport} disabled={isAnimating || !transferText.trim()} variant="outline" size="sm">
+                Import
+              </Button>
+              <Button onClick={handleCopyLink} variant="outline" size="sm" title="Copy a link that opens this tree">
+                Copy Link
+              </Button>
+            </div>
+          </div>
+
+          {/* Image Export Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">🖼️ Export Image</h3>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground">PNG scale:</span>
+              {IMAGE_SCALES.map(scale => (
+                <Button
+                  key={scale}
+                  onClick={() => setImageScale(scale)}
+                  variant={imageScale === scale ? 'default' : 'outline'}
+                  size="sm"
+                  className="flex-1"
+                >
+                  {scale}×
+                </Button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              <Button onClick={handleExportSvg} disabled={isExporting || !frame.root} variant="outline" size="sm">
+                SVG
+              </Button>
+              <Button onClick={handleExportPng} disabled={isExporting || !frame.root} variant="outline" size="sm">
+                PNG
+              </Button>
+            </div>
+            <Button
+              onClick={handleExportFrames}
+              disabled={isExporting || player.steps.length < 2}
+              variant="outline"
+              size="sm"
+              title="A ZIP of numbered PNGs, one per step of the loaded animation"
+              className="w-full mt-2"
+            >
+              {isExporting ? 'Exporting…' : 'Animation Frames (ZIP)'}
+            </Button>
+          </div>
+
+          <TreeStatsPanel root={frame.root} hoveredId={hoveredId} formatKey={keys.type.format} />
+
           {/* Legend */}
           <div className="p-4 border-b border-border">
             <h3 className="text-lg font-semibold text-foreground mb-3">🎨 Legend</h3>
@@ -729,26 +1532,23 @@ export const TreeVisualization: React.FC<TreeVisualizationProps> = () => {
                 <div className="w-3 h-3 bg-green-500 rounded-full"></div>
                 <span className="text-muted-foreground">Found</span>
               </div>
-            </div>
-          </div>
-
-          {/* Algorithm Log */}
-          <div className="flex-1 p-4">
-            <h3 className="text-lg font-semibold text-foreground mb-3">📋 Algorithm Log</h3>
-            <div className="space-y-1 max-h-52 overflow-y-auto bg-muted/50 p-3 rounded border border-border text-xs">
-              {animationLog.length === 0 ? (
-                <p className="text-muted-foreground">
-                  Use the input field at the top to see algorithm steps...
-                </p>
-              ) : (
-                animationLog.map((log, index) => (
-                  <p key={index} className="font-mono text-foreground">
-                    {log}
-                  </p>
-                ))
+              {mode === 'redblack' && (
+                <>
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 bg-red-600 rounded-full"></div>
+                    <span className="text-muted-foreground">Red node (states shown as outline)</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 bg-zinc-900 border border-border rounded-full"></div>
+                    <span className="text-muted-foreground">Black node</span>
+                  </div>
+                </>
               )}
             </div>
           </div>
+
+          <CodePanel player={player} />
+          <AlgorithmLog player={player} />
         </div>
       </div>
     </div>
@@ -0,0 +1,153 @@
+import React from 'react';
+import { TrieNode } from '../types/TrieNode';
+import type { TrieFrame } from '../lib/trieAlgorithms';
+import { tidyLayout } from '../lib/tidyLayout';
+
+interface TrieCanvasProps {
+  frame: TrieFrame;
+  width: number;
+  height: number;
+}
+
+const NODE_RADIUS = 18;
+// Room between neighbouring circles for the word printed under terminal nodes
+const SIBLING_GAP = 24;
+const LEVEL_HEIGHT = 80;
+
+/** Lays the trie out tidily and returns the prefix each node spells, keyed by node id. */
+const layoutTrie = (root: TrieNode): Map<number, string> => {
+  const positions = tidyLayout(root, {
+    children: node => node.sortedChildren(),
+    breadth: () => NODE_RADIUS * 2,
+    siblingGap: SIBLING_GAP,
+    levelGap: LEVEL_HEIGHT,
+  });
+  for (const [node, { x, y }] of positions) {
+    node.x = x;
+    node.y = y;
+  }
+
+  const spelled = new Map<number, string>();
+  const spell = (node: TrieNode, prefix: string): void => {
+    spelled.set(node.id, prefix);
+    for (const child of node.sortedChildren()) {
+      spell(child, prefix + child.char);
+    }
+  };
+  spell(root, '');
+  return spelled;
+};
+
+export const TrieCanvas: React.FC<TrieCanvasProps> = ({ frame, width, height }) => {
+  const { root, highlighted, visited, found } = frame;
+  if (!root) return null;
+
+  const spelled = layoutTrie(root);
+  const nodes = root.getAllNodes();
+
+  const renderEdges = (node: TrieNode): React.ReactElement[] =>
+    node.sortedChildren().map(child => {
+      const active = highlighted.has(node.id) || visited.has(child.id) || highlighted.has(child.id);
+      const midX = (node.x + child.x) / 2;
+      const midY = (node.y + child.y) / 2;
+      return (
+        <g key={`edge-${child.id}`}>
+          <line
+            x1={node.x}
+            y1={node.y}
+            x2={child.x}
+            y2={child.y}
+            stroke={active ? '#8b5cf6' : 'hsl(var(--muted-foreground))'}
+            strokeWidth={active ? '3.5' : '2.5'}
+            strokeLinecap="round"
+            className="transition-all duration-300"
+          />
+          {/* Edge character */}
+          <rect x={midX - 10} y={midY - 10} width="20" height="20" rx="5" fill="hsl(var(--card))" stroke="hsl(var(--border))" />
+          <text
+            x={midX}
+            y={midY}
+            textAnchor="middle"
+            dy="0.35em"
+            fontSize="14"
+            fontWeight="bold"
+            fill="hsl(var(--foreground))"
+          >
+            {child.char}
+          </text>
+        </g>
+      );
+    });
+
+  const renderNode = (node: TrieNode): React.ReactElement => {
+    const fill = found.has(node.id)
+      ? '#10b981' // green for search result
+      : highlighted.has(node.id)
+      ? '#f59e0b' // amber for highlighted (currently reading)
+      : visited.has(node.id)
+      ? '#8b5cf6' // purple for visited (part of path)
+      : '#3b82f6'; // blue for default
+
+    return (
+      <g key={`node-${node.id}`}>
+        {/* Terminal nodes get a second ring */}
+        {node.isTerminal && (
+          <circle cx={node.x} cy={node.y} r={NODE_RADIUS + 5} fill="none" stroke={fill} strokeWidth="2.5" />
+        )}
+        <circle
+          cx={node.x}
+          cy={node.y}
+          r={NODE_RADIUS}
+          fill={fill}
+          stroke="hsl(var(--background))"
+          strokeWidth="3"
+          className="transition-all duration-300"
+          style={{
+            filter: highlighted.has(node.id)
+              ? 'drop-shadow(0 0 16px rgba(245, 158, 11, 0.8))'
+              : 'drop-shadow(0 2px 4px rgba(0, 0, 0, 0.2))'
+          }}
+        />
+        {node === root && (
+          <text x={node.x} y={node.y} textAnchor="middle" dy="0.35em" fill="white" fontSize="11" fontWeight="bold">
+            root
+          </text>
+        )}
+        {node.isTerminal && (
+          <text
+            x={node.x}
+            y={node.y + NODE_RADIUS + 18}
+            textAnchor="middle"
+            fontSize="12"
+            fontWeight="bold"
+            fill="hsl(var(--foreground))"
+          >
+            {spelled.get(node.id)}
+          </text>
+        )}
+      </g>
+    );
+  };
+
+  const minX = Math.min(...nodes.map(node => node.x));
+  const maxX = Math.max(...nodes.map(node => node.x));
+  const maxY = Math.max(...nodes.map(node => node.y));
+  const padding = 60;
+  const viewBoxX = minX - padding;
+  const viewBoxY = -NODE_RADIUS - padding;
+  const viewBoxWidth = maxX - minX + 2 * padding;
+  const viewBoxHeight = maxY + 2 * NODE_RADIUS + 2 * padding;
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      className="border border-border rounded-lg bg-gradient-to-br from-background to-muted/20 shadow-xl"
+      viewBox={`${viewBoxX} ${viewBoxY} ${viewBoxWidth} ${viewBoxHeight}`}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {nodes.map(renderEdges)}
+      {nodes.map(renderNode)}
+    </svg>
+  );
+};
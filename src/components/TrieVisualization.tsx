@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { TrieNode } from '../types/TrieNode';
+import { Button } from './ui/button';
+import { TrieCanvas } from './TrieCanvas';
+import { StepPlayerControls } from './StepPlayerControls';
+import { AlgorithmLog } from './AlgorithmLog';
+import { useStepPlayer } from '../hooks/useStepPlayer';
+import { useCanvasDimensions } from '../hooks/useCanvasDimensions';
+import { staticFrame } from '../lib/treeRecorder';
+import {
+  buildTrie,
+  normalizeWord,
+  recordAutocomplete,
+  recordTrieDeletion,
+  recordTrieInsertion,
+  recordTrieSearch,
+  type TrieFrame,
+} from '../lib/trieAlgorithms';
+
+const SAMPLE_WORDS = ['tree', 'trie', 'try', 'tea', 'ten', 'to', 'in', 'inn'];
+
+export const TrieVisualization: React.FC = () => {
+  const [tree, setTree] = useState<TrieNode>(() => buildTrie(SAMPLE_WORDS));
+  const [inputValue, setInputValue] = useState<string>('');
+  const [completions, setCompletions] = useState<string[] | null>(null);
+  const player = useStepPlayer<TrieFrame>();
+  const isAnimating = player.isPlaying;
+  const dimensions = useCanvasDimensions(300);
+
+  // Returns the normalized input, or null after telling the user why it was rejected
+  const readWord = (): string | null => {
+    const word = normalizeWord(inputValue);
+    if (word === null) {
+      toast.error('Words may only contain the letters a–z');
+    }
+    return word;
+  };
+
+  const handleInsert = () => {
+    if (isAnimating) return;
+    const word = readWord();
+    if (!word) return;
+
+    const { steps, result } = recordTrieInsertion(tree, word);
+    setTree(result);
+    player.load(steps);
+    setInputValue('');
+  };
+
+  const handleSearch = () => {
+    if (isAnimating) return;
+    const word = readWord();
+    if (!word) return;
+
+    player.load(recordTrieSearch(tree, word).steps);
+    setInputValue('');
+  };
+
+  const handleAutocomplete = () => {
+    if (isAnimating) return;
+    const prefix = normalizeWord(inputValue) ?? '';
+    if (inputValue.trim() !== '' && prefix === '') {
+      toast.error('Prefixes may only contain the letters a–z');
+      return;
+    }
+
+    const { steps, result } = recordAutocomplete(tree, prefix);
+    setCompletions(result);
+    player.load(steps);
+  };
+
+  const handleDelete = () => {
+    if (isAnimating) return;
+    const word = readWord();
+    if (!word) return;
+
+    const { steps, result } = recordTrieDeletion(tree, word);
+    setTree(result);
+    player.load(steps);
+    setInputValue('');
+  };
+
+  const clearTree = () => {
+    setTree(new TrieNode());
+    setCompletions(null);
+    player.clear();
+  };
+
+  // While a recording is loaded the canvas shows its current step, otherwise the live trie
+  const frame = player.currentStep?.frame ?? staticFrame(tree);
+
+  return (
+    <div className="h-full w-full flex flex-col bg-background">
+      {/* Header */}
+      <div className="bg-card shadow-lg border-b border-border px-6 py-4">
+        <h1 className="text-2xl font-bold text-center text-foreground">
+          🔤 Trie Visualization
+        </h1>
+      </div>
+
+      {/* Input Section */}
+      <div className="bg-gradient-to-r from-muted/20 to-accent/20 p-4 border-b border-border">
+        <div className="flex gap-4 items-center justify-center">
+          <input
+            type="text"
+            placeholder="Word (e.g., tree)"
+            value={inputValue}
+            onChange={(e) => setInputValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                handleInsert();
+              }
+            }}
+            disabled={isAnimating}
+            className="w-48 text-xl py-2 px-4 border-2 border-input focus:border-ring rounded-lg focus:outline-none disabled:opacity-50 bg-background text-center font-bold text-foreground"
+          />
+          <Button onClick={handleInsert} disabled={isAnimating || !inputValue} className="font-bold">
+            INSERT
+          </Button>
+          <Button onClick={handleSearch} disabled={isAnimating || !inputValue} variant="secondary" className="font-bold">
+            SEARCH
+          </Button>
+          <Button onClick={handleAutocomplete} disabled={isAnimating} variant="secondary" className="font-bold">
+            AUTOCOMPLETE
+          </Button>
+          <Button onClick={handleDelete} disabled={isAnimating || !inputValue} variant="destructive" className="font-bold">
+            DELETE
+          </Button>
+        </div>
+      </div>
+
+      {/* Main content */}
+      <div className="flex-1 flex">
+        {/* Trie visualization area */}
+        <div className="flex-1 p-4 flex flex-col items-center justify-center gap-3">
+          <TrieCanvas frame={frame} width={dimensions.width} height={dimensions.height} />
+          <div style={{ width: dimensions.width }}>
+            <StepPlayerControls player={player} />
+          </div>
+        </div>
+
+        {/* Control panel */}
+        <div className="w-80 bg-card shadow-xl border-l border-border flex flex-col">
+          {/* Completions Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">💬 Completions</h3>
+            {completions === null ? (
+              <p className="text-xs text-muted-foreground">
+                Type a prefix and press AUTOCOMPLETE; an empty prefix lists every word.
+              </p>
+            ) : completions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No matching words</p>
+            ) : (
+              <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+                {completions.map(word => (
+                  <span key={word} className="px-2 py-0.5 rounded bg-muted text-sm font-mono text-foreground">
+                    {word}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Utility Section */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">🛠️ Utilities</h3>
+            <div className="space-y-2">
+              <Button onClick={player.clear} disabled={isAnimating} variant="outline" className="w-full">
+                Clear Highlights
+              </Button>
+              <Button onClick={clearTree} disabled={isAnimating} variant="destructive" className="w-full">
+                Clear Trie
+              </Button>
+            </div>
+          </div>
+
+          {/* Legend */}
+          <div className="p-4 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground mb-3">🎨 Legend</h3>
+            <div className="space-y-2 text-sm">
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-primary rounded-full ring-2 ring-offset-1 ring-offset-card ring-primary"></div>
+                <span className="text-muted-foreground">End of a word (double ring)</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-yellow-500 rounded-full"></div>
+                <span className="text-muted-foreground">Reading</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-purple-500 rounded-full"></div>
+                <span className="text-muted-foreground">Visited</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-green-500 rounded-full"></div>
+                <span className="text-muted-foreground">Found</span>
+              </div>
+            </div>
+          </div>
+
+          <AlgorithmLog player={player} />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import type { WorkListSnapshot } from '../lib/traversalAlgorithms';
+
+interface WorkListPanelProps {
+  workList: WorkListSnapshot;
+}
+
+const TITLES = {
+  stack: '📚 Stack (top first)',
+  queue: '🚶 Queue (front first)',
+  deque: '↔️ Deque (front first)',
+};
+
+/** The pending nodes of an iterative traversal at the current step. */
+export const WorkListPanel: React.FC<WorkListPanelProps> = ({ workList }) => {
+  // Stacks read best with the top, the next node to come out, at the head of the list
+  const items = workList.kind === 'stack' ? [...workList.items].reverse() : workList.items;
+
+  return (
+    <div className="bg-card/90 border border-border rounded-lg p-3 text-xs shadow-lg min-w-40">
+      <p className="font-semibold text-foreground mb-2">{TITLES[workList.kind]}</p>
+      {items.length === 0 ? (
+        <p className="text-muted-foreground italic">empty</p>
+      ) : (
+        <div className={workList.kind === 'stack' ? 'flex flex-col gap-1' : 'flex flex-wrap gap-1'}>
+          {items.map((item, index) => (
+            <span
+              key={item.id}
+              className={`px-2 py-1 rounded font-mono font-bold text-center ${
+                index === 0 ? 'bg-yellow-500 text-white' : 'bg-muted text-foreground'
+              }`}
+            >
+              {item.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,475 @@
+import React from 'react';
+import { TreeNode } from '../types/TreeNode';
+import type { TreeFrame } from '../lib/treeRecorder';
+import type { TreeMode } from '../lib/treeModes';
+import { formatBalance } from '../lib/avlAlgorithms';
+import { checkRedBlackInvariants } from '../lib/redBlackAlgorithms';
+import { tidyLayout, type LayoutOrientation, type LayoutSettings } from '../lib/tidyLayout';
+import type { Bounds } from '../lib/camera';
+import { standaloneSvg, type StillImage, type TreePalette } from '../lib/imageExport';
+
+export const NODE_DIAMETER = 60;
+
+const positionNodes = <K,>(root: TreeNode<K>, { orientation, compact }: LayoutSettings): void => {
+  const topDown = orientation === 'top-down';
+  const positions = tidyLayout(root, {
+    children: node => [node.left, node.right],
+    breadth: () => NODE_DIAMETER,
+    siblingGap: compact ? 10 : 40,
+    // Levels sit further apart left-to-right, where wide key labels run along the level axis
+    levelGap: (compact ? 75 : 100) + (topDown ? 0 : 20),
+    orientation,
+  });
+  for (const [node, { x, y }] of positions) {
+    node.x = x;
+    node.y = y;
+  }
+};
+
+export interface Scene<K> {
+  // Pre-order, so edges can be drawn before the nodes they connect
+  nodes: TreeNode<K>[];
+  bounds: Bounds;
+  // Subtree heights by node id, derived from the displayed structure so mid-rotation frames show the real imbalance
+  heights: Map<number, number>;
+}
+
+/** Lays the tree out and gathers everything a render needs, without recursion so deep trees are safe. */
+export const buildScene = <K,>(root: TreeNode<K>, layout: LayoutSettings): Scene<K> => {
+  positionNodes(root, layout);
+  const nodes = root.getAllNodes();
+
+  // Node radius (30) plus a small buffer
+  const bounds = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity };
+  for (const node of nodes) {
+    bounds.minX = Math.min(bounds.minX, node.x - 35);
+    bounds.maxX = Math.max(bounds.maxX, node.x + 35);
+    bounds.minY = Math.min(bounds.minY, node.y - 35);
+    bounds.maxY = Math.max(bounds.maxY, node.y + 35);
+  }
+
+  const heights = new Map<number, number>();
+  const heightOf = (node: TreeNode<K> | null) => (node ? heights.get(node.id)! : 0);
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const node = nodes[i];
+    heights.set(node.id, 1 + Math.max(heightOf(node.left), heightOf(node.right)));
+  }
+
+  return { nodes, bounds, heights };
+};
+
+/**
+ * Draws edges and nodes as a handful of paths, one per color, however many
+ * nodes there are. Used when zoomed out too far for keys to be readable and
+ * for the minimap.
+ */
+export const renderBatched = <K,>(
+  edges: [TreeNode<K>, TreeNode<K>][],
+  nodes: TreeNode<K>[],
+  edgeColor: (from: TreeNode<K>, to: TreeNode<K>) => string,
+  nodeColor: (node: TreeNode<K>) => string,
+  edgeWidth: number
+): React.ReactElement => {
+  const edgePaths = new Map<string, string[]>();
+  for (const [from, to] of edges) {
+    const color = edgeColor(from, to);
+    if (!edgePaths.has(color)) edgePaths.set(color, []);
+    edgePaths.get(color)!.push(`M${from.x},${from.y}L${to.x},${to.y}`);
+  }
+
+  const r = NODE_DIAMETER / 2;
+  const nodePaths = new Map<string, string[]>();
+  for (const node of nodes) {
+    const color = nodeColor(node);
+    if (!nodePaths.has(color)) nodePaths.set(color, []);
+    nodePaths.get(color)!.push(`M${node.x - r},${node.y}a${r},${r} 0 1,0 ${2 * r},0a${r},${r} 0 1,0 ${-2 * r},0`);
+  }
+
+  return (
+    <g>
+      {[...edgePaths].map(([color, segments]) => (
+        <path key={`edges-${color}`} d={segments.join('')} stroke={color} strokeWidth={edgeWidth} fill="none" />
+      ))}
+      {[...nodePaths].map(([color, circles]) => (
+        <path key={`nodes-${color}`} d={circles.join('')} fill={color} />
+      ))}
+    </g>
+  );
+};
+
+export const STATE_COLORS = {
+  found: '#10b981',
+  highlighted: '#f59e0b',
+  visited: '#8b5cf6',
+};
+
+export interface TreeDrawingOptions<K> {
+  mode: TreeMode;
+  formatKey: (key: K) => string;
+  orientation: LayoutOrientation;
+  palette: TreePalette;
+  // Still images leave out transitions and the pulsing and bouncing highlights
+  animated: boolean;
+  violatingIds: ReadonlySet<number>;
+  onNodeDoubleClick?: (id: number) => void;
+  onNodeClick?: (id: number) => void;
+  // Called with the node under the pointer, and with null when it leaves
+  onNodeHover?: (id: number | null) => void;
+}
+
+/** The colors and per-node and per-edge renderers of one frame, shared by the canvas and image export. */
+export const treeRenderers = <K,>(frame: TreeFrame<TreeNode<K>>, scene: Scene<K>, options: TreeDrawingOptions<K>) => {
+  const { highlighted, visited, found, flagged } = frame;
+  const { mode, formatKey, orientation, palette, animated, violatingIds, onNodeDoubleClick, onNodeClick, onNodeHover } = options;
+  const isRedBlack = mode === 'redblack';
+  const showBalanceFactors = mode === 'avl';
+  const showPriorities = mode === 'treap';
+  const motion = (className: string) => (animated ? className : undefined);
+
+  // Offsets that point towards a node's smaller (left) and larger (right) subtree
+  const toSmaller = orientation === 'top-down' ? { dx: -1, dy: 0 } : { dx: 0, dy: -1 };
+  const toLarger = { dx: -toSmaller.dx, dy: -toSmaller.dy };
+
+  const heightOf = (node: TreeNode<K> | null) => (node ? scene.heights.get(node.id) ?? 0 : 0);
+
+  const edgeColor = (node: TreeNode<K>, child: TreeNode<K>) =>
+    highlighted.has(node.id) || highlighted.has(child.id) ? '#f59e0b' :
+    visited.has(node.id) || visited.has(child.id) ? '#8b5cf6' : palette.mutedForeground;
+
+  // Connection to a child with a directional arrow and a < or > marking the side
+  const renderEdge = (node: TreeNode<K>, child: TreeNode<K>, side: 'left' | 'right'): React.ReactElement => {
+    const lineColor = edgeColor(node, child);
+    const lineWidth = (highlighted.has(node.id) || highlighted.has(child.id)) ? '4' : '3';
+
+    // Calculate arrow position
+    const dx = child.x - node.x;
+    const dy = child.y - node.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    const unitX = dx / length;
+    const unitY = dy / length;
+
+    // Arrow position (80% along the line)
+    const arrowX = node.x + (dx * 0.8);
+    const arrowY = node.y + (dy * 0.8);
+
+    const topDown = orientation === 'top-down';
+    const labelOffset = side === 'left' ? { x: topDown ? -25 : 15, y: topDown ? 15 : -15 } : { x: 15, y: topDown ? 15 : 25 };
+
+    return (
+      <g key={`line-${node.id}-${side}`}>
+        {/* Main line */}
+        <line
+          x1={node.x}
+          y1={node.y}
+          x2={child.x}
+          y2={child.y}
+          stroke={lineColor}
+          strokeWidth={lineWidth}
+          className={motion('transition-all duration-300')}
+          strokeLinecap="round"
+        />
+        {/* Directional arrow */}
+        <polygon
+          points={`${arrowX},${arrowY} ${arrowX - unitX * 8 - unitY * 4},${arrowY - unitY * 8 + unitX * 4} ${arrowX - unitX * 8 + unitY * 4},${arrowY - unitY * 8 - unitX * 4}`}
+          fill={lineColor}
+          className={motion('transition-all duration-300')}
+        />
+        {/* "SMALLER" or "LARGER" label */}
+        <text
+          x={node.x + labelOffset.x}
+          y={node.y + labelOffset.y}
+          fill={palette.mutedForeground}
+          fontSize="10"
+          fontWeight="bold"
+          className={motion('transition-all duration-300')}
+        >
+          {side === 'left' ? '<' : '>'}
+        </text>
+      </g>
+    );
+  };
+
+  const stateColorOf = (node: TreeNode<K>) =>
+    found.has(node.id)
+      ? STATE_COLORS.found // green for search result
+      : highlighted.has(node.id)
+      ? STATE_COLORS.highlighted // amber for highlighted (currently comparing)
+      : visited.has(node.id)
+      ? STATE_COLORS.visited // purple for visited (part of path)
+      : null;
+  // Red-black nodes keep their own color and show the state as an outline instead
+  const nodeColorOf = (node: TreeNode<K>) =>
+    isRedBlack
+      ? node.color === 'red' ? '#dc2626' : '#18181b'
+      : stateColorOf(node) ?? '#3b82f6'; // blue for default
+
+  const renderNode = (node: TreeNode<K>, shadows: boolean): React.ReactElement => {
+    const stateColor = stateColorOf(node);
+    const nodeColor = nodeColorOf(node);
+
+    const nodeRadius = NODE_DIAMETER / 2;
+    const label = formatKey(node.value);
+    // Shrink long keys (strings, dates, tuples) so they stay inside the circle
+    const fontSize = Math.max(9, Math.min(18, Math.floor(96 / Math.max(1, label.length))));
+    const balance = heightOf(node.left) - heightOf(node.right);
+    const isActive = highlighted.has(node.id) || visited.has(node.id);
+
+    return (
+      <g
+        key={`node-${node.id}`}
+        className={(onNodeDoubleClick || onNodeClick) && 'cursor-pointer'}
+        onClick={onNodeClick && (() => onNodeClick(node.id))}
+        onDoubleClick={onNodeDoubleClick && (() => onNodeDoubleClick(node.id))}
+        onMouseEnter={onNodeHover && (() => onNodeHover(node.id))}
+        onMouseLeave={onNodeHover && (() => onNodeHover(null))}
+      >
+        {/* Main circle with enhanced styling */}
+        <circle
+          cx={node.x}
+          cy={node.y}
+          r={nodeRadius}
+          fill={nodeColor}
+          stroke={isRedBlack && stateColor ? stateColor : palette.background}
+          strokeWidth={isRedBlack && stateColor ? '6' : isActive ? '4' : '3'}
+          className={motion('transition-all duration-300')}
+          style={{
+            filter: highlighted.has(node.id)
+              ? 'drop-shadow(0 0 20px rgba(245, 158, 11, 0.8))'
+              : visited.has(node.id)
+              ? 'drop-shadow(0 0 15px rgba(139, 92, 246, 0.6))'
+              : shadows
+              ? 'drop-shadow(0 2px 4px rgba(0, 0, 0, 0.2))'
+              : undefined
+          }}
+        />
+
+        {/* Node value */}
+        <text
+          x={node.x}
+          y={node.y}
+          textAnchor="middle"
+          dy="0.35em"
+          fill={palette.primaryForeground}
+          fontSize={fontSize}
+          fontWeight="bold"
+          className={motion('transition-all duration-300')}
+          style={{ textShadow: '1px 1px 2px rgba(0,0,0,0.8)' }}
+        >
+          {label}
+        </text>
+
+        {/* Duplicate count */}
+        {node.count > 1 && (
+          <g>
+            <circle cx={node.x - 24} cy={node.y + 22} r="11" fill={palette.primary} stroke={palette.background} strokeWidth="2" />
+            <text
+              x={node.x - 24}
+              y={node.y + 22}
+              textAnchor="middle"
+              dy="0.35em"
+              fontSize="10"
+              fontWeight="bold"
+              fill={palette.primaryForeground}
+            >
+              ×{node.count}
+            </text>
+          </g>
+        )}
+
+        {/* Treap priority */}
+        {showPriorities && (
+          <text
+            x={node.x}
+            y={node.y + nodeRadius + 14}
+            textAnchor="middle"
+            fontSize="11"
+            fontWeight="bold"
+            fill={palette.mutedForeground}
+          >
+            p={node.priority}
+          </text>
+        )}
+
+        {/* Invariant violation marker, for red-black rules and nodes flagged by a check */}
+        {(violatingIds.has(node.id) || flagged?.has(node.id)) && (
+          <g>
+            <circle
+              cx={node.x}
+              cy={node.y}
+              r={nodeRadius + 6}
+              fill="none"
+              stroke="#ef4444"
+              strokeWidth="3"
+              strokeDasharray="4,3"
+            />
+            <text x={node.x - 33} y={node.y - 29} textAnchor="middle" dy="0.35em" fontSize="16">
+              ⚠️
+            </text>
+          </g>
+        )}
+
+        {/* Balance factor badge */}
+        {showBalanceFactors && (
+          <g>
+            <rect
+              x={node.x + 18}
+              y={node.y - 38}
+              width="30"
+              height="18"
+              rx="9"
+              fill={Math.abs(balance) > 1 ? '#ef4444' : palette.muted}
+              stroke={palette.border}
+            />
+            <text
+              x={node.x + 33}
+              y={node.y - 29}
+              textAnchor="middle"
+              dy="0.35em"
+              fontSize="11"
+              fontWeight="bold"
+              fill={Math.abs(balance) > 1 ? 'white' : palette.foreground}
+            >
+              {formatBalance(balance)}
+            </text>
+          </g>
+        )}
+
+        {/* Pulse animation for currently highlighted nodes */}
+        {highlighted.has(node.id) && (
+          <>
+            <circle
+              cx={node.x}
+              cy={node.y}
+              r={nodeRadius + 15}
+              fill="none"
+              stroke={nodeColor}
+              strokeWidth="3"
+              opacity="0.6"
+              className={motion('animate-ping')}
+            />
+            {/* Comparison indicator */}
+            <text
+              x={node.x}
+              y={node.y - 50}
+              textAnchor="middle"
+              fill={palette.primary}
+              fontSize="14"
+              fontWeight="bold"
+              className={motion('animate-bounce')}
+            >
+              COMPARING
+            </text>
+          </>
+        )}
+
+        {/* Path indicator for visited nodes */}
+        {visited.has(node.id) && !highlighted.has(node.id) && (
+          <circle
+            cx={node.x}
+            cy={node.y}
+            r={nodeRadius + 8}
+            fill="none"
+            stroke="#8b5cf6"
+            strokeWidth="2"
+            opacity="0.8"
+            strokeDasharray="5,5"
+            className={motion('transition-all duration-300')}
+          />
+        )}
+
+        {/* Direction indicators */}
+        {isActive && (
+          <>
+            {/* Left arrow for smaller values */}
+            <g opacity="0.7">
+              <circle cx={node.x + toSmaller.dx * 45} cy={node.y + toSmaller.dy * 45} r="12" fill={palette.muted} stroke={palette.border}/>
+              <text x={node.x + toSmaller.dx * 45} y={node.y + toSmaller.dy * 45} textAnchor="middle" dy="0.35em" fontSize="12" fontWeight="bold" fill={palette.mutedForeground}>
+                &lt;
+              </text>
+              <text x={node.x + toSmaller.dx * 45} y={node.y + toSmaller.dy * 45 + (toSmaller.dy < 0 ? -18 : 20)} textAnchor="middle" fontSize="8" fill={palette.mutedForeground}>
+                smaller
+              </text>
+            </g>
+
+            {/* Right arrow for larger values */}
+            <g opacity="0.7">
+              <circle cx={node.x + toLarger.dx * 45} cy={node.y + toLarger.dy * 45} r="12" fill={palette.muted} stroke={palette.border}/>
+              <text x={node.x + toLarger.dx * 45} y={node.y + toLarger.dy * 45} textAnchor="middle" dy="0.35em" fontSize="12" fontWeight="bold" fill={palette.mutedForeground}>
+                &gt;
+              </text>
+              <text x={node.x + toLarger.dx * 45} y={node.y + toLarger.dy * 45 + 20} textAnchor="middle" fontSize="8" fill={palette.mutedForeground}>
+                larger
+              </text>
+            </g>
+          </>
+        )}
+      </g>
+    );
+  };
+
+  return { edgeColor, nodeColorOf, renderEdge, renderNode };
+};
+
+/** Every edge and node of a frame in full detail, as drawn in exported images. */
+export const renderTree = <K,>(
+  frame: TreeFrame<TreeNode<K>>,
+  scene: Scene<K>,
+  options: TreeDrawingOptions<K>
+): React.ReactElement => {
+  const { renderEdge, renderNode } = treeRenderers(frame, scene, options);
+  return (
+    <g>
+      {scene.nodes.flatMap(node => [
+        ...(node.left ? [renderEdge(node, node.left, 'left')] : []),
+        ...(node.right ? [renderEdge(node, node.right, 'right')] : []),
+      ])}
+      {scene.nodes.map(node => renderNode(node, false))}
+    </g>
+  );
+};
+
+export interface StillOptions<K> {
+  mode: TreeMode;
+  formatKey: (key: K) => string;
+  layout: LayoutSettings;
+  palette: TreePalette;
+}
+
+/**
+ * Renders frames as standalone SVG images of the whole tree, however much of
+ * it is on screen. All images share one size and origin, so the frames of an
+ * animation line up; `captions` go underneath, one per frame.
+ */
+export const renderStills = <K,>(
+  frames: TreeFrame<TreeNode<K>>[],
+  { mode, formatKey, layout, palette }: StillOptions<K>,
+  captions?: string[]
+): Promise<StillImage[]> => {
+  // Recorded frames share one snapshot per structure, so each is laid out once
+  const scenes = new Map<TreeNode<K>, Scene<K>>();
+  for (const { root } of frames) {
+    if (root && !scenes.has(root)) scenes.set(root, buildScene(root, layout));
+  }
+  const bounds = { minX: 0, maxX: 0, minY: 0, maxY: 0 };
+  for (const scene of scenes.values()) {
+    bounds.minX = Math.min(bounds.minX, scene.bounds.minX);
+    bounds.maxX = Math.max(bounds.maxX, scene.bounds.maxX);
+    bounds.minY = Math.min(bounds.minY, scene.bounds.minY);
+    bounds.maxY = Math.max(bounds.maxY, scene.bounds.maxY);
+  }
+
+  return Promise.all(
+    frames.map((frame, index) => {
+      const scene = frame.root ? scenes.get(frame.root)! : null;
+      const violatingIds = new Set(
+        mode === 'redblack' ? checkRedBlackInvariants(frame.root, formatKey).map(violation => violation.nodeId) : []
+      );
+      const drawing = scene ? (
+        renderTree(frame, scene, { mode, formatKey, orientation: layout.orientation, palette, animated: false, violatingIds })
+      ) : (
+        <g />
+      );
+      return standaloneSvg(drawing, bounds, palette, captions?.[index]);
+    })
+  );
+};
@@ -0,0 +1,28 @@
+import { useCallback, useState } from 'react';
+import type { CameraTarget, CameraView } from '../lib/camera';
+
+/**
+ * Where a canvas is looking. Starts out fitting the whole drawing; zooming,
+ * panning and focusing a node take over until `fit` is called again. With
+ * `follow` on, the canvas centres on whichever node the current step compares.
+ */
+export function useCamera() {
+  const [target, setTarget] = useState<CameraTarget>({ kind: 'fit' });
+  const [follow, setFollow] = useState(false);
+
+  const fit = useCallback(() => setTarget({ kind: 'fit' }), []);
+  const focus = useCallback((id: number) => setTarget({ kind: 'node', id }), []);
+  const moveTo = useCallback((view: CameraView) => setTarget({ kind: 'free', view }), []);
+  const toggleFollow = useCallback(() => setFollow(on => !on), []);
+
+  return {
+    target,
+    follow,
+    fit,
+    focus,
+    moveTo,
+    toggleFollow,
+  };
+}
+
+export type Camera = ReturnType<typeof useCamera>;
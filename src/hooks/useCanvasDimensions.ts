@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Size of the main canvas, following the window. `reservedHeight` is the
+ * vertical space taken by the header, inputs and player controls.
+ */
+export function useCanvasDimensions(reservedHeight: number) {
+  const [dimensions, setDimensions] = useState({ width: 1200, height: 500 });
+
+  // Update dimensions on window resize
+  useEffect(() => {
+    const updateDimensions = () => {
+      const width = window.innerWidth - 40;
+      const height = window.innerHeight - reservedHeight;
+      setDimensions({ width: Math.max(1000, width), height: Math.max(500, height) });
+    };
+
+    updateDimensions();
+    window.addEventListener('resize', updateDimensions);
+    return () => window.removeEventListener('resize', updateDimensions);
+  }, [reservedHeight]);
+
+  return dimensions;
+}
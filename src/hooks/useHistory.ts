@@ -0,0 +1,62 @@
+import { useCallback, useState } from 'react';
+
+export interface HistoryEntry<TState> {
+  label: string;
+  state: TState;
+}
+
+// Every entry holds a full snapshot, so very old ones are dropped rather than kept forever
+const DEFAULT_LIMIT = 100;
+
+/**
+ * A linear undo/redo history of snapshots. Recording after going back drops
+ * the entries that were undone. Moving through the history returns the state
+ * to restore; putting it back on screen is up to the caller.
+ */
+export function useHistory<TState>(limit: number = DEFAULT_LIMIT) {
+  const [entries, setEntries] = useState<HistoryEntry<TState>[]>([]);
+  const [index, setIndex] = useState(-1);
+
+  const reset = useCallback((label: string, state: TState) => {
+    setEntries([{ label, state }]);
+    setIndex(0);
+  }, []);
+
+  // Puts back a whole saved history, e.g. a restored workspace
+  const replaceAll = useCallback((newEntries: HistoryEntry<TState>[], newIndex: number) => {
+    setEntries(newEntries);
+    setIndex(newIndex);
+  }, []);
+
+  const record = useCallback((label: string, state: TState) => {
+    const kept = entries.slice(Math.max(0, index + 2 - limit), index + 1);
+    setEntries([...kept, { label, state }]);
+    setIndex(kept.length);
+  }, [entries, index, limit]);
+
+  // Returns null when `target` is the current entry or out of range
+  const jumpTo = useCallback((target: number): TState | null => {
+    if (target < 0 || target >= entries.length || target === index) return null;
+    setIndex(target);
+    return entries[target].state;
+  }, [entries, index]);
+
+  const undo = useCallback(() => jumpTo(index - 1), [jumpTo, index]);
+  const redo = useCallback(() => jumpTo(index + 1), [jumpTo, index]);
+
+  return {
+    entries,
+    index,
+    current: index >= 0 ? entries[index].state : null,
+    canUndo: index > 0,
+    canRedo: index < entries.length - 1,
+    reset,
+    replaceAll,
+    record,
+    jumpTo,
+    undo,
+    redo,
+  };
+}
+
+export type History<TState> = ReturnType<typeof useHistory<TState>>;
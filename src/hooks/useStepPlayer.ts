@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { AlgorithmStep } from '../lib/steps';
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 1.5, 2, 4] as const;
+
+/**
+ * Plays back a recorded list of algorithm steps. Steps can be played, paused,
+ * scrubbed and stepped through in either direction at a variable speed.
+ */
+export function useStepPlayer<TFrame>() {
+  const [steps, setSteps] = useState<AlgorithmStep<TFrame>[]>([]);
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Advance one step whenever the current one has been on screen long enough
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (index >= steps.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setIndex(i => i + 1), steps[index].duration / speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, index, steps, speed]);
+
+  const load = useCallback((newSteps: AlgorithmStep<TFrame>[], autoplay: boolean = true, startAt: number = 0) => {
+    setSteps(newSteps);
+    setIndex(Math.max(0, Math.min(newSteps.length - 1, startAt)));
+    setIsPlaying(autoplay && newSteps.length > 1);
+  }, []);
+
+  const clear = useCallback(() => {
+    setSteps([]);
+    setIndex(0);
+    setIsPlaying(false);
+  }, []);
+
+  const play = useCallback(() => {
+    // Replaying a finished recording starts over from the beginning
+    setIndex(i => (i >= steps.length - 1 ? 0 : i));
+    setIsPlaying(steps.length > 1);
+  }, [steps.length]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const togglePlay = useCallback(() => {
+    if (isPlaying) pause();
+    else play();
+  }, [isPlaying, pause, play]);
+
+  const seek = useCallback((target: number) => {
+    setIsPlaying(false);
+    setIndex(Math.max(0, Math.min(steps.length - 1, target)));
+  }, [steps.length]);
+
+  const stepForward = useCallback(() => seek(index + 1), [seek, index]);
+  const stepBack = useCallback(() => seek(index - 1), [seek, index]);
+
+  return {
+    steps,
+    index,
+    currentStep: steps.length > 0 ? steps[index] : null,
+    isPlaying,
+    speed,
+    setSpeed,
+    load,
+    clear,
+    play,
+    pause,
+    togglePlay,
+    seek,
+    stepForward,
+    stepBack,
+  };
+}
+
+export type StepPlayer<TFrame> = ReturnType<typeof useStepPlayer<TFrame>>;
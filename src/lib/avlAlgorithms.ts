@@ -0,0 +1,193 @@
+import { TreeNode, type DeletionStrategy } from '../types/TreeNode';
+import {
+  recordCountDecrement,
+  recordDuplicateInsertion,
+  walkDeletion,
+  walkToInsertionPoint,
+  type TreeRecording,
+} from './bstAlgorithms';
+import { TreeStepRecorder } from './treeRecorder';
+import { goesLeft, type KeyContext } from './keys';
+import { codeLine } from './codeListings';
+
+const heightOf = <K>(node: TreeNode<K> | null): number => (node ? node.height : 0);
+
+const updateHeight = <K>(node: TreeNode<K>): void => {
+  node.height = 1 + Math.max(heightOf(node.left), heightOf(node.right));
+};
+
+export const balanceFactor = <K>(node: TreeNode<K>): number => heightOf(node.left) - heightOf(node.right);
+
+export const formatBalance = (balance: number): string => (balance > 0 ? `+${balance}` : `${balance}`);
+
+const rotateLeft = <K>(node: TreeNode<K>): TreeNode<K> => {
+  const pivot = node.rotateLeft();
+  updateHeight(node);
+  updateHeight(pivot);
+  return pivot;
+};
+
+const rotateRight = <K>(node: TreeNode<K>): TreeNode<K> => {
+  const pivot = node.rotateRight();
+  updateHeight(node);
+  updateHeight(pivot);
+  return pivot;
+};
+
+/**
+ * Walks `path` bottom-up, refreshing heights and rotating every node whose
+ * balance factor left [-1, +1]. `path` runs from the root down to the parent
+ * of the inserted node, or down to the removed node after a deletion (which
+ * is skipped since it is no longer in the tree). Returns the new root.
+ */
+const rebalancePath = <K>(
+  root: TreeNode<K>,
+  path: TreeNode<K>[],
+  format: (key: K) => string,
+  recorder: TreeStepRecorder<TreeNode<K>>,
+  skipLast: boolean
+): TreeNode<K> => {
+  let newRoot = root;
+  const last = skipLast ? path.length - 2 : path.length - 1;
+
+  for (let i = last; i >= 0; i--) {
+    const node = path[i];
+    const parent = i > 0 ? path[i - 1] : null;
+
+    updateHeight(node);
+    const balance = balanceFactor(node);
+    node.isHighlighted = true;
+
+    if (Math.abs(balance) <= 1) {
+      recorder.record(`🔎 Check ${format(node.value)}: balance factor ${formatBalance(balance)} ✓`, 500);
+      node.isHighlighted = false;
+      continue;
+    }
+
+    recorder.record(`⚠️ ${format(node.value)} has balance factor ${formatBalance(balance)} → unbalanced!`, 1000);
+
+    let subtreeRoot: TreeNode<K>;
+    if (balance > 1) {
+      const child = node.left!;
+      child.isVisited = true;
+      if (balanceFactor(child) >= 0) {
+        recorder.record(`↪️ LL case: left child ${format(child.value)} is left-heavy (or even) → rotate RIGHT at ${format(node.value)}`, 1000);
+      } else {
+        recorder.record(`↪️ LR case: left child ${format(child.value)} is right-heavy → rotate LEFT at ${format(child.value)}, then RIGHT at ${format(node.value)}`, 1000);
+        node.left = rotateLeft(child);
+        recorder.restructure(newRoot);
+        recorder.record(`🔄 Rotated LEFT at ${format(child.value)}: ${format(node.left.value)} moves up`, 1000);
+      }
+      subtreeRoot = rotateRight(node);
+    } else {
+      const child = node.right!;
+      child.isVisited = true;
+      if (balanceFactor(child) <= 0) {
+        recorder.record(`↩️ RR case: right child ${format(child.value)} is right-heavy (or even) → rotate LEFT at ${format(node.value)}`, 1000);
+      } else {
+        recorder.record(`↩️ RL case: right child ${format(child.value)} is left-heavy → rotate RIGHT at ${format(child.value)}, then LEFT at ${format(node.value)}`, 1000);
+        node.right = rotateRight(child);
+        recorder.restructure(newRoot);
+        recorder.record(`🔄 Rotated RIGHT at ${format(child.value)}: ${format(node.right.value)} moves up`, 1000);
+      }
+      subtreeRoot = rotateLeft(node);
+    }
+
+    if (!parent) {
+      newRoot = subtreeRoot;
+    } else if (parent.left === node) {
+      parent.left = subtreeRoot;
+    } else {
+      parent.right = subtreeRoot;
+    }
+
+    node.isHighlighted = false;
+    subtreeRoot.isSearchResult = true;
+    recorder.restructure(newRoot);
+    recorder.record(`🔄 Rotated ${balance > 1 ? 'RIGHT' : 'LEFT'} at ${format(node.value)}: ${format(subtreeRoot.value)} is the new subtree root`, 1200);
+    subtreeRoot.isSearchResult = false;
+  }
+
+  return newRoot;
+};
+
+/** Inserts `value` like a plain BST, then rebalances on the way back up. The result is the new root. */
+export const recordAvlInsertion = <K>(
+  root: TreeNode<K> | null,
+  value: K,
+  keys: KeyContext<K>,
+  silent: boolean = false
+): TreeRecording<K> => {
+  const { format } = keys.type;
+  if (!root) {
+    const newRoot = new TreeNode(value);
+    newRoot.isSearchResult = true;
+    const recorder = new TreeStepRecorder(newRoot, silent);
+    recorder.record(`Created root node with value: ${format(value)}`, 1000, codeLine('insert', 'create'));
+    recorder.clearHighlights(newRoot);
+    return { steps: recorder.steps, result: newRoot };
+  }
+
+  const recorder = new TreeStepRecorder(root, silent);
+  recorder.clearHighlights(root);
+
+  if (recordDuplicateInsertion(root, value, keys, recorder)) {
+    return { steps: recorder.steps, result: root };
+  }
+
+  recorder.record(`🔄 Starting AVL insertion of ${format(value)}`, 400, codeLine('insert', 'start'));
+  const path = walkToInsertionPoint(root, value, keys, recorder);
+
+  const parent = path[path.length - 1];
+  const inserted = new TreeNode(value);
+  if (goesLeft(keys, value, parent.value)) {
+    parent.left = inserted;
+  } else {
+    parent.right = inserted;
+  }
+  inserted.isSearchResult = true;
+  recorder.restructure(root);
+  recorder.record(`🎉 Inserted ${format(value)}, now retracing ancestors to check balance`, 1000);
+  inserted.isSearchResult = false;
+
+  recorder.clearHighlights(root);
+  const newRoot = rebalancePath(root, path, format, recorder, false);
+  recorder.record(`✨ ${format(value)} successfully added! Every node is balanced.`);
+  recorder.clearHighlights(newRoot);
+  return { steps: recorder.steps, result: newRoot };
+};
+
+/** Deletes `value` like a plain BST, then rebalances the removed node's ancestors. The result is the new root. */
+export const recordAvlDeletion = <K>(
+  root: TreeNode<K>,
+  value: K,
+  keys: KeyContext<K>,
+  strategy: DeletionStrategy,
+  silent: boolean = false
+): TreeRecording<K> => {
+  const { format } = keys.type;
+  const recorder = new TreeStepRecorder(root, silent);
+  recorder.clearHighlights(root);
+  recorder.record(`🗑️ Starting AVL deletion of ${format(value)}`, 400);
+
+  if (recordCountDecrement(root, value, keys, recorder)) {
+    return { steps: recorder.steps, result: root };
+  }
+
+  const path = walkDeletion(root, value, keys, strategy, recorder);
+  if (!path) {
+    return { steps: recorder.steps, result: root };
+  }
+
+  recorder.clearHighlights(root);
+  let newRoot = root.delete(value, keys.type.compare, strategy);
+  recorder.restructure(newRoot);
+  recorder.record(`✅ Node ${format(value)} removed, now retracing ancestors to check balance`);
+
+  if (newRoot) {
+    newRoot = rebalancePath(newRoot, path, format, recorder, true);
+    recorder.record(`✨ ${format(value)} successfully deleted! Every node is balanced.`);
+    recorder.clearHighlights(newRoot);
+  }
+  return { steps: recorder.steps, result: newRoot };
+};
@@ -0,0 +1,311 @@
+import { BTreeNode } from '../types/BTreeNode';
+import type { Recording } from './steps';
+import { TreeStepRecorder, type TreeFrame } from './treeRecorder';
+
+export type BTreeFrame = TreeFrame<BTreeNode>;
+
+export type BTreeRecording = Recording<BTreeFrame, BTreeNode | null>;
+
+export const MIN_ORDER = 3;
+export const MAX_ORDER = 7;
+
+/** Largest number of keys a node of a B-tree of `order` may hold. */
+export const maxKeys = (order: number): number => order - 1;
+
+/** Smallest number of keys a non-root node of a B-tree of `order` must hold. */
+export const minKeys = (order: number): number => Math.ceil(order / 2) - 1;
+
+const formatKeys = (node: BTreeNode): string => `[${node.keys.join(', ')}]`;
+
+// One level of a root-to-node walk: the node and the child index taken below it
+interface PathEntry {
+  node: BTreeNode;
+  slot: number;
+}
+
+/**
+ * Narrates the descent from `root` towards `key`. Returns the nodes visited,
+ * each with the slot taken (the child index, or the key index in the node
+ * holding `key`), and whether `key` was found in the last one.
+ */
+const walkDown = (
+  root: BTreeNode,
+  key: number,
+  recorder: TreeStepRecorder<BTreeNode>
+): { path: PathEntry[]; found: boolean } => {
+  const path: PathEntry[] = [];
+  let node = root;
+
+  while (true) {
+    const slot = node.findSlot(key);
+    path.push({ node, slot });
+    node.isHighlighted = true;
+
+    if (node.keys[slot] === key) {
+      node.isHighlighted = false;
+      node.isSearchResult = true;
+      recorder.record(`✅ Found ${key} in node ${formatKeys(node)}`);
+      return { path, found: true };
+    }
+
+    const reason = slot === 0
+      ? `${key} < ${node.keys[0]}`
+      : slot === node.keys.length
+      ? `${key} > ${node.keys[slot - 1]}`
+      : `${node.keys[slot - 1]} < ${key} < ${node.keys[slot]}`;
+
+    if (node.isLeaf) {
+      recorder.record(`📍 Scan ${formatKeys(node)}: ${reason} → position ${slot} of this leaf`, 1000);
+      node.isHighlighted = false;
+      node.isVisited = true;
+      return { path, found: false };
+    }
+
+    recorder.record(`📍 Scan ${formatKeys(node)}: ${reason} → descend into child ${slot}`, 1000);
+    node.isHighlighted = false;
+    node.isVisited = true;
+    node = node.children[slot];
+  }
+};
+
+/** Splits overflowing nodes along `path`, bottom-up, pushing medians into their parents. Returns the new root. */
+const splitOverflow = (
+  root: BTreeNode,
+  path: PathEntry[],
+  order: number,
+  recorder: TreeStepRecorder<BTreeNode>
+): BTreeNode => {
+  let newRoot = root;
+
+  for (let i = path.length - 1; i >= 0; i--) {
+    const node = path[i].node;
+    if (node.keys.length <= maxKeys(order)) break;
+
+    node.isHighlighted = true;
+    recorder.record(`💥 Overflow: ${formatKeys(node)} holds ${node.keys.length} keys, at most ${maxKeys(order)} allowed → split`, 1000);
+
+    const mid = Math.floor((node.keys.length - 1) / 2);
+    const median = node.keys[mid];
+    const sibling = new BTreeNode(node.keys.slice(mid + 1), node.isLeaf ? [] : node.children.slice(mid + 1));
+    node.keys = node.keys.slice(0, mid);
+    node.children = node.isLeaf ? [] : node.children.slice(0, mid + 1);
+
+    if (i === 0) {
+      newRoot = new BTreeNode([median], [node, sibling]);
+      newRoot.isSearchResult = true;
+      recorder.restructure(newRoot);
+      recorder.record(`⬆️ Median ${median} moves up into a brand-new root: the tree grows one level taller`, 1200);
+      newRoot.isSearchResult = false;
+    } else {
+      const parent = path[i - 1].node;
+      const slot = path[i - 1].slot;
+      parent.keys.splice(slot, 0, median);
+      parent.children.splice(slot + 1, 0, sibling);
+      parent.isSearchResult = true;
+      recorder.restructure(newRoot);
+      recorder.record(`⬆️ Median ${median} moves up into parent ${formatKeys(parent)}; ${formatKeys(node)} and ${formatKeys(sibling)} become siblings`, 1200);
+      parent.isSearchResult = false;
+    }
+    node.isHighlighted = false;
+  }
+
+  return newRoot;
+};
+
+/** Inserts `key` into its leaf and splits every overflowing node on the way up. The result is the new root. */
+export const recordBTreeInsertion = (
+  root: BTreeNode | null,
+  key: number,
+  order: number,
+  silent: boolean = false
+): BTreeRecording => {
+  if (!root) {
+    const newRoot = new BTreeNode([key]);
+    newRoot.isSearchResult = true;
+    const recorder = new TreeStepRecorder<BTreeNode>(newRoot, silent);
+    recorder.record(`Created root node with key: ${key}`, 1000);
+    newRoot.clearHighlights();
+    return { steps: recorder.steps, result: newRoot };
+  }
+
+  root.clearHighlights();
+  const recorder = new TreeStepRecorder<BTreeNode>(root, silent);
+
+  if (root.search(key)) {
+    recorder.record(`⚠️ Key ${key} already exists in tree`);
+    return { steps: recorder.steps, result: root };
+  }
+
+  recorder.record(`🔄 Starting B-tree insertion of ${key}`, 400);
+  const { path } = walkDown(root, key, recorder);
+
+  const leaf = path[path.length - 1];
+  leaf.node.keys.splice(leaf.slot, 0, key);
+  leaf.node.isSearchResult = true;
+  recorder.restructure(root);
+  recorder.record(`🎉 Inserted ${key} into leaf ${formatKeys(leaf.node)}`, 1000);
+  root.clearHighlights();
+
+  const newRoot = splitOverflow(root, path, order, recorder);
+  recorder.record(`✨ ${key} successfully added! Every node holds at most ${maxKeys(order)} keys.`);
+  newRoot.clearHighlights();
+  return { steps: recorder.steps, result: newRoot };
+};
+
+/** Records a search for `key`. The tree is unchanged, so the result is `root` itself. */
+export const recordBTreeSearch = (root: BTreeNode, key: number): BTreeRecording => {
+  root.clearHighlights();
+  const recorder = new TreeStepRecorder<BTreeNode>(root);
+  recorder.record(`🔍 Searching for key: ${key}`, 400);
+  if (!walkDown(root, key, recorder).found) {
+    recorder.record(`❌ Key ${key} not found in tree`);
+  }
+  root.clearHighlights();
+  return { steps: recorder.steps, result: root };
+};
+
+/**
+ * Repairs underflowing nodes along `path`, bottom-up, by borrowing a key
+ * through the parent from a sibling that can spare one, or otherwise merging
+ * with a sibling and the separating key. Returns the new root.
+ */
+const fixUnderflow = (
+  root: BTreeNode,
+  path: PathEntry[],
+  order: number,
+  recorder: TreeStepRecorder<BTreeNode>
+): BTreeNode | null => {
+  for (let i = path.length - 1; i > 0; i--) {
+    const node = path[i].node;
+    if (node.keys.length >= minKeys(order)) break;
+
+    const parent = path[i - 1].node;
+    const index = path[i - 1].slot;
+    const left = index > 0 ? parent.children[index - 1] : null;
+    const right = index < parent.children.length - 1 ? parent.children[index + 1] : null;
+
+    node.isHighlighted = true;
+    recorder.record(`⚠️ Underflow: ${formatKeys(node)} holds ${node.keys.length} keys, at least ${minKeys(order)} required`, 1000);
+
+    if (left && left.keys.length > minKeys(order)) {
+      left.isVisited = true;
+      recorder.record(`↪️ Left sibling ${formatKeys(left)} can spare a key → borrow through the parent`, 1000);
+      node.keys.unshift(parent.keys[index - 1]);
+      parent.keys[index - 1] = left.keys.pop()!;
+      if (!left.isLeaf) node.children.unshift(left.children.pop()!);
+      recorder.restructure(root);
+      recorder.record(`🔄 Separator ${node.keys[0]} moved down, ${parent.keys[index - 1]} moved up`, 1200);
+      left.isVisited = false;
+      node.isHighlighted = false;
+      break;
+    }
+
+    if (right && right.keys.length > minKeys(order)) {
+      right.isVisited = true;
+      recorder.record(`↩️ Right sibling ${formatKeys(right)} can spare a key → borrow through the parent`, 1000);
+      node.keys.push(parent.keys[index]);
+      parent.keys[index] = right.keys.shift()!;
+      if (!right.isLeaf) node.children.push(right.children.shift()!);
+      recorder.restructure(root);
+      recorder.record(`🔄 Separator ${node.keys[node.keys.length - 1]} moved down, ${parent.keys[index]} moved up`, 1200);
+      right.isVisited = false;
+      node.isHighlighted = false;
+      break;
+    }
+
+    // Neither sibling can spare a key: merge with one of them
+    const [mergeInto, absorbed, separatorIndex] = left
+      ? [left, node, index - 1]
+      : [node, right!, index];
+    const separator = parent.keys[separatorIndex];
+    recorder.record(
+      `🔗 No sibling can spare a key → merge ${formatKeys(mergeInto)}, separator ${separator} and ${formatKeys(absorbed)}`,
+      1000
+    );
+    mergeInto.keys.push(separator, ...absorbed.keys);
+    mergeInto.children.push(...absorbed.children);
+    parent.keys.splice(separatorIndex, 1);
+    parent.children.splice(separatorIndex + 1, 1);
+    node.isHighlighted = false;
+    mergeInto.isSearchResult = true;
+    recorder.restructure(root);
+    recorder.record(`🔄 Merged into ${formatKeys(mergeInto)}; parent lost a key, check it next`, 1200);
+    mergeInto.isSearchResult = false;
+  }
+
+  if (root.keys.length === 0) {
+    const newRoot = root.children[0] ?? null;
+    recorder.restructure(newRoot);
+    recorder.record(newRoot ? '⬇️ The root is empty → its only child becomes the root: the tree shrinks one level' : '🌱 The tree is now empty');
+    return newRoot;
+  }
+  return root;
+};
+
+/**
+ * Deletes `key`. Keys in internal nodes are first swapped with their in-order
+ * predecessor so that the actual removal always happens in a leaf, then
+ * underflowing nodes are repaired bottom-up. The result is the new root.
+ */
+export const recordBTreeDeletion = (
+  root: BTreeNode,
+  key: number,
+  order: number,
+  silent: boolean = false
+): BTreeRecording => {
+  root.clearHighlights();
+  const recorder = new TreeStepRecorder<BTreeNode>(root, silent);
+  recorder.record(`🗑️ Starting B-tree deletion of ${key}`, 400);
+
+  const { path, found } = walkDown(root, key, recorder);
+  if (!found) {
+    root.clearHighlights();
+    recorder.record(`❌ Key ${key} not found in tree - nothing to delete`);
+    return { steps: recorder.steps, result: root };
+  }
+
+  const holder = path[path.length - 1];
+  if (!holder.node.isLeaf) {
+    // Walk to the rightmost leaf of the left child: it holds the predecessor
+    recorder.record(`🌿 ${key} is in an internal node → replace it with its in-order predecessor`);
+    let node = holder.node.children[holder.slot];
+    while (true) {
+      node.isHighlighted = true;
+      if (node.isLeaf) {
+        path.push({ node, slot: node.keys.length - 1 });
+        break;
+      }
+      path.push({ node, slot: node.keys.length });
+      recorder.record(`➡️ Go to the rightmost child of ${formatKeys(node)}`, 600);
+      node.isHighlighted = false;
+      node.isVisited = true;
+      node = node.children[node.keys.length];
+    }
+
+    const predecessor = node.keys[node.keys.length - 1];
+    recorder.record(`🎯 Predecessor is ${predecessor}`);
+    holder.node.keys[holder.slot] = predecessor;
+    recorder.restructure(root);
+    recorder.record(`🔁 Copy ${predecessor} over ${key}, then remove it from its leaf`);
+  }
+
+  const leaf = path[path.length - 1];
+  const removed = leaf.node.keys.splice(leaf.slot, 1)[0];
+  root.clearHighlights();
+  recorder.restructure(root);
+  recorder.record(`✂️ Removed ${removed === key ? key : `old copy of ${removed}`} from its leaf, leaving ${formatKeys(leaf.node)}`, 1000);
+
+  const newRoot = fixUnderflow(root, path, order, recorder);
+  recorder.record(`✅ Key ${key} successfully deleted!`);
+  newRoot?.clearHighlights();
+  return { steps: recorder.steps, result: newRoot };
+};
+
+/** Builds a B-tree of `order` by inserting `keys` in order, without recording. */
+export const buildBTree = (order: number, keys: number[]): BTreeNode | null => {
+  let root: BTreeNode | null = null;
+  for (const key of keys) {
+    root = recordBTreeInsertion(root, key, order, true).result;
+  }
+  return root;
+};
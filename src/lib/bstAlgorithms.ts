@@ -0,0 +1,398 @@
+import { TreeNode, type DeletionStrategy } from '../types/TreeNode';
+import { DEFAULT_STEP_DURATION, type Recording } from './steps';
+import { RECURSIVE_ORDERS, codeLine } from './codeListings';
+import { TreeStepRecorder, type TreeFrame } from './treeRecorder';
+import { goesLeft, sameKey, type KeyContext } from './keys';
+
+export type TraversalType = 'inorder' | 'preorder' | 'postorder';
+
+export type TreeRecording<K = number> = Recording<TreeFrame<TreeNode<K>>, TreeNode<K> | null>;
+
+/**
+ * Narrates the comparisons on the way down to where `value` would be
+ * inserted. Returns the compared nodes, root first; the last one becomes the
+ * new node's parent. Equal keys only get this far under the left/right
+ * duplicate policies, and follow them.
+ */
+export const walkToInsertionPoint = <K>(
+  root: TreeNode<K>,
+  value: K,
+  keys: KeyContext<K>,
+  recorder: TreeStepRecorder<TreeNode<K>>
+): TreeNode<K>[] => {
+  const { format } = keys.type;
+  const path: TreeNode<K>[] = [];
+  let current = root;
+  while (true) {
+    path.push(current);
+    current.isHighlighted = true;
+    recorder.record(() => `📍 Comparing ${format(value)} with ${format(current.value)}...`, 1000, codeLine('insert', 'compare'));
+
+    const goLeft = goesLeft(keys, value, current.value);
+    const tie = sameKey(keys, value, current.value);
+    const relation = tie ? '=' : goLeft ? '<' : '>';
+    const next = goLeft ? current.left : current.right;
+    current.isVisited = true;
+    recorder.record(
+      () =>
+        tie
+          ? `✅ ${format(value)} = ${format(current.value)} → duplicates go ${goLeft ? 'LEFT' : 'RIGHT'}`
+          : goLeft
+          ? `✅ ${format(value)} < ${format(current.value)} → Go LEFT (smaller values)`
+          : `✅ ${format(value)} > ${format(current.value)} → Go RIGHT (larger values)`,
+      DEFAULT_STEP_DURATION,
+      codeLine('insert', next ? 'descend' : 'slot')
+    );
+
+    if (!next) {
+      recorder.record(
+        `🎯 Found insertion point: ${goLeft ? 'LEFT' : 'RIGHT'} child of ${format(current.value)}`,
+        600,
+        codeLine('insert', 'slot')
+      );
+      recorder.record(
+        `💡 Rule: ${format(value)} ${relation} ${format(current.value)}, so ${format(value)} goes to the ${goLeft ? 'left' : 'right'}`,
+        600,
+        codeLine('insert', 'slot')
+      );
+      current.isHighlighted = false;
+      return path;
+    }
+    current.isHighlighted = false;
+    current = next;
+  }
+};
+
+/**
+ * Applies the reject and count duplicate policies when `value` is already in
+ * the tree: the insertion is refused, or the matching node's count goes up.
+ * Returns whether the insertion was handled here; the left/right policies
+ * always leave it to the caller.
+ */
+export const recordDuplicateInsertion = <K>(
+  root: TreeNode<K>,
+  value: K,
+  keys: KeyContext<K>,
+  recorder: TreeStepRecorder<TreeNode<K>>
+): boolean => {
+  const { format } = keys.type;
+  if (keys.duplicates === 'left' || keys.duplicates === 'right') return false;
+
+  const existing = root.search(value, keys.type.compare);
+  if (!existing) return false;
+
+  if (keys.duplicates === 'reject') {
+    recorder.record(`⚠️ Value ${format(value)} already exists in tree`, DEFAULT_STEP_DURATION, codeLine('insert', 'duplicate'));
+    return true;
+  }
+
+  recorder.record(`🔄 ${format(value)} may already be in the tree, look for it first`, 400, codeLine('insert', 'duplicate'));
+  walkSearch(root, value, keys, recorder);
+  existing.count++;
+  recorder.restructure(root);
+  recorder.record(
+    `➕ Duplicate: ${format(value)} now occurs ${existing.count} times in the same node`,
+    1000,
+    codeLine('insert', 'duplicate')
+  );
+  recorder.clearHighlights(root);
+  return true;
+};
+
+/**
+ * Under the count duplicate policy, a node standing for several copies of
+ * `value` only has its count lowered. Returns whether the deletion was
+ * handled here; otherwise the caller removes the node itself.
+ */
+export const recordCountDecrement = <K>(
+  root: TreeNode<K>,
+  value: K,
+  keys: KeyContext<K>,
+  recorder: TreeStepRecorder<TreeNode<K>>
+): boolean => {
+  if (keys.duplicates !== 'count') return false;
+
+  const existing = root.search(value, keys.type.compare);
+  if (!existing || existing.count === 1) return false;
+
+  walkSearch(root, value, keys, recorder);
+  existing.count--;
+  recorder.restructure(root);
+  recorder.record(
+    `➖ ${keys.type.format(value)} occurred ${existing.count + 1} times → lower its count instead of removing the node`,
+    1000
+  );
+  recorder.clearHighlights(root);
+  return true;
+};
+
+/** Inserts `value` below the insertion point and records the walk down to it. */
+export const recordInsertion = <K>(
+  root: TreeNode<K> | null,
+  value: K,
+  keys: KeyContext<K>,
+  silent: boolean = false
+): TreeRecording<K> => {
+  const { format } = keys.type;
+  if (!root) {
+    const newRoot = new TreeNode(value);
+    newRoot.isSearchResult = true;
+    const recorder = new TreeStepRecorder(newRoot, silent);
+    recorder.record(`Created root node with value: ${format(value)}`, 1000, codeLine('insert', 'create'));
+    recorder.clearHighlights(newRoot);
+    return { steps: recorder.steps, result: newRoot };
+  }
+
+  const recorder = new TreeStepRecorder(root, silent);
+  recorder.clearHighlights(root);
+
+  if (recordDuplicateInsertion(root, value, keys, recorder)) {
+    return { steps: recorder.steps, result: root };
+  }
+
+  recorder.record(`🔄 Starting insertion of ${format(value)}`, 400, codeLine('insert', 'start'));
+  const path = walkToInsertionPoint(root, value, keys, recorder);
+
+  const parent = path[path.length - 1];
+  const inserted = new TreeNode(value);
+  if (goesLeft(keys, value, parent.value)) {
+    parent.left = inserted;
+  } else {
+    parent.right = inserted;
+  }
+  inserted.isSearchResult = true;
+  recorder.restructure(root);
+  recorder.record(`🎉 Inserting ${format(value)} at the correct position!`, 1000, codeLine('insert', 'attach'));
+
+  recorder.record(`✨ ${format(value)} successfully added! Tree maintains BST order.`, DEFAULT_STEP_DURATION, codeLine('insert', 'done'));
+  recorder.clearHighlights(root);
+  return { steps: recorder.steps, result: root };
+};
+
+/**
+ * Narrates the comparisons of a search for `value`. Returns the compared
+ * nodes, root first; the last one is the match when `value` was found.
+ */
+export const walkSearch = <K>(
+  root: TreeNode<K>,
+  value: K,
+  keys: KeyContext<K>,
+  recorder: TreeStepRecorder<TreeNode<K>>
+): TreeNode<K>[] => {
+  const { compare, format } = keys.type;
+  const path: TreeNode<K>[] = [];
+  let current: TreeNode<K> | null = root;
+  while (current) {
+    path.push(current);
+    current.isHighlighted = true;
+
+    const order = compare(value, current.value);
+    if (order === 0) {
+      current.isSearchResult = true;
+      recorder.record(`✅ Found ${format(value)}!`, DEFAULT_STEP_DURATION, codeLine('search', 'found'));
+      return path;
+    }
+
+    const goLeft: boolean = order < 0;
+    recorder.record(
+      `📍 ${format(value)} ${goLeft ? '<' : '>'} ${format(current.value)}, go ${goLeft ? 'left' : 'right'}`,
+      DEFAULT_STEP_DURATION,
+      codeLine('search', 'descend')
+    );
+    current.isHighlighted = false;
+    current.isVisited = true;
+    current = goLeft ? current.left : current.right;
+  }
+
+  recorder.record(`❌ Value ${format(value)} not found in tree`, DEFAULT_STEP_DURATION, codeLine('search', 'missing'));
+  return path;
+};
+
+/** Records a search for `value`. Searching never changes a plain BST, so the result is `root` itself. */
+export const recordSearch = <K>(
+  root: TreeNode<K>,
+  value: K,
+  keys: KeyContext<K>,
+  silent: boolean = false
+): TreeRecording<K> => {
+  const recorder = new TreeStepRecorder(root, silent);
+  recorder.clearHighlights(root);
+  recorder.record(`🔍 Searching for value: ${keys.type.format(value)}`, 400, codeLine('search', 'start'));
+  walkSearch(root, value, keys, recorder);
+  recorder.clearHighlights(root);
+  return { steps: recorder.steps, result: root };
+};
+
+/**
+ * Narrates a deletion without performing it: locating the node, explaining
+ * which of the three cases applies and the successor/predecessor search.
+ * Returns the path from the root to the node that will physically be removed
+ * (the target itself, or its replacement in the two-child case), or `null`
+ * when `value` is not in the tree.
+ */
+export const walkDeletion = <K>(
+  root: TreeNode<K>,
+  value: K,
+  keys: KeyContext<K>,
+  strategy: DeletionStrategy,
+  recorder: TreeStepRecorder<TreeNode<K>>
+): TreeNode<K>[] | null => {
+  const { compare, format } = keys.type;
+  const path: TreeNode<K>[] = [];
+
+  // Phase 1: locate the node, exactly like a search
+  let target: TreeNode<K> | null = root;
+  while (target) {
+    path.push(target);
+    target.isHighlighted = true;
+    recorder.record(`📍 Comparing ${format(value)} with ${format(target.value)}...`);
+
+    const order = compare(value, target.value);
+    if (order === 0) break;
+
+    target.isHighlighted = false;
+    target.isVisited = true;
+    if (order < 0) {
+      recorder.record(`✅ ${format(value)} < ${format(target.value)} → Go LEFT`, 400);
+      target = target.left;
+    } else {
+      recorder.record(`✅ ${format(value)} > ${format(target.value)} → Go RIGHT`, 400);
+      target = target.right;
+    }
+  }
+
+  if (!target) {
+    recorder.clearHighlights(root);
+    recorder.record(`❌ Value ${format(value)} not found in tree - nothing to delete`);
+    return null;
+  }
+
+  target.isHighlighted = false;
+  target.isSearchResult = true;
+  recorder.record(`🎯 Found ${format(value)}`);
+
+  // Phase 2: explain which of the three cases applies
+  if (!target.left && !target.right) {
+    recorder.record(`🍃 Case 1: ${format(value)} is a leaf → simply remove it`, 1000);
+    return path;
+  }
+
+  if (!target.left || !target.right) {
+    const child = (target.left ?? target.right)!;
+    child.isHighlighted = true;
+    recorder.record(`🔗 Case 2: ${format(value)} has one child (${format(child.value)})`);
+    recorder.record(`✂️ Splice: ${format(child.value)} takes the place of ${format(value)}`, 1000);
+    return path;
+  }
+
+  // Phase 3: two children, walk to the in-order successor or predecessor
+  const useSuccessor = strategy === 'successor';
+  recorder.record(
+    `🌿 Case 3: ${format(value)} has two children → find in-order ${useSuccessor ? 'successor (min of RIGHT subtree)' : 'predecessor (max of LEFT subtree)'}`
+  );
+
+  let replacement: TreeNode<K> = useSuccessor ? target.right : target.left;
+  recorder.record(`${useSuccessor ? '➡️' : '⬅️'} Step ${useSuccessor ? 'RIGHT' : 'LEFT'} once to ${format(replacement.value)}`, 400);
+  while (true) {
+    path.push(replacement);
+    replacement.isHighlighted = true;
+    const next: TreeNode<K> | null = useSuccessor ? replacement.left : replacement.right;
+    if (!next) break;
+
+    recorder.record(`${useSuccessor ? '⬅️' : '➡️'} ${format(replacement.value)} has a ${useSuccessor ? 'LEFT' : 'RIGHT'} child → keep going`);
+    replacement.isHighlighted = false;
+    replacement.isVisited = true;
+    replacement = next;
+  }
+
+  recorder.record(`🎯 ${useSuccessor ? 'Successor' : 'Predecessor'} is ${format(replacement.value)}`);
+  recorder.record(`🔁 Copy ${format(replacement.value)} into the node holding ${format(value)}`);
+
+  const orphan = useSuccessor ? replacement.right : replacement.left;
+  if (orphan) {
+    orphan.isVisited = true;
+    recorder.record(`✂️ Splice out old ${format(replacement.value)}: its child ${format(orphan.value)} moves up`, 1000);
+  } else {
+    recorder.record(`✂️ Remove old ${format(replacement.value)} (it was a leaf)`, 1000);
+  }
+  return path;
+};
+
+/** Deletes `value` from `root` and records the walkthrough. The result is the new root. */
+export const recordDeletion = <K>(
+  root: TreeNode<K>,
+  value: K,
+  keys: KeyContext<K>,
+  strategy: DeletionStrategy,
+  silent: boolean = false
+): TreeRecording<K> => {
+  const recorder = new TreeStepRecorder(root, silent);
+  recorder.clearHighlights(root);
+  recorder.record(`🗑️ Starting deletion of ${keys.type.format(value)}`, 400);
+
+  if (recordCountDecrement(root, value, keys, recorder)) {
+    return { steps: recorder.steps, result: root };
+  }
+
+  if (!walkDeletion(root, value, keys, strategy, recorder)) {
+    return { steps: recorder.steps, result: root };
+  }
+
+  recorder.clearHighlights(root);
+  const newRoot = root.delete(value, keys.type.compare, strategy);
+  recorder.restructure(newRoot);
+  recorder.record(`✅ Node ${keys.type.format(value)} successfully deleted!`);
+  return { steps: recorder.steps, result: newRoot };
+};
+
+/** Records a depth-first traversal; the result is the visiting order. */
+export const recordTraversal = <K>(
+  root: TreeNode<K>,
+  type: TraversalType,
+  keys: KeyContext<K>
+): Recording<TreeFrame<TreeNode<K>>, K[]> => {
+  const { format } = keys.type;
+  const recorder = new TreeStepRecorder(root);
+  recorder.clearHighlights(root);
+  recorder.record(`Starting ${type} traversal`, 400, codeLine(type, 'call'));
+
+  const visitedOrder: K[] = [];
+  const visit = (node: TreeNode<K>) => {
+    node.isHighlighted = true;
+    node.isVisited = true;
+    visitedOrder.push(node.value);
+    recorder.record(`👣 Visit ${format(node.value)}`, DEFAULT_STEP_DURATION, codeLine(type, 'visit'));
+    node.isHighlighted = false;
+  };
+
+  // The recursion runs on an explicit stack of calls, each at its next part, so that every call into a subtree is
+  // a step of its own and deep trees cannot overflow the call stack
+  const parts = RECURSIVE_ORDERS[type];
+  const calls: { node: TreeNode<K>; next: number }[] = [{ node: root, next: 0 }];
+  while (calls.length > 0) {
+    const call = calls[calls.length - 1];
+    if (call.next === parts.length) {
+      calls.pop();
+      continue;
+    }
+    const part = parts[call.next++];
+    if (part === 'visit') {
+      visit(call.node);
+      continue;
+    }
+    const child = call.node[part];
+    if (!child) continue;
+    call.node.isHighlighted = true;
+    recorder.record(
+      `⬇️ Go into the ${part} subtree of ${format(call.node.value)}: ${type}(${format(child.value)})`,
+      500,
+      codeLine(type, part)
+    );
+    call.node.isHighlighted = false;
+    calls.push({ node: child, next: 0 });
+  }
+
+  recorder.record(`${type} traversal result: ${visitedOrder.map(format).join(' → ')}`, 1000);
+  recorder.clearHighlights(root);
+  return { steps: recorder.steps, result: visitedOrder };
+};
@@ -0,0 +1,96 @@
+import type { Point } from './tidyLayout';
+
+export interface Bounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/** What part of the drawing is on screen: a centre in drawing units and how many units one pixel spans. */
+export interface CameraView {
+  cx: number;
+  cy: number;
+  scale: number;
+}
+
+// Beyond these the drawing is either a dot or a single blurry key
+export const MIN_SCALE = 0.05;
+export const MAX_SCALE = 4;
+// Drawing units per pixel when looking at one node, so keys are read at their natural size
+export const FOCUS_SCALE = 1;
+
+const clampScale = (scale: number): number => Math.max(MIN_SCALE, Math.min(MAX_SCALE, scale));
+
+/** The view that shows all of `bounds`, plus `padding` pixels around it, in a `width` × `height` viewport. */
+export const fitView = (bounds: Bounds, width: number, height: number, padding: number = 30): CameraView => ({
+  cx: (bounds.minX + bounds.maxX) / 2,
+  cy: (bounds.minY + bounds.maxY) / 2,
+  scale: clampScale(
+    Math.max(
+      (bounds.maxX - bounds.minX) / Math.max(1, width - 2 * padding),
+      (bounds.maxY - bounds.minY) / Math.max(1, height - 2 * padding)
+    )
+  ),
+});
+
+/** The SVG `viewBox` for a view, matching the viewport's aspect ratio. */
+export const viewBoxOf = (view: CameraView, width: number, height: number): string =>
+  `${view.cx - (view.scale * width) / 2} ${view.cy - (view.scale * height) / 2} ${view.scale * width} ${view.scale * height}`;
+
+/** Drawing coordinates under a pixel of the viewport. */
+export const toDrawing = (view: CameraView, pixel: Point, width: number, height: number): Point => ({
+  x: view.cx + (pixel.x - width / 2) * view.scale,
+  y: view.cy + (pixel.y - height / 2) * view.scale,
+});
+
+/** Zooms by `factor` (above 1 zooms in) while keeping the drawing under `anchor`, a viewport pixel, in place. */
+export const zoomView = (view: CameraView, factor: number, anchor: Point, width: number, height: number): CameraView => {
+  const scale = clampScale(view.scale / factor);
+  const fixed = toDrawing(view, anchor, width, height);
+  return {
+    cx: fixed.x - (anchor.x - width / 2) * scale,
+    cy: fixed.y - (anchor.y - height / 2) * scale,
+    scale,
+  };
+};
+
+/** Moves the drawing by `dx`, `dy` pixels, like dragging it. */
+export const panView = (view: CameraView, dx: number, dy: number): CameraView => ({
+  ...view,
+  cx: view.cx - dx * view.scale,
+  cy: view.cy - dy * view.scale,
+});
+
+/** Whether the view shows all of `bounds`. */
+export const viewContains = (view: CameraView, bounds: Bounds, width: number, height: number): boolean =>
+  bounds.minX >= view.cx - (view.scale * width) / 2 &&
+  bounds.maxX <= view.cx + (view.scale * width) / 2 &&
+  bounds.minY >= view.cy - (view.scale * height) / 2 &&
+  bounds.maxY <= view.cy + (view.scale * height) / 2;
+
+/** What the camera is asked to show; resolved into a concrete view against the current drawing. */
+export type CameraTarget =
+  | { kind: 'fit' }
+  | { kind: 'node'; id: number }
+  | { kind: 'free'; view: CameraView };
+
+/**
+ * The view for `target`. A node that is no longer in the drawing falls back
+ * to fitting everything, and focusing never zooms out further than fitting would.
+ */
+export const resolveView = (
+  target: CameraTarget,
+  bounds: Bounds,
+  width: number,
+  height: number,
+  locate: (id: number) => Point | null
+): CameraView => {
+  const fitted = fitView(bounds, width, height);
+  if (target.kind === 'free') return target.view;
+  if (target.kind === 'node') {
+    const position = locate(target.id);
+    if (position) return { cx: position.x, cy: position.y, scale: Math.min(fitted.scale, FOCUS_SCALE) };
+  }
+  return fitted;
+};
@@ -0,0 +1,558 @@
+/** Languages the code panel can show an algorithm in. */
+export type CodeLanguage = 'pseudocode' | 'typescript' | 'python' | 'java';
+
+export const CODE_LANGUAGES: Record<CodeLanguage, string> = {
+  pseudocode: 'Pseudocode',
+  typescript: 'TypeScript',
+  python: 'Python',
+  java: 'Java',
+};
+
+// The lines of each listing that recorded steps can point at
+interface ListingLines {
+  insert: 'empty' | 'create' | 'start' | 'duplicate' | 'compare' | 'slot' | 'attach' | 'done' | 'descend';
+  search: 'start' | 'found' | 'descend' | 'missing';
+  inorder: TraversalLine;
+  preorder: TraversalLine;
+  postorder: TraversalLine;
+  levelorder: 'start' | 'visit' | 'push';
+  zigzag: 'start' | 'level' | 'visit' | 'push';
+  'iterative-preorder': 'start' | 'visit' | 'push';
+  'iterative-inorder': 'start' | 'left' | 'visit' | 'right';
+  'iterative-postorder': 'start' | 'left' | 'visit' | 'right';
+}
+
+type TraversalLine = 'call' | 'visit' | 'left' | 'right';
+
+export type ListingId = keyof ListingLines;
+
+/** Where a recorded step is in the code of the algorithm it comes from. */
+export interface CodeLocation {
+  listing: ListingId;
+  line: string;
+}
+
+export const codeLine = <L extends ListingId>(listing: L, line: ListingLines[L]): CodeLocation => ({ listing, line });
+
+export interface CodeLine {
+  text: string;
+  // Steps at this line point at it by this id; several lines can share one
+  id?: string;
+}
+
+export interface CodeListing {
+  title: string;
+  code: Record<CodeLanguage, CodeLine[]>;
+}
+
+// Listings are written as plain text with a line's id, if it has one, after a § at its end
+const parseListing = (source: string): CodeLine[] =>
+  source
+    .replace(/^\n/, '')
+    .trimEnd()
+    .split('\n')
+    .map(line => {
+      const match = /^(.*?)\s*§(\w+)$/.exec(line);
+      return match ? { text: match[1], id: match[2] } : { text: line };
+    });
+
+const INSERT: Record<CodeLanguage, string> = {
+  pseudocode: `
+insert(root, key)
+  if root = null                                   §empty
+    return new Node(key)                           §create
+  node ← root                                      §start
+  loop
+    if key = node.key and duplicates are not kept  §duplicate
+      return root
+    side ← left if key < node.key, else right      §compare
+    if node.side = null                            §slot
+      node.side ← new Node(key)                    §attach
+      return root                                  §done
+    node ← node.side                               §descend
+`,
+  typescript: `
+function insert<K>(root: Node<K> | null, key: K): Node<K> {
+  if (root === null) {                                  §empty
+    return new Node(key);                               §create
+  }
+  let node = root;                                      §start
+  while (true) {
+    if (key === node.key && !keepsDuplicates) {         §duplicate
+      return root;
+    }
+    const side = key < node.key ? 'left' : 'right';     §compare
+    const child = node[side];
+    if (child === null) {                               §slot
+      node[side] = new Node(key);                       §attach
+      return root;                                      §done
+    }
+    node = child;                                       §descend
+  }
+}
+`,
+  python: `
+def insert(root, key):
+    if root is None:                                    §empty
+        return Node(key)                                §create
+    node = root                                         §start
+    while True:
+        if key == node.key and not keeps_duplicates:    §duplicate
+            return root
+        side = "left" if key < node.key else "right"    §compare
+        child = getattr(node, side)
+        if child is None:                               §slot
+            setattr(node, side, Node(key))              §attach
+            return root                                 §done
+        node = child                                    §descend
+`,
+  java: `
+<K extends Comparable<K>> Node<K> insert(Node<K> root, K key) {
+    if (root == null) {                                 §empty
+        return new Node<>(key);                         §create
+    }
+    Node<K> node = root;                                §start
+    while (true) {
+        int order = key.compareTo(node.key);
+        if (order == 0 && !keepsDuplicates) {           §duplicate
+            return root;
+        }
+        boolean goLeft = order < 0;                     §compare
+        Node<K> child = goLeft ? node.left : node.right;
+        if (child == null) {                            §slot
+            if (goLeft) node.left = new Node<>(key);    §attach
+            else node.right = new Node<>(key);          §attach
+            return root;                                §done
+        }
+        node = child;                                   §descend
+    }
+}
+`,
+};
+
+const SEARCH: Record<CodeLanguage, string> = {
+  pseudocode: `
+search(root, key)
+  node ← root                                      §start
+  while node ≠ null
+    if key = node.key                              §found
+      return node
+    node ← node.left if key < node.key, else node.right   §descend
+  return null                                      §missing
+`,
+  typescript: `
+function search<K>(root: Node<K> | null, key: K): Node<K> | null {
+  let node = root;                                      §start
+  while (node !== null) {
+    if (key === node.key) {                             §found
+      return node;
+    }
+    node = key < node.key ? node.left : node.right;     §descend
+  }
+  return null;                                          §missing
+}
+`,
+  python: `
+def search(root, key):
+    node = root                                         §start
+    while node is not None:
+        if key == node.key:                             §found
+            return node
+        node = node.left if key < node.key else node.right   §descend
+    return None                                         §missing
+`,
+  java: `
+<K extends Comparable<K>> Node<K> search(Node<K> root, K key) {
+    Node<K> node = root;                                §start
+    while (node != null) {
+        int order = key.compareTo(node.key);
+        if (order == 0) {                               §found
+            return node;
+        }
+        node = order < 0 ? node.left : node.right;      §descend
+    }
+    return null;                                        §missing
+}
+`,
+};
+
+export type TraversalPart = 'left' | 'visit' | 'right';
+
+/** The three depth-first traversals differ only in where the visit goes between the two recursive calls. */
+export const RECURSIVE_ORDERS: Record<'inorder' | 'preorder' | 'postorder', TraversalPart[]> = {
+  inorder: ['left', 'visit', 'right'],
+  preorder: ['visit', 'left', 'right'],
+  postorder: ['left', 'right', 'visit'],
+};
+
+const traversalCode = (names: Record<CodeLanguage, string>, order: TraversalPart[]): Record<CodeLanguage, string> => {
+  const body = (language: CodeLanguage, indent: string, end: string) =>
+    order
+      .map(part =>
+        part === 'visit'
+          ? `${indent}visit(node)${end}                §visit`
+          : `${indent}${names[language]}(node.${part})${end}          §${part}`
+      )
+      .join('\n');
+  return {
+    pseudocode: `
+${names.pseudocode}(node)                        §call
+  if node = null: return
+${body('pseudocode', '  ', '')}
+`,
+    typescript: `
+function ${names.typescript}<K>(node: Node<K> | null): void {   §call
+  if (node === null) return;
+${body('typescript', '  ', ';')}
+}
+`,
+    python: `
+def ${names.python}(node):                       §call
+    if node is None:
+        return
+${body('python', '    ', '')}
+`,
+    java: `
+<K> void ${names.java}(Node<K> node) {           §call
+    if (node == null) return;
+${body('java', '    ', ';')}
+}
+`,
+  };
+};
+
+// The traversals driven by an explicit queue, deque or stack, as the work-list recordings run them
+
+const LEVEL_ORDER: Record<CodeLanguage, string> = {
+  pseudocode: `
+levelorder(root)
+  queue ← [root]                                   §start
+  while queue is not empty
+    node ← queue.removeFirst()                     §visit
+    visit(node)                                    §visit
+    if node.left ≠ null: queue.addLast(node.left)  §push
+    if node.right ≠ null: queue.addLast(node.right)   §push
+`,
+  typescript: `
+function levelOrder<K>(root: Node<K>): void {
+  const queue = [root];                                 §start
+  while (queue.length > 0) {
+    const node = queue.shift()!;                        §visit
+    visit(node);                                        §visit
+    if (node.left) queue.push(node.left);               §push
+    if (node.right) queue.push(node.right);             §push
+  }
+}
+`,
+  python: `
+def level_order(root):
+    queue = deque([root])                               §start
+    while queue:
+        node = queue.popleft()                          §visit
+        visit(node)                                     §visit
+        if node.left:
+            queue.append(node.left)                     §push
+        if node.right:
+            queue.append(node.right)                    §push
+`,
+  java: `
+<K> void levelOrder(Node<K> root) {
+    Deque<Node<K>> queue = new ArrayDeque<>();
+    queue.addLast(root);                                §start
+    while (!queue.isEmpty()) {
+        Node<K> node = queue.removeFirst();             §visit
+        visit(node);                                    §visit
+        if (node.left != null) queue.addLast(node.left);      §push
+        if (node.right != null) queue.addLast(node.right);    §push
+    }
+}
+`,
+};
+
+const ZIGZAG: Record<CodeLanguage, string> = {
+  pseudocode: `
+zigzag(root)
+  deque ← [root]                                   §start
+  leftToRight ← true
+  while deque is not empty
+    next ← []                                      §level
+    repeat size(deque) times
+      node ← deque.removeFirst() if leftToRight, else deque.removeLast()   §visit
+      visit(node)                                  §visit
+      children ← (node.left, node.right) if leftToRight, else (node.right, node.left)
+      add the children that are not null to next
+    if leftToRight: add next at the back of deque  §push
+    else: add reverse(next) at the front of deque  §push
+    leftToRight ← not leftToRight
+`,
+  typescript: `
+function zigzag<K>(root: Node<K>): void {
+  const deque = [root];                                 §start
+  for (let leftToRight = true; deque.length > 0; leftToRight = !leftToRight) {
+    const next: Node<K>[] = [];                         §level
+    for (let remaining = deque.length; remaining > 0; remaining--) {
+      const node = leftToRight ? deque.shift()! : deque.pop()!;   §visit
+      visit(node);                                      §visit
+      const children = leftToRight ? [node.left, node.right] : [node.right, node.left];
+      for (const child of children) if (child) next.push(child);
+    }
+    if (leftToRight) deque.push(...next);               §push
+    else deque.unshift(...next.reverse());              §push
+  }
+}
+`,
+  python: `
+def zigzag(root):
+    dq = deque([root])                                  §start
+    left_to_right = True
+    while dq:
+        nxt = []                                        §level
+        for _ in range(len(dq)):
+            node = dq.popleft() if left_to_right else dq.pop()   §visit
+            visit(node)                                 §visit
+            children = (node.left, node.right) if left_to_right else (node.right, node.left)
+            nxt.extend(child for child in children if child)
+        if left_to_right:
+            dq.extend(nxt)                              §push
+        else:
+            dq.extendleft(nxt)                          §push
+        left_to_right = not left_to_right
+`,
+  java: `
+<K> void zigzag(Node<K> root) {
+    Deque<Node<K>> deque = new ArrayDeque<>();
+    deque.addLast(root);                                §start
+    for (boolean leftToRight = true; !deque.isEmpty(); leftToRight = !leftToRight) {
+        List<Node<K>> next = new ArrayList<>();         §level
+        for (int remaining = deque.size(); remaining > 0; remaining--) {
+            Node<K> node = leftToRight ? deque.removeFirst() : deque.removeLast();   §visit
+            visit(node);                                §visit
+            Node<K> first = leftToRight ? node.left : node.right;
+            Node<K> second = leftToRight ? node.right : node.left;
+            if (first != null) next.add(first);
+            if (second != null) next.add(second);
+        }
+        for (Node<K> child : next) {
+            if (leftToRight) deque.addLast(child);      §push
+            else deque.addFirst(child);                 §push
+        }
+    }
+}
+`,
+};
+
+const ITERATIVE_PREORDER: Record<CodeLanguage, string> = {
+  pseudocode: `
+iterativePreorder(root)
+  stack ← [root]                                   §start
+  while stack is not empty
+    node ← stack.pop()                             §visit
+    visit(node)                                    §visit
+    if node.right ≠ null: stack.push(node.right)   §push
+    if node.left ≠ null: stack.push(node.left)     §push
+`,
+  typescript: `
+function iterativePreorder<K>(root: Node<K>): void {
+  const stack = [root];                                 §start
+  while (stack.length > 0) {
+    const node = stack.pop()!;                          §visit
+    visit(node);                                        §visit
+    if (node.right) stack.push(node.right);             §push
+    if (node.left) stack.push(node.left);               §push
+  }
+}
+`,
+  python: `
+def iterative_preorder(root):
+    stack = [root]                                      §start
+    while stack:
+        node = stack.pop()                              §visit
+        visit(node)                                     §visit
+        if node.right:
+            stack.append(node.right)                    §push
+        if node.left:
+            stack.append(node.left)                     §push
+`,
+  java: `
+<K> void iterativePreorder(Node<K> root) {
+    Deque<Node<K>> stack = new ArrayDeque<>();
+    stack.push(root);                                   §start
+    while (!stack.isEmpty()) {
+        Node<K> node = stack.pop();                     §visit
+        visit(node);                                    §visit
+        if (node.right != null) stack.push(node.right); §push
+        if (node.left != null) stack.push(node.left);   §push
+    }
+}
+`,
+};
+
+const ITERATIVE_INORDER: Record<CodeLanguage, string> = {
+  pseudocode: `
+iterativeInorder(root)
+  stack ← [], node ← root                          §start
+  while node ≠ null or stack is not empty
+    while node ≠ null
+      stack.push(node)                             §left
+      node ← node.left                             §left
+    node ← stack.pop()                             §visit
+    visit(node)                                    §visit
+    node ← node.right                              §right
+`,
+  typescript: `
+function iterativeInorder<K>(root: Node<K>): void {
+  const stack: Node<K>[] = [];
+  let node: Node<K> | null = root;                      §start
+  while (node !== null || stack.length > 0) {
+    while (node !== null) {
+      stack.push(node);                                 §left
+      node = node.left;                                 §left
+    }
+    const top = stack.pop()!;                           §visit
+    visit(top);                                         §visit
+    node = top.right;                                   §right
+  }
+}
+`,
+  python: `
+def iterative_inorder(root):
+    stack = []
+    node = root                                         §start
+    while node or stack:
+        while node:
+            stack.append(node)                          §left
+            node = node.left                            §left
+        top = stack.pop()                               §visit
+        visit(top)                                      §visit
+        node = top.right                                §right
+`,
+  java: `
+<K> void iterativeInorder(Node<K> root) {
+    Deque<Node<K>> stack = new ArrayDeque<>();
+    Node<K> node = root;                                §start
+    while (node != null || !stack.isEmpty()) {
+        while (node != null) {
+            stack.push(node);                           §left
+            node = node.left;                           §left
+        }
+        Node<K> top = stack.pop();                      §visit
+        visit(top);                                     §visit
+        node = top.right;                               §right
+    }
+}
+`,
+};
+
+const ITERATIVE_POSTORDER: Record<CodeLanguage, string> = {
+  pseudocode: `
+iterativePostorder(root)
+  stack ← [], node ← root, last ← null             §start
+  while node ≠ null or stack is not empty
+    if node ≠ null
+      stack.push(node)                             §left
+      node ← node.left                             §left
+    else
+      top ← stack.peek()
+      if top.right ≠ null and top.right ≠ last     §right
+        node ← top.right                           §right
+      else
+        stack.pop()                                §visit
+        visit(top)                                 §visit
+        last ← top                                 §visit
+`,
+  typescript: `
+function iterativePostorder<K>(root: Node<K>): void {
+  const stack: Node<K>[] = [];
+  let node: Node<K> | null = root;                      §start
+  let last: Node<K> | null = null;
+  while (node !== null || stack.length > 0) {
+    if (node !== null) {
+      stack.push(node);                                 §left
+      node = node.left;                                 §left
+      continue;
+    }
+    const top = stack[stack.length - 1];
+    if (top.right !== null && top.right !== last) {     §right
+      node = top.right;                                 §right
+    } else {
+      stack.pop();                                      §visit
+      visit(top);                                       §visit
+      last = top;                                       §visit
+    }
+  }
+}
+`,
+  python: `
+def iterative_postorder(root):
+    stack = []
+    node, last = root, None                             §start
+    while node or stack:
+        if node:
+            stack.append(node)                          §left
+            node = node.left                            §left
+            continue
+        top = stack[-1]
+        if top.right and top.right is not last:         §right
+            node = top.right                            §right
+        else:
+            stack.pop()                                 §visit
+            visit(top)                                  §visit
+            last = top                                  §visit
+`,
+  java: `
+<K> void iterativePostorder(Node<K> root) {
+    Deque<Node<K>> stack = new ArrayDeque<>();
+    Node<K> node = root, last = null;                   §start
+    while (node != null || !stack.isEmpty()) {
+        if (node != null) {
+            stack.push(node);                           §left
+            node = node.left;                           §left
+            continue;
+        }
+        Node<K> top = stack.peek();
+        if (top.right != null && top.right != last) {   §right
+            node = top.right;                           §right
+        } else {
+            stack.pop();                                §visit
+            visit(top);                                 §visit
+            last = top;                                 §visit
+        }
+    }
+}
+`,
+};
+
+const parseListings = (code: Record<CodeLanguage, string>): Record<CodeLanguage, CodeLine[]> => ({
+  pseudocode: parseListing(code.pseudocode),
+  typescript: parseListing(code.typescript),
+  python: parseListing(code.python),
+  java: parseListing(code.java),
+});
+
+export const CODE_LISTINGS: Record<ListingId, CodeListing> = {
+  insert: { title: 'BST insertion', code: parseListings(INSERT) },
+  search: { title: 'BST search', code: parseListings(SEARCH) },
+  inorder: {
+    title: 'In-order traversal',
+    code: parseListings(
+      traversalCode({ pseudocode: 'inorder', typescript: 'inOrder', python: 'in_order', java: 'inOrder' }, RECURSIVE_ORDERS.inorder)
+    ),
+  },
+  preorder: {
+    title: 'Pre-order traversal',
+    code: parseListings(
+      traversalCode({ pseudocode: 'preorder', typescript: 'preOrder', python: 'pre_order', java: 'preOrder' }, RECURSIVE_ORDERS.preorder)
+    ),
+  },
+  postorder: {
+    title: 'Post-order traversal',
+    code: parseListings(
+      traversalCode({ pseudocode: 'postorder', typescript: 'postOrder', python: 'post_order', java: 'postOrder' }, RECURSIVE_ORDERS.postorder)
+    ),
+  },
+  levelorder: { title: 'Level-order traversal with a queue', code: parseListings(LEVEL_ORDER) },
+  zigzag: { title: 'Zigzag level-order traversal with a deque', code: parseListings(ZIGZAG) },
+  'iterative-preorder': { title: 'Iterative pre-order traversal with a stack', code: parseListings(ITERATIVE_PREORDER) },
+  'iterative-inorder': { title: 'Iterative in-order traversal with a stack', code: parseListings(ITERATIVE_INORDER) },
+  'iterative-postorder': { title: 'Iterative post-order traversal with a stack', code: parseListings(ITERATIVE_POSTORDER) },
+};
@@ -0,0 +1,68 @@
+/** An operation the command palette can run. */
+export interface Command {
+  id: string;
+  label: string;
+  // Heading the command is listed under
+  group: string;
+  // Commands on a key take it from what is typed after their first word, as in "insert 42"
+  takesKey?: boolean;
+  // Key label of the shortcut that does the same, shown beside the command
+  shortcut?: string;
+  disabled?: boolean;
+  // Receives the typed key, or an empty string to use the key field's
+  run: (argument: string) => void;
+}
+
+export interface CommandMatch {
+  command: Command;
+  argument: string;
+  score: number;
+}
+
+const isWordStart = (text: string, index: number): boolean => index === 0 || !/[a-z0-9]/i.test(text[index - 1]);
+
+/**
+ * How well `query` matches `text`, ignoring case: every character of the query
+ * has to appear in the text in order, and runs of adjacent characters and
+ * characters that start a word score higher. Null when it does not match.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let previous = -1;
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const index = haystack.indexOf(char, previous + 1);
+    if (index < 0) return null;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (isWordStart(haystack, index)) score += 3;
+    previous = index;
+  }
+  // Among equal matches, the shorter text is the closer one
+  return score - text.length / 100;
+};
+
+/** The commands that match `query`, best first; a query that matches nothing yet lists every command. */
+export const matchCommands = (commands: Command[], query: string): CommandMatch[] => {
+  const text = query.trim();
+  if (!text) return commands.map(command => ({ command, argument: '', score: 0 }));
+
+  const firstSpace = text.search(/\s/);
+  const head = firstSpace < 0 ? text : text.slice(0, firstSpace);
+  const rest = firstSpace < 0 ? '' : text.slice(firstSpace).trim();
+  const matches: CommandMatch[] = [];
+  for (const command of commands) {
+    // "insert 42" is the Insert command on 42, but "insert" alone still matches "Insert key"
+    const withKey = command.takesKey && rest ? fuzzyScore(head, command.label) : null;
+    if (withKey !== null) {
+      matches.push({ command, argument: rest, score: withKey });
+      continue;
+    }
+    const score = fuzzyScore(text, command.label);
+    if (score !== null) matches.push({ command, argument: '', score });
+  }
+  // Sorting is stable, so equally good matches keep the order the commands are listed in
+  return matches.sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,83 @@
+import type { KeyType } from './keys';
+
+/** A generated sequence of keys, named by the order it inserts them in. */
+export type DataSetKind = 'random' | 'ascending' | 'descending' | 'zigzag' | 'balanced';
+
+export const DATA_SETS: Record<DataSetKind, { label: string; description: string }> = {
+  random: { label: 'Random', description: 'Distinct keys in random order; the same seed gives the same keys' },
+  ascending: { label: 'Ascending', description: 'Smallest first, which turns a plain BST into a chain leaning right' },
+  descending: { label: 'Descending', description: 'Largest first, which turns a plain BST into a chain leaning left' },
+  zigzag: {
+    label: 'Zig-zag',
+    description: 'Smallest and largest left in turn, which makes a plain BST zig-zag down a single path',
+  },
+  balanced: {
+    label: 'Balanced order',
+    description: 'Medians first, level by level, which makes a plain BST come out perfectly balanced',
+  },
+};
+
+export const MAX_DATA_SET_SIZE = 10000;
+
+// Random keys are drawn from ten times as many ranks as there are keys, so they are spread out but rarely collide
+const RANDOM_SPREAD = 10;
+
+/** Mulberry32: a small, fast generator of numbers in [0, 1) that always gives the same run for the same seed. */
+export const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** A seed to offer when the user has not picked one. */
+export const randomSeed = (): number => Math.floor(Math.random() * 1000000);
+
+// The ranks of `size` keys in insertion order, and the largest rank any of them could have
+const generateRanks = (kind: DataSetKind, size: number, seed: number): { ranks: number[]; largest: number } => {
+  const ranks: number[] = [];
+  if (kind === 'random') {
+    const largest = size * RANDOM_SPREAD;
+    const random = seededRandom(seed);
+    const drawn = new Set<number>();
+    while (ranks.length < size) {
+      const rank = 1 + Math.floor(random() * largest);
+      if (drawn.has(rank)) continue;
+      drawn.add(rank);
+      ranks.push(rank);
+    }
+    return { ranks, largest };
+  }
+
+  if (kind === 'ascending') {
+    for (let rank = 1; rank <= size; rank++) ranks.push(rank);
+  } else if (kind === 'descending') {
+    for (let rank = size; rank >= 1; rank--) ranks.push(rank);
+  } else if (kind === 'zigzag') {
+    for (let low = 1, high = size; low <= high; low++, high--) {
+      ranks.push(low);
+      if (high !== low) ranks.push(high);
+    }
+  } else {
+    // The middle of every range before the middles of its halves, one level at a time
+    const ranges: [number, number][] = [[1, size]];
+    for (let i = 0; i < ranges.length; i++) {
+      const [low, high] = ranges[i];
+      if (low > high) continue;
+      const middle = Math.floor((low + high) / 2);
+      ranks.push(middle);
+      ranges.push([low, middle - 1], [middle + 1, high]);
+    }
+  }
+  return { ranks, largest: size };
+};
+
+/** `size` keys of `type` in the insertion order of `kind`. Only random data sets use the seed. */
+export const generateKeys = <K>(kind: DataSetKind, size: number, seed: number, type: KeyType<K>): K[] => {
+  const { ranks, largest } = generateRanks(kind, size, seed);
+  return ranks.map(rank => type.generate(rank, largest));
+};
@@ -0,0 +1,236 @@
+import { DEFAULT_STEP_DURATION, type AlgorithmStep, type Recording } from './steps';
+
+export type HeapKind = 'min' | 'max';
+
+/** Highlight state of a heap at one step, keyed by array index so both views can share it. */
+export interface HeapFrame {
+  values: readonly number[];
+  highlighted: ReadonlySet<number>;
+  visited: ReadonlySet<number>;
+  found: ReadonlySet<number>;
+}
+
+/** Steps of a heap operation; the result is the new backing array. */
+export type HeapRecording = Recording<HeapFrame, number[]>;
+
+export const parentIndex = (index: number): number => Math.floor((index - 1) / 2);
+export const leftIndex = (index: number): number => 2 * index + 1;
+export const rightIndex = (index: number): number => 2 * index + 2;
+
+const EMPTY_INDICES: ReadonlySet<number> = new Set();
+
+/** A frame that shows `values` without any highlights. */
+export const staticHeapFrame = (values: readonly number[]): HeapFrame => ({
+  values,
+  highlighted: EMPTY_INDICES,
+  visited: EMPTY_INDICES,
+  found: EMPTY_INDICES,
+});
+
+/** Whether `a` belongs above `b` in a heap of `kind`. */
+const outranks = (kind: HeapKind, a: number, b: number): boolean => (kind === 'min' ? a < b : a > b);
+
+const comparison = (kind: HeapKind, a: number, b: number): string =>
+  outranks(kind, a, b) ? `${a} ${kind === 'min' ? '<' : '>'} ${b}` : `${a} ${kind === 'min' ? '≥' : '≤'} ${b}`;
+
+interface HeapMarks {
+  highlighted?: number[];
+  visited?: number[];
+  found?: number[];
+}
+
+/** Snapshots the backing array at every step, together with the indices to highlight. */
+class HeapStepRecorder {
+  readonly steps: AlgorithmStep<HeapFrame>[] = [];
+  private readonly heap: number[];
+
+  constructor(heap: number[]) {
+    this.heap = heap;
+  }
+
+  record(message: string, marks: HeapMarks = {}, duration: number = DEFAULT_STEP_DURATION): void {
+    this.steps.push({
+      message,
+      duration,
+      frame: {
+        values: [...this.heap],
+        highlighted: new Set(marks.highlighted),
+        visited: new Set(marks.visited),
+        found: new Set(marks.found),
+      },
+    });
+  }
+}
+
+const swap = (heap: number[], i: number, j: number): void => {
+  [heap[i], heap[j]] = [heap[j], heap[i]];
+};
+
+/** Swaps the element at `index` with its parent while it outranks it. Returns its final index. */
+const siftUp = (heap: number[], index: number, kind: HeapKind, recorder: HeapStepRecorder): number => {
+  let current = index;
+
+  while (current > 0) {
+    const parent = parentIndex(current);
+    if (!outranks(kind, heap[current], heap[parent])) {
+      recorder.record(
+        `✓ Parent [${parent}] = ${heap[parent]}: ${comparison(kind, heap[current], heap[parent])} → heap order holds`,
+        { highlighted: [current, parent] }
+      );
+      return current;
+    }
+
+    recorder.record(
+      `⬆️ Sift up: ${comparison(kind, heap[current], heap[parent])} → swap [${current}] with parent [${parent}]`,
+      { highlighted: [current, parent] },
+      1000
+    );
+    swap(heap, current, parent);
+    recorder.record(`🔄 ${heap[parent]} moved up to index ${parent}`, { visited: [current], highlighted: [parent] });
+    current = parent;
+  }
+
+  recorder.record(`🔝 ${heap[0]} reached the root`, { found: [0] });
+  return current;
+};
+
+/** Swaps the element at `index` with its best child while that child outranks it. Returns its final index. */
+const siftDown = (heap: number[], index: number, kind: HeapKind, recorder: HeapStepRecorder): number => {
+  let current = index;
+
+  while (leftIndex(current) < heap.length) {
+    const left = leftIndex(current);
+    const right = rightIndex(current);
+    const best = right < heap.length && outranks(kind, heap[right], heap[left]) ? right : left;
+    const children = right < heap.length ? [left, right] : [left];
+
+    recorder.record(
+      right < heap.length
+        ? `👀 Children of [${current}] = ${heap[current]}: ${heap[left]} and ${heap[right]} → ${heap[best]} is the ${kind === 'min' ? 'smaller' : 'larger'}`
+        : `👀 [${current}] = ${heap[current]} has a single child ${heap[left]}`,
+      { highlighted: [current], visited: children },
+      600
+    );
+
+    if (!outranks(kind, heap[best], heap[current])) {
+      recorder.record(
+        `✓ ${comparison(kind, heap[current], heap[best])} → heap order holds`,
+        { highlighted: [current, best] }
+      );
+      return current;
+    }
+
+    recorder.record(
+      `⬇️ Sift down: ${comparison(kind, heap[best], heap[current])} → swap [${current}] with child [${best}]`,
+      { highlighted: [current, best] },
+      1000
+    );
+    swap(heap, current, best);
+    recorder.record(`🔄 ${heap[best]} moved down to index ${best}`, { visited: [current], highlighted: [best] });
+    current = best;
+  }
+
+  recorder.record(`🍃 ${heap[current]} is a leaf at index ${current}`, { found: [current] });
+  return current;
+};
+
+/** Appends `value` as the last leaf and sifts it up. */
+export const recordHeapInsertion = (values: readonly number[], value: number, kind: HeapKind): HeapRecording => {
+  const heap = [...values];
+  const recorder = new HeapStepRecorder(heap);
+
+  recorder.record(`🔄 Starting ${kind}-heap insertion of ${value}`, {}, 400);
+  heap.push(value);
+  const index = heap.length - 1;
+  recorder.record(`🎉 Appended ${value} at index ${index}, the next free leaf`, { highlighted: [index] }, 1000);
+
+  const finalIndex = siftUp(heap, index, kind, recorder);
+  recorder.record(`✨ ${value} successfully added at index ${finalIndex}!`, { found: [finalIndex] });
+  return { steps: recorder.steps, result: heap };
+};
+
+/** Removes the root, moves the last leaf into its place and sifts it down. */
+export const recordHeapExtraction = (values: readonly number[], kind: HeapKind): HeapRecording => {
+  const heap = [...values];
+  const recorder = new HeapStepRecorder(heap);
+  const label = kind === 'min' ? 'minimum' : 'maximum';
+
+  if (heap.length === 0) {
+    recorder.record(`❌ The heap is empty - nothing to extract`);
+    return { steps: recorder.steps, result: heap };
+  }
+
+  const top = heap[0];
+  recorder.record(`🎯 The ${label} is always at the root: ${top}`, { found: [0] }, 1000);
+
+  if (heap.length === 1) {
+    heap.pop();
+    recorder.record(`✅ Extracted ${top}; the heap is now empty`);
+    return { steps: recorder.steps, result: heap };
+  }
+
+  const last = heap.length - 1;
+  recorder.record(`🔁 Move the last leaf [${last}] = ${heap[last]} into the root`, { highlighted: [0, last] }, 1000);
+  heap[0] = heap[last];
+  heap.pop();
+  recorder.record(`✂️ Removed ${top}; ${heap[0]} is now at the root`, { highlighted: [0] });
+
+  siftDown(heap, 0, kind, recorder);
+  recorder.record(`✅ Extracted ${label} ${top}!`);
+  return { steps: recorder.steps, result: heap };
+};
+
+/**
+ * Changes the key at `index` to `value` and restores heap order. Moving a key
+ * towards the root (decrease-key in a min-heap, increase-key in a max-heap)
+ * sifts it up; the opposite change sifts it down.
+ */
+export const recordKeyChange = (
+  values: readonly number[],
+  index: number,
+  value: number,
+  kind: HeapKind
+): HeapRecording => {
+  const heap = [...values];
+  const recorder = new HeapStepRecorder(heap);
+  const old = heap[index];
+
+  recorder.record(`✏️ Change key [${index}] from ${old} to ${value}`, { highlighted: [index] }, 1000);
+  heap[index] = value;
+
+  let finalIndex: number;
+  if (outranks(kind, old, value)) {
+    recorder.record(`💡 ${value} ranks below the old key ${old} → it can only need to sift down`, { highlighted: [index] });
+    finalIndex = siftDown(heap, index, kind, recorder);
+  } else {
+    recorder.record(`💡 ${value} ranks at least as high as the old key ${old} → it can only need to sift up`, { highlighted: [index] });
+    finalIndex = siftUp(heap, index, kind, recorder);
+  }
+
+  recorder.record(`✅ Key updated; ${value} settled at index ${finalIndex}`, { found: [finalIndex] });
+  return { steps: recorder.steps, result: heap };
+};
+
+/** Floyd's bottom-up heap construction: sifts down every internal node, last one first. */
+export const recordHeapify = (values: readonly number[], kind: HeapKind): HeapRecording => {
+  const heap = [...values];
+  const recorder = new HeapStepRecorder(heap);
+
+  recorder.record(`🧱 Heapify [${heap.join(', ')}] into a ${kind}-heap`, {}, 1000);
+  const lastInternal = parentIndex(heap.length - 1);
+  if (heap.length > 1) {
+    recorder.record(
+      `💡 Leaves are already heaps → sift down internal nodes from index ${lastInternal} back to 0`,
+      { visited: Array.from({ length: lastInternal + 1 }, (_, i) => i) },
+      1000
+    );
+  }
+
+  for (let index = lastInternal; index >= 0; index--) {
+    recorder.record(`📍 Fix the subtree rooted at [${index}] = ${heap[index]}`, { highlighted: [index] }, 600);
+    siftDown(heap, index, kind, recorder);
+  }
+
+  recorder.record(`✨ Heap built in O(n): every parent ${kind === 'min' ? '≤' : '≥'} its children`);
+  return { steps: recorder.steps, result: heap };
+};
@@ -0,0 +1,213 @@
+import type React from 'react';
+import type { Bounds } from './camera';
+
+/** The theme colors a drawing uses besides its fixed state colors. */
+export interface TreePalette {
+  background: string;
+  foreground: string;
+  primary: string;
+  primaryForeground: string;
+  muted: string;
+  mutedForeground: string;
+  border: string;
+}
+
+const PALETTE_VARIABLES: Record<keyof TreePalette, string> = {
+  background: '--background',
+  foreground: '--foreground',
+  primary: '--primary',
+  primaryForeground: '--primary-foreground',
+  muted: '--muted',
+  mutedForeground: '--muted-foreground',
+  border: '--border',
+};
+
+// A palette with each color worked out from the CSS variable behind it
+const mapPalette = (color: (variable: string) => string): TreePalette => {
+  const palette = { ...PALETTE_VARIABLES };
+  for (const key of Object.keys(PALETTE_VARIABLES) as (keyof TreePalette)[]) {
+    palette[key] = color(PALETTE_VARIABLES[key]);
+  }
+  return palette;
+};
+
+/** The palette for drawings on the page, which follow the theme as it changes. */
+export const CSS_PALETTE = mapPalette(variable => `var(${variable})`);
+
+/**
+ * The theme colors in effect at `element` as plain rgb() values. The theme
+ * defines them in oklch, which many SVG editors and slide programs cannot
+ * read, so each one is painted onto a one-pixel canvas and read back.
+ */
+export const resolvePalette = (element: Element = document.documentElement): TreePalette => {
+  const style = getComputedStyle(element);
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  const context = canvas.getContext('2d', { willReadFrequently: true })!;
+
+  const toRgb = (color: string): string => {
+    context.clearRect(0, 0, 1, 1);
+    context.fillStyle = color;
+    context.fillRect(0, 0, 1, 1);
+    const [r, g, b, a] = context.getImageData(0, 0, 1, 1).data;
+    return a === 255 ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${(a / 255).toFixed(2)})`;
+  };
+
+  return mapPalette(variable => toRgb(style.getPropertyValue(variable).trim()));
+};
+
+/** A standalone SVG document and its size in CSS pixels. */
+export interface StillImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const EXPORT_PADDING = 40;
+const CAPTION_HEIGHT = 48;
+// Captions are single lines, so images of narrow trees are widened to fit them
+const MIN_CAPTIONED_WIDTH = 640;
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Serializes `drawing` into a self-contained SVG document covering `bounds`
+ * plus a margin, on the palette's background and with an optional caption
+ * underneath. React's server renderer is only loaded the first time.
+ */
+export const standaloneSvg = async (
+  drawing: React.ReactElement,
+  bounds: Bounds,
+  palette: TreePalette,
+  caption?: string
+): Promise<StillImage> => {
+  const { renderToStaticMarkup } = await import('react-dom/server');
+
+  const treeWidth = bounds.maxX - bounds.minX + 2 * EXPORT_PADDING;
+  const treeHeight = bounds.maxY - bounds.minY + 2 * EXPORT_PADDING;
+  const width = Math.ceil(caption === undefined ? treeWidth : Math.max(treeWidth, MIN_CAPTIONED_WIDTH));
+  const height = Math.ceil(treeHeight + (caption === undefined ? 0 : CAPTION_HEIGHT));
+  const minX = (bounds.minX + bounds.maxX) / 2 - width / 2;
+  const minY = bounds.minY - EXPORT_PADDING;
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" font-family="Geist, ui-sans-serif, system-ui, sans-serif">`,
+    `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="${palette.background}"/>`,
+    renderToStaticMarkup(drawing),
+    caption === undefined
+      ? ''
+      : `<text x="${minX + width / 2}" y="${minY + treeHeight + CAPTION_HEIGHT / 2}" text-anchor="middle" dy="0.35em" font-size="16" fill="${palette.foreground}">${escapeXml(caption)}</text>`,
+    '</svg>',
+  ].join('\n');
+
+  return { svg, width, height };
+};
+
+// Browsers refuse to allocate canvases much beyond 16k pixels a side or 256 megapixels
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 1 << 27;
+
+/** The largest scale up to `scale` at which `image` still fits on a canvas. */
+export const fittingScale = (image: StillImage, scale: number): number =>
+  Math.min(
+    scale,
+    MAX_CANVAS_SIDE / image.width,
+    MAX_CANVAS_SIDE / image.height,
+    Math.sqrt(MAX_CANVAS_AREA / (image.width * image.height))
+  );
+
+/** Rasterizes `image` into a PNG `scale` times its CSS pixel size. */
+export const renderPng = (image: StillImage, scale: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([image.svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const picture = new Image();
+    picture.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext('2d')!.drawImage(picture, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The image is too large to encode'))), 'image/png');
+    };
+    picture.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The browser could not draw the image'));
+    };
+    picture.src = url;
+  });
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/** A ZIP archive that stores `files` uncompressed, which is all PNGs need. */
+export const zipFiles = (files: { name: string; data: Uint8Array }[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const { name, data } of files) {
+    const fileName = encoder.encode(name);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(12, 0x21, true); // 1980-01-01
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, fileName.length, true);
+    parts.push(new Uint8Array(local.buffer), fileName, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(14, 0x21, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, fileName.length, true);
+    central.setUint32(42, offset, true);
+    directory.push(new Uint8Array(central.buffer), fileName);
+
+    offset += 30 + fileName.length + data.length;
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+};
+
+/** Saves `blob` through the browser's download prompt. */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoked later, as some browsers only start reading the blob after the click returns
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
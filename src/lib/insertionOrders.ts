@@ -0,0 +1,26 @@
+import type { Comparator } from '../types/TreeNode';
+
+/** The order in which a list of keys is inserted into a tree. */
+export type InsertionOrder = 'given' | 'sorted' | 'reversed' | 'shuffled';
+
+export const INSERTION_ORDERS: Record<InsertionOrder, string> = {
+  given: 'As given',
+  sorted: 'Sorted',
+  reversed: 'Reversed',
+  shuffled: 'Shuffled',
+};
+
+/** `values` rearranged into `order`; shuffling draws a new order on every call. */
+export const arrangeValues = <K>(values: K[], order: InsertionOrder, compare: Comparator<K>): K[] => {
+  if (order === 'given') return [...values];
+  if (order === 'sorted') return [...values].sort(compare);
+  if (order === 'reversed') return [...values].sort(compare).reverse();
+
+  // Fisher-Yates, so that every order is equally likely
+  const shuffled = [...values];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
@@ -0,0 +1,140 @@
+/** What happens when a key equal to an existing one is inserted. */
+export type DuplicatePolicy = 'reject' | 'count' | 'left' | 'right';
+
+export type KeyTypeId = 'number' | 'string' | 'date' | 'tuple';
+
+/** Every key type the binary trees can hold. */
+export type TreeKey = number | string | Date | readonly number[];
+
+/** A key as written in exported trees. */
+export type JsonKey = number | string | number[];
+
+/** How keys of one type are read from the input field, ordered and printed. */
+export interface KeyType<K> {
+  label: string;
+  inputType: 'number' | 'text' | 'date';
+  placeholder: string;
+  // Returns null when `input` is not a valid key
+  parse(input: string): K | null;
+  // Negative, zero or positive, like Array.prototype.sort
+  compare(a: K, b: K): number;
+  format(key: K): string;
+  // Exported trees hold keys as plain JSON values; `fromJson` returns null for anything else
+  toJson(key: K): JsonKey;
+  fromJson(value: unknown): K | null;
+  // Keys of the sample tree, in insertion order
+  samples: K[];
+  // Key number `rank` (from 1) of an ascending run of generated keys that goes up to `largest`
+  generate(rank: number, largest: number): K;
+}
+
+/** The key type and duplicate policy a tree is built with. */
+export interface KeyContext<K> {
+  type: KeyType<K>;
+  duplicates: DuplicatePolicy;
+}
+
+const compareNatural = <K extends number | string>(a: K, b: K): number => (a < b ? -1 : a > b ? 1 : 0);
+
+export const NUMBER_KEYS: KeyType<number> = {
+  label: 'Number',
+  inputType: 'number',
+  placeholder: 'Value (e.g., 42)',
+  parse: input => (/^\s*[-+]?\d+\s*$/.test(input) ? parseInt(input) : null),
+  compare: compareNatural,
+  format: key => `${key}`,
+  toJson: key => key,
+  fromJson: value => (typeof value === 'number' && Number.isInteger(value) ? value : null),
+  samples: [50, 30, 70, 20, 40, 60, 80, 15, 25, 35, 45],
+  generate: rank => rank,
+};
+
+export const STRING_KEYS: KeyType<string> = {
+  label: 'String',
+  inputType: 'text',
+  placeholder: 'Word (e.g., kiwi)',
+  parse: input => (input.trim() === '' ? null : input.trim()),
+  compare: compareNatural,
+  format: key => key,
+  toJson: key => key,
+  fromJson: value => (typeof value === 'string' && value.trim() !== '' ? value : null),
+  samples: ['mango', 'fig', 'plum', 'date', 'kiwi', 'orange', 'pear', 'apple', 'grape', 'lime'],
+  // Letters in base 26, all as long as the largest so that they sort like the ranks: a, b, …, z, then aa, ab, …
+  generate: (rank, largest) => {
+    let width = 1;
+    for (let capacity = 26; capacity < largest; capacity *= 26) width++;
+    let word = '';
+    for (let rest = rank - 1, i = 0; i < width; i++, rest = Math.floor(rest / 26)) {
+      word = String.fromCharCode(97 + (rest % 26)) + word;
+    }
+    return word;
+  },
+};
+
+export const DATE_KEYS: KeyType<Date> = {
+  label: 'Date',
+  inputType: 'date',
+  placeholder: 'YYYY-MM-DD',
+  parse: input => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.trim())) return null;
+    const date = new Date(`${input.trim()}T00:00:00Z`);
+    return isNaN(date.getTime()) ? null : date;
+  },
+  compare: (a, b) => a.getTime() - b.getTime(),
+  format: key => key.toISOString().slice(0, 10),
+  toJson: key => key.toISOString().slice(0, 10),
+  fromJson: value => (typeof value === 'string' ? DATE_KEYS.parse(value) : null),
+  samples: ['2024-06-15', '2024-03-01', '2024-09-30', '2024-01-20', '2024-04-10', '2024-08-05', '2024-12-24'].map(
+    day => new Date(`${day}T00:00:00Z`)
+  ),
+  // Consecutive days from the start of 2024
+  generate: rank => new Date(Date.UTC(2024, 0, rank)),
+};
+
+export const TUPLE_KEYS: KeyType<readonly number[]> = {
+  label: 'Tuple',
+  inputType: 'text',
+  placeholder: 'Tuple (e.g., 3, 7)',
+  parse: input => {
+    const tokens = input.replace(/[()[\]]/g, '').split(/[\s,]+/).filter(token => token !== '');
+    const values = tokens.map(token => Number(token));
+    return values.length === 0 || values.some(value => !Number.isInteger(value)) ? null : values;
+  },
+  // Lexicographic: the first differing component decides, a prefix comes first
+  compare: (a, b) => {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return a.length - b.length;
+  },
+  format: key => `(${key.join(', ')})`,
+  toJson: key => [...key],
+  fromJson: value =>
+    Array.isArray(value) && value.length > 0 && value.every(component => Number.isInteger(component)) ? value : null,
+  samples: [[5, 0], [3, 2], [8, 1], [3, 1], [5, 5], [7, 3], [9, 0]],
+  generate: rank => [Math.floor(rank / 10), rank % 10],
+};
+
+export const KEY_TYPES: Record<KeyTypeId, KeyType<TreeKey>> = {
+  number: NUMBER_KEYS,
+  string: STRING_KEYS,
+  date: DATE_KEYS,
+  tuple: TUPLE_KEYS,
+};
+
+export const DUPLICATE_POLICIES: Record<DuplicatePolicy, string> = {
+  reject: 'Reject',
+  count: 'Count per node',
+  left: 'Send left',
+  right: 'Send right',
+};
+
+/** Whether `value` descends into the left subtree of a node holding `nodeValue` on insertion. */
+export const goesLeft = <K>(keys: KeyContext<K>, value: K, nodeValue: K): boolean => {
+  const order = keys.type.compare(value, nodeValue);
+  return order < 0 || (order === 0 && keys.duplicates === 'left');
+};
+
+/** Whether `value` and `nodeValue` are equal under the tree's comparator. */
+export const sameKey = <K>(keys: KeyContext<K>, value: K, nodeValue: K): boolean =>
+  keys.type.compare(value, nodeValue) === 0;
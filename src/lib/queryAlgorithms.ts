@@ -0,0 +1,337 @@
+import type { TreeNode } from '../types/TreeNode';
+import type { KeyContext } from './keys';
+import type { Recording } from './steps';
+import { TreeStepRecorder, type TreeFrame } from './treeRecorder';
+
+/** A question about the order of the keys, with whatever it needs to know. */
+export type OrderQuery<K> =
+  | { kind: 'min' | 'max' }
+  | { kind: 'predecessor' | 'successor' | 'floor' | 'ceiling'; key: K }
+  | { kind: 'kth'; rank: number }
+  | { kind: 'range'; low: K; high: K }
+  | { kind: 'lca'; first: K; second: K };
+
+export type OrderQueryKind = OrderQuery<unknown>['kind'];
+
+/** What a query asks for besides the tree: nothing, a key, a rank, the two ends of a range or two keys. */
+export type QueryOperands = 'none' | 'key' | 'rank' | 'range' | 'pair';
+
+export const ORDER_QUERIES: Record<OrderQueryKind, { label: string; description: string; operands: QueryOperands }> = {
+  min: { label: 'Minimum', description: 'The smallest key: keep going left', operands: 'none' },
+  max: { label: 'Maximum', description: 'The largest key: keep going right', operands: 'none' },
+  predecessor: { label: 'Predecessor', description: 'The largest key smaller than the given one', operands: 'key' },
+  successor: { label: 'Successor', description: 'The smallest key larger than the given one', operands: 'key' },
+  floor: { label: 'Floor', description: 'The largest key smaller than or equal to the given one', operands: 'key' },
+  ceiling: { label: 'Ceiling', description: 'The smallest key larger than or equal to the given one', operands: 'key' },
+  kth: { label: 'K-th smallest', description: 'The key at a rank in sorted order, 1 being the smallest', operands: 'rank' },
+  range: { label: 'Range', description: 'Every key from one bound to the other, pruning subtrees outside them', operands: 'range' },
+  lca: { label: 'Lowest common ancestor', description: 'The deepest node with both keys in its subtree', operands: 'pair' },
+};
+
+/** The keys a query found, in order; empty when there is no answer. */
+export type QueryRecording<K> = Recording<TreeFrame<TreeNode<K>>, K[]>;
+
+type Recorder<K> = TreeStepRecorder<TreeNode<K>>;
+
+const ordinal = (n: number): string => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+};
+
+// Keys in every subtree by node id, counting every copy of a counted duplicate
+const subtreeSizes = <K>(root: TreeNode<K>): Map<number, number> => {
+  const sizes = new Map<number, number>();
+  const sizeOf = (node: TreeNode<K> | null) => (node ? sizes.get(node.id)! : 0);
+  // Pre-order read backwards reaches children before their parents
+  const nodes = root.getAllNodes();
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const node = nodes[i];
+    sizes.set(node.id, node.count + sizeOf(node.left) + sizeOf(node.right));
+  }
+  return sizes;
+};
+
+const recordExtreme = <K>(root: TreeNode<K>, kind: 'min' | 'max', keys: KeyContext<K>, recorder: Recorder<K>): K[] => {
+  const { format } = keys.type;
+  const isMin = kind === 'min';
+  const side = isMin ? 'left' : 'right';
+  recorder.record(`🔍 The ${isMin ? 'smallest' : 'largest'} key is as far ${side.toUpperCase()} as the tree goes`, 400);
+
+  let node = root;
+  while (true) {
+    node.isHighlighted = true;
+    const next = node[side];
+    if (!next) break;
+    recorder.record(
+      `${isMin ? '⬅️' : '➡️'} ${format(node.value)} has a ${side.toUpperCase()} child → ${isMin ? 'smaller' : 'larger'} keys are there; skip its ${isMin ? 'right' : 'left'} subtree, which only holds ${isMin ? 'larger' : 'smaller'} ones`
+    );
+    node.isHighlighted = false;
+    node.isVisited = true;
+    node = next;
+  }
+
+  node.isHighlighted = false;
+  node.isSearchResult = true;
+  recorder.record(`🎯 ${format(node.value)} has no ${side.toUpperCase()} child → it is the ${isMin ? 'minimum' : 'maximum'}`, 1000);
+  return [node.value];
+};
+
+/**
+ * Predecessor, successor, floor and ceiling are one walk: every node on the
+ * wrong side of `key` sends it one way, every node on the right side is the
+ * best answer so far and sends it the other way to look for a closer one.
+ */
+const recordBound = <K>(
+  root: TreeNode<K>,
+  kind: 'predecessor' | 'successor' | 'floor' | 'ceiling',
+  key: K,
+  keys: KeyContext<K>,
+  recorder: Recorder<K>
+): K[] => {
+  const { compare, format } = keys.type;
+  const below = kind === 'predecessor' || kind === 'floor';
+  const inclusive = kind === 'floor' || kind === 'ceiling';
+  const wanted = `${below ? 'largest' : 'smallest'} key ${below ? '<' : '>'}${inclusive ? '=' : ''} ${format(key)}`;
+  recorder.record(`🔍 Looking for the ${wanted}`, 400);
+
+  let candidate: TreeNode<K> | null = null;
+  let node: TreeNode<K> | null = root;
+  while (node) {
+    node.isHighlighted = true;
+    const order = compare(node.value, key);
+    if (inclusive && order === 0) {
+      if (candidate) {
+        candidate.isSearchResult = false;
+        candidate.isVisited = true;
+      }
+      candidate = node;
+      recorder.record(`✅ ${format(node.value)} = ${format(key)} → an equal key is its own ${kind}`);
+      break;
+    }
+
+    const relation = order < 0 ? '<' : order > 0 ? '>' : '=';
+    const qualifies = below ? order < 0 : order > 0;
+    const next: TreeNode<K> | null = qualifies === below ? node.right : node.left;
+    const direction = qualifies === below ? 'RIGHT' : 'LEFT';
+    if (qualifies) {
+      if (candidate) {
+        candidate.isSearchResult = false;
+        candidate.isVisited = true;
+      }
+      candidate = node;
+      node.isSearchResult = true;
+      recorder.record(
+        `✅ ${format(node.value)} ${relation} ${format(key)} → best answer so far. Its ${below ? 'left' : 'right'} subtree is even further from ${format(key)}, so skip it and look ${direction} for a closer one`
+      );
+    } else {
+      recorder.record(
+        `${below ? '⬅️' : '➡️'} ${format(node.value)} ${relation} ${format(key)} → too ${below ? 'large' : 'small'}, and so is its whole ${below ? 'right' : 'left'} subtree: skip it and go ${direction}`
+      );
+      node.isVisited = true;
+    }
+    node.isHighlighted = false;
+    node = next;
+  }
+
+  if (!candidate) {
+    recorder.record(`❌ No key is ${below ? 'smaller' : 'larger'} than ${inclusive ? 'or equal to ' : ''}${format(key)} → there is no ${kind}`, 1000);
+    return [];
+  }
+  candidate.isHighlighted = false;
+  candidate.isSearchResult = true;
+  recorder.record(`🎯 The ${kind} of ${format(key)} is ${format(candidate.value)}`, 1000);
+  return [candidate.value];
+};
+
+/**
+ * Walks down by subtree sizes: the left subtree holds the smallest keys, so
+ * it either contains the rank or is skipped along with the node itself.
+ */
+const recordKth = <K>(root: TreeNode<K>, rank: number, keys: KeyContext<K>, recorder: Recorder<K>): K[] => {
+  const { format } = keys.type;
+  const sizes = subtreeSizes(root);
+  const sizeOf = (node: TreeNode<K> | null) => (node ? sizes.get(node.id)! : 0);
+  const total = sizeOf(root);
+  if (!Number.isInteger(rank) || rank < 1 || rank > total) {
+    recorder.record(`❌ The tree holds ${total} keys, so there is no ${Number.isInteger(rank) ? ordinal(rank) : `${rank}th`} smallest`, 1000);
+    return [];
+  }
+  recorder.record(`🔢 Looking for the ${ordinal(rank)} smallest of ${total} keys`, 400);
+
+  let remaining = rank;
+  let node: TreeNode<K> | null = root;
+  while (node) {
+    node.isHighlighted = true;
+    const leftSize = sizeOf(node.left);
+    if (remaining <= leftSize) {
+      recorder.record(
+        `⬅️ The left subtree of ${format(node.value)} holds the ${leftSize} smallest keys here, at least ${remaining} → the answer is there; skip ${format(node.value)} and its right subtree`
+      );
+      node.isHighlighted = false;
+      node.isVisited = true;
+      node = node.left;
+    } else if (remaining <= leftSize + node.count) {
+      node.isHighlighted = false;
+      node.isSearchResult = true;
+      recorder.record(
+        `🎯 ${leftSize} smaller key${leftSize === 1 ? '' : 's'} to the left, so ${format(node.value)} is the ${ordinal(remaining)} smallest here → the ${ordinal(rank)} smallest overall`,
+        1000
+      );
+      return [node.value];
+    } else {
+      const skipped = leftSize + node.count;
+      remaining -= skipped;
+      recorder.record(
+        `➡️ The left subtree and ${format(node.value)} only hold ${skipped} key${skipped === 1 ? '' : 's'} → skip them and look for the ${ordinal(remaining)} smallest on the RIGHT`
+      );
+      node.isHighlighted = false;
+      node.isVisited = true;
+      node = node.right;
+    }
+  }
+  // Unreachable: the rank was checked against the size of the tree
+  return [];
+};
+
+// Marks the point in the walk where a node in the range is reported, after its left subtree
+interface Report<K> {
+  report: TreeNode<K>;
+}
+
+/**
+ * An in-order walk that only enters subtrees which can hold keys in the
+ * range, so the keys come out sorted and everything outside is pruned.
+ */
+const recordRange = <K>(root: TreeNode<K>, low: K, high: K, keys: KeyContext<K>, recorder: Recorder<K>): K[] => {
+  const { compare, format } = keys.type;
+  if (compare(low, high) > 0) {
+    recorder.record(`🔄 ${format(low)} > ${format(high)}, so the bounds are swapped`, 400);
+    [low, high] = [high, low];
+  }
+  const range = `[${format(low)}, ${format(high)}]`;
+  recorder.record(`📏 Collecting every key in ${range}`, 400);
+
+  const found: K[] = [];
+  const stack: (TreeNode<K> | Report<K>)[] = [root];
+  while (stack.length > 0) {
+    const item = stack.pop()!;
+    if ('report' in item) {
+      const node = item.report;
+      node.isHighlighted = true;
+      node.isSearchResult = true;
+      for (let i = 0; i < node.count; i++) found.push(node.value);
+      recorder.record(`📤 Report ${format(node.value)}${node.count > 1 ? ` ×${node.count}` : ''}: everything smaller in range has been reported`, 600);
+      node.isHighlighted = false;
+      continue;
+    }
+
+    const node = item;
+    node.isHighlighted = true;
+    if (compare(node.value, low) < 0) {
+      recorder.record(
+        `✂️ ${format(node.value)} < ${format(low)} → it and its whole left subtree are below the range: prune them${node.right ? ', go RIGHT' : ''}`
+      );
+      if (node.right) stack.push(node.right);
+    } else if (compare(node.value, high) > 0) {
+      recorder.record(
+        `✂️ ${format(node.value)} > ${format(high)} → it and its whole right subtree are above the range: prune them${node.left ? ', go LEFT' : ''}`
+      );
+      if (node.left) stack.push(node.left);
+    } else {
+      recorder.record(`✅ ${format(node.value)} is in ${range} → both subtrees may hold more, left first`);
+      // Popped in reverse: the left subtree, then the report, then the right subtree
+      if (node.right) stack.push(node.right);
+      stack.push({ report: node });
+      if (node.left) stack.push(node.left);
+    }
+    node.isHighlighted = false;
+    node.isVisited = true;
+  }
+
+  recorder.record(
+    found.length === 0
+      ? `❌ No keys in ${range}`
+      : `📋 ${found.length} key${found.length === 1 ? '' : 's'} in ${range}: ${found.map(format).join(', ')}`,
+    1000
+  );
+  return found;
+};
+
+/** Both keys are below the answer and on different sides of it, or one of them is the answer. */
+const recordLca = <K>(root: TreeNode<K>, first: K, second: K, keys: KeyContext<K>, recorder: Recorder<K>): K[] => {
+  const { compare, format } = keys.type;
+  const missing = [first, second].find(key => !root.search(key, compare));
+  if (missing !== undefined) {
+    recorder.record(`❌ ${format(missing)} is not in the tree, so it has no common ancestor with anything`, 1000);
+    return [];
+  }
+  recorder.record(`🔍 Looking for the lowest common ancestor of ${format(first)} and ${format(second)}`, 400);
+
+  let node = root;
+  while (true) {
+    node.isHighlighted = true;
+    const firstOrder = compare(first, node.value);
+    const secondOrder = compare(second, node.value);
+    if (firstOrder < 0 && secondOrder < 0 && node.left) {
+      recorder.record(
+        `⬅️ ${format(first)} and ${format(second)} are both < ${format(node.value)} → both are in its left subtree; skip the right one`
+      );
+      node.isHighlighted = false;
+      node.isVisited = true;
+      node = node.left;
+    } else if (firstOrder > 0 && secondOrder > 0 && node.right) {
+      recorder.record(
+        `➡️ ${format(first)} and ${format(second)} are both > ${format(node.value)} → both are in its right subtree; skip the left one`
+      );
+      node.isHighlighted = false;
+      node.isVisited = true;
+      node = node.right;
+    } else {
+      break;
+    }
+  }
+
+  const isOneOfThem = compare(first, node.value) === 0 || compare(second, node.value) === 0;
+  node.isHighlighted = false;
+  node.isSearchResult = true;
+  recorder.record(
+    isOneOfThem
+      ? `🎯 ${format(node.value)} is one of the two keys and the other is below it → it is the lowest common ancestor`
+      : `🎯 ${format(first)} and ${format(second)} fall on different sides of ${format(node.value)} → the paths split here, so it is the lowest common ancestor`,
+    1000
+  );
+  return [node.value];
+};
+
+/** Records an order query. Queries never change the tree. */
+export const recordOrderQuery = <K>(
+  root: TreeNode<K>,
+  query: OrderQuery<K>,
+  keys: KeyContext<K>,
+  silent: boolean = false
+): QueryRecording<K> => {
+  const recorder = new TreeStepRecorder(root, silent);
+  recorder.clearHighlights(root);
+
+  let result: K[];
+  switch (query.kind) {
+    case 'min':
+    case 'max':
+      result = recordExtreme(root, query.kind, keys, recorder);
+      break;
+    case 'kth':
+      result = recordKth(root, query.rank, keys, recorder);
+      break;
+    case 'range':
+      result = recordRange(root, query.low, query.high, keys, recorder);
+      break;
+    case 'lca':
+      result = recordLca(root, query.first, query.second, keys, recorder);
+      break;
+    default:
+      result = recordBound(root, query.kind, query.key, keys, recorder);
+  }
+
+  recorder.clearHighlights(root);
+  return { steps: recorder.steps, result };
+};
@@ -0,0 +1,202 @@
+import type { TreeNode } from '../types/TreeNode';
+import { NUMBER_KEYS, type KeyContext } from './keys';
+import { buildTree } from './treeModes';
+import { generateKeys } from './dataSets';
+import { recordInsertion, recordSearch, recordTraversal, type TraversalType } from './bstAlgorithms';
+import { TreeStepRecorder, type TreeStep } from './treeRecorder';
+import type { ChildSide } from './treeEditing';
+
+export type QuestionKind = 'traversal' | 'insertion' | 'search' | 'height';
+
+export const QUESTION_KINDS: Record<QuestionKind, { label: string; description: string }> = {
+  traversal: { label: 'Traversal order', description: 'Click every node in the order a traversal visits it' },
+  insertion: { label: 'Insertion point', description: 'Click the empty position a new key ends up in' },
+  search: { label: 'Search path', description: 'Click the nodes a search compares with, from the root down' },
+  height: { label: 'Height', description: 'Count the levels of the tree' },
+};
+
+export type Question =
+  | { kind: 'traversal'; order: TraversalType; answer: number[] }
+  | { kind: 'insertion'; value: number; answer: { parentId: number; side: ChildSide } }
+  | { kind: 'search'; value: number; answer: number[] }
+  | { kind: 'height'; answer: number };
+
+/** A question and the tree it is about. */
+export interface QuizRound {
+  root: TreeNode<number>;
+  question: Question;
+}
+
+// Quiz trees hold small whole numbers, so that every key is quick to read and compare
+export const QUIZ_KEYS: KeyContext<number> = { type: NUMBER_KEYS, duplicates: 'reject' };
+
+const MIN_NODES = 6;
+const MAX_NODES = 10;
+// Searches are for a key in the tree this often, and for a missing one otherwise
+const PRESENT_SEARCH_RATE = 0.7;
+
+const TRAVERSAL_NAMES: Record<TraversalType, string> = {
+  inorder: 'in-order',
+  preorder: 'pre-order',
+  postorder: 'post-order',
+};
+
+const pick = <T>(items: readonly T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+// Draws a key from 1 to 99 that is not in `taken`
+const freshKey = (taken: Set<number>, random: () => number): number => {
+  for (;;) {
+    const value = 1 + Math.floor(random() * 99);
+    if (!taken.has(value)) return value;
+  }
+};
+
+// The ids of the nodes a search for `value` compares with, root first
+const searchPath = (root: TreeNode<number>, value: number): number[] => {
+  const path: number[] = [];
+  for (let node: TreeNode<number> | null = root; node; node = value < node.value ? node.left : node.right) {
+    path.push(node.id);
+    if (node.value === value) break;
+  }
+  return path;
+};
+
+/** A random plain BST and a question about it, of one of `kinds`. */
+export const createRound = (kinds: QuestionKind[], random: () => number = Math.random): QuizRound => {
+  const size = MIN_NODES + Math.floor(random() * (MAX_NODES - MIN_NODES + 1));
+  const values = generateKeys('random', size, Math.floor(random() * 2 ** 32), NUMBER_KEYS);
+  const root = buildTree('bst', values, QUIZ_KEYS)!;
+  const taken = new Set(values);
+
+  const kind = pick(kinds, random);
+  if (kind === 'traversal') {
+    const order = pick(['inorder', 'preorder', 'postorder'] as const, random);
+    const answer: number[] = [];
+    const visit = (node: TreeNode<number>) => answer.push(node.id);
+    if (order === 'inorder') root.inOrderTraversal(visit);
+    else if (order === 'preorder') root.preOrderTraversal(visit);
+    else root.postOrderTraversal(visit);
+    return { root, question: { kind, order, answer } };
+  }
+  if (kind === 'insertion') {
+    const value = freshKey(taken, random);
+    const path = searchPath(root, value);
+    const parentId = path[path.length - 1];
+    const parent = root.getAllNodes().find(node => node.id === parentId)!;
+    return { root, question: { kind, value, answer: { parentId, side: value < parent.value ? 'left' : 'right' } } };
+  }
+  if (kind === 'search') {
+    const value = random() < PRESENT_SEARCH_RATE ? pick(values, random) : freshKey(taken, random);
+    return { root, question: { kind, value, answer: searchPath(root, value) } };
+  }
+  return { root, question: { kind, answer: root.computeHeight() } };
+};
+
+/** What the student is asked to do. */
+export const promptOf = (question: Question): string => {
+  switch (question.kind) {
+    case 'traversal':
+      return `Click the nodes in the order a ${TRAVERSAL_NAMES[question.order]} traversal visits them`;
+    case 'insertion':
+      return `Where will ${question.value} be inserted? Click its empty position`;
+    case 'search':
+      return `Which path does search(${question.value}) take? Click the nodes it compares with, from the root down`;
+    case 'height':
+      return 'What is the height of the tree, counted in levels? A lone root has height 1';
+  }
+};
+
+// Walks from the root down to a deepest leaf, counting the levels on the way
+const recordHeight = (root: TreeNode<number>): TreeStep<TreeNode<number>>[] => {
+  const recorder = new TreeStepRecorder(root);
+  recorder.clearHighlights(root);
+  recorder.record('📏 The height is the number of levels on the longest path from the root down to a leaf', 1000);
+  let level = 1;
+  for (let node: TreeNode<number> | null = root; node; level++) {
+    node.isVisited = true;
+    node.isHighlighted = true;
+    recorder.record(`Level ${level}: ${node.value}`, 600);
+    node.isHighlighted = false;
+    // Follow the taller subtree, which is where the deepest leaf is
+    node = (node.left?.computeHeight() ?? 0) >= (node.right?.computeHeight() ?? 0) ? node.left : node.right;
+  }
+  recorder.record(`🎯 The deepest leaf is on level ${level - 1}, so the height is ${level - 1}`, 1000);
+  recorder.clearHighlights(root);
+  return recorder.steps;
+};
+
+/** The usual animation of the asked operation, replayed on a copy of the tree to show the right answer. */
+export const explainRound = ({ root, question }: QuizRound): TreeStep<TreeNode<number>>[] => {
+  const copy = root.clone();
+  switch (question.kind) {
+    case 'traversal':
+      return recordTraversal(copy, question.order, QUIZ_KEYS).steps;
+    case 'insertion':
+      return recordInsertion(copy, question.value, QUIZ_KEYS).steps;
+    case 'search':
+      return recordSearch(copy, question.value, QUIZ_KEYS).steps;
+    case 'height':
+      return recordHeight(copy);
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Scores
+
+export interface Tally {
+  asked: number;
+  correct: number;
+}
+
+export interface QuizStats {
+  // Since the student last started over
+  session: Tally & { streak: number };
+  byKind: Record<QuestionKind, Tally>;
+}
+
+const STORAGE_KEY = 'tree-visualizer-quiz';
+
+const emptyTally = (): Tally => ({ asked: 0, correct: 0 });
+
+export const emptyQuizStats = (): QuizStats => ({
+  session: { ...emptyTally(), streak: 0 },
+  byKind: { traversal: emptyTally(), insertion: emptyTally(), search: emptyTally(), height: emptyTally() },
+});
+
+const isTally = (value: unknown): value is Tally =>
+  typeof value === 'object' &&
+  value !== null &&
+  Number.isInteger((value as Tally).asked) &&
+  Number.isInteger((value as Tally).correct);
+
+/** The scores saved in this browser; anything missing or unreadable starts from zero. */
+export const loadQuizStats = (): QuizStats => {
+  const stats = emptyQuizStats();
+  let saved: unknown;
+  try {
+    saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+  } catch {
+    return stats;
+  }
+  if (typeof saved !== 'object' || saved === null) return stats;
+  const { session, byKind } = saved as Partial<QuizStats>;
+  if (isTally(session) && Number.isInteger(session.streak)) stats.session = { ...session };
+  for (const kind of Object.keys(stats.byKind) as QuestionKind[]) {
+    const tally = byKind?.[kind];
+    if (isTally(tally)) stats.byKind[kind] = { asked: tally.asked, correct: tally.correct };
+  }
+  return stats;
+};
+
+export const saveQuizStats = (stats: QuizStats): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stats));
+};
+
+/** `stats` after one more answer to a question of `kind`. */
+export const scoreAnswer = (stats: QuizStats, kind: QuestionKind, correct: boolean): QuizStats => {
+  const add = (tally: Tally): Tally => ({ asked: tally.asked + 1, correct: tally.correct + (correct ? 1 : 0) });
+  return {
+    session: { ...add(stats.session), streak: correct ? stats.session.streak + 1 : 0 },
+    byKind: { ...stats.byKind, [kind]: add(stats.byKind[kind]) },
+  };
+};
@@ -0,0 +1,404 @@
+import { TreeNode, type DeletionStrategy } from '../types/TreeNode';
+import {
+  recordCountDecrement,
+  recordDuplicateInsertion,
+  walkDeletion,
+  walkToInsertionPoint,
+  type TreeRecording,
+} from './bstAlgorithms';
+import { TreeStepRecorder } from './treeRecorder';
+import { goesLeft, sameKey, type KeyContext } from './keys';
+import { codeLine } from './codeListings';
+
+// Missing children count as black leaves
+const isRed = <K>(node: TreeNode<K> | null): boolean => node !== null && node.color === 'red';
+const isBlack = <K>(node: TreeNode<K> | null): boolean => !isRed(node);
+
+/**
+ * Tracks parent links for the duration of one operation, since `TreeNode`
+ * only points downwards, and keeps them correct through rotations.
+ *
+ * Fix-ups only ever climb the path the operation walked down and rotate
+ * nodes on it or hanging off it, so only those are indexed up front; that
+ * keeps an operation logarithmic instead of linear in the tree size.
+ */
+class RedBlackTree<K> {
+  root: TreeNode<K> | null;
+  private parents = new Map<TreeNode<K>, TreeNode<K> | null>();
+
+  // `path` runs from the root down to the node the operation works on
+  constructor(root: TreeNode<K>, path: TreeNode<K>[]) {
+    this.root = root;
+    this.parents.set(root, null);
+    for (const node of path) {
+      this.setParent(node.left, node);
+      this.setParent(node.right, node);
+    }
+  }
+
+  parentOf(node: TreeNode<K>): TreeNode<K> | null {
+    return this.parents.get(node) ?? null;
+  }
+
+  setParent(node: TreeNode<K> | null, parent: TreeNode<K> | null): void {
+    if (node) this.parents.set(node, parent);
+  }
+
+  /** Puts `replacement` where `node` used to hang. */
+  replace(node: TreeNode<K>, replacement: TreeNode<K> | null): void {
+    const parent = this.parentOf(node);
+    if (!parent) {
+      this.root = replacement;
+    } else if (parent.left === node) {
+      parent.left = replacement;
+    } else {
+      parent.right = replacement;
+    }
+    this.setParent(replacement, parent);
+  }
+
+  rotateLeft(node: TreeNode<K>): TreeNode<K> {
+    const parent = this.parentOf(node);
+    const pivot = node.rotateLeft();
+    this.replaceChild(parent, node, pivot);
+    this.setParent(node, pivot);
+    this.setParent(node.right, node);
+    return pivot;
+  }
+
+  rotateRight(node: TreeNode<K>): TreeNode<K> {
+    const parent = this.parentOf(node);
+    const pivot = node.rotateRight();
+    this.replaceChild(parent, node, pivot);
+    this.setParent(node, pivot);
+    this.setParent(node.left, node);
+    return pivot;
+  }
+
+  private replaceChild(parent: TreeNode<K> | null, oldChild: TreeNode<K>, newChild: TreeNode<K>): void {
+    if (!parent) {
+      this.root = newChild;
+    } else if (parent.left === oldChild) {
+      parent.left = newChild;
+    } else {
+      parent.right = newChild;
+    }
+    this.setParent(newChild, parent);
+  }
+}
+
+export interface RedBlackViolation {
+  nodeId: number;
+  message: string;
+}
+
+/**
+ * Checks the red-black properties of `root`: the root is black, no red node
+ * has a red child, and every root-to-leaf path has the same number of black nodes.
+ */
+export const checkRedBlackInvariants = <K>(
+  root: TreeNode<K> | null,
+  format: (key: K) => string
+): RedBlackViolation[] => {
+  const violations: RedBlackViolation[] = [];
+  if (!root) return violations;
+
+  if (root.color !== 'black') {
+    violations.push({ nodeId: root.id, message: `Root ${format(root.value)} is red` });
+  }
+
+  // Returns the black height of `node`'s subtree, counting the nil leaves
+  const blackHeight = (node: TreeNode<K> | null): number => {
+    if (!node) return 1;
+    for (const child of [node.left, node.right]) {
+      if (isRed(node) && isRed(child)) {
+        violations.push({ nodeId: child!.id, message: `Red ${format(child!.value)} has a red parent ${format(node.value)}` });
+      }
+    }
+    const left = blackHeight(node.left);
+    const right = blackHeight(node.right);
+    if (left !== right) {
+      violations.push({ nodeId: node.id, message: `Black heights under ${format(node.value)} differ (${left} vs ${right})` });
+    }
+    return Math.max(left, right) + (isBlack(node) ? 1 : 0);
+  };
+  blackHeight(root);
+
+  return violations;
+};
+
+const fixInsertion = <K>(
+  tree: RedBlackTree<K>,
+  inserted: TreeNode<K>,
+  format: (key: K) => string,
+  recorder: TreeStepRecorder<TreeNode<K>>
+): void => {
+  let node = inserted;
+
+  while (isRed(tree.parentOf(node))) {
+    const parent = tree.parentOf(node)!;
+    // A red parent is never the root, so the grandparent exists
+    const grandparent = tree.parentOf(parent)!;
+    const parentIsLeft = grandparent.left === parent;
+    const uncle = parentIsLeft ? grandparent.right : grandparent.left;
+
+    node.isHighlighted = true;
+    parent.isHighlighted = true;
+    recorder.record(`🚨 Red-red violation: ${format(node.value)} and its parent ${format(parent.value)} are both red`, 1000);
+
+    if (isRed(uncle)) {
+      uncle!.isVisited = true;
+      recorder.record(`🎨 Case 1: uncle ${format(uncle!.value)} is red → recolor parent and uncle black, grandparent ${format(grandparent.value)} red`, 1000);
+      parent.color = 'black';
+      uncle!.color = 'black';
+      grandparent.color = 'red';
+      node.isHighlighted = false;
+      parent.isHighlighted = false;
+      uncle!.isVisited = false;
+      recorder.restructure(tree.root);
+      recorder.record(`⬆️ Continue fixing from grandparent ${format(grandparent.value)}`);
+      node = grandparent;
+      continue;
+    }
+
+    const uncleLabel = uncle ? `uncle ${format(uncle.value)}` : 'uncle (nil)';
+    let top = parent;
+    if ((node === parent.right) === parentIsLeft) {
+      const direction = parentIsLeft ? 'LEFT' : 'RIGHT';
+      recorder.record(`📐 Case 2: ${uncleLabel} is black and ${format(node.value)} forms a triangle → rotate ${direction} at ${format(parent.value)}`, 1000);
+      if (parentIsLeft) {
+        tree.rotateLeft(parent);
+      } else {
+        tree.rotateRight(parent);
+      }
+      recorder.restructure(tree.root);
+      recorder.record(`🔄 Rotated ${direction} at ${format(parent.value)}: now a straight line`, 1000);
+      top = node;
+      node = parent;
+    }
+
+    const direction = parentIsLeft ? 'RIGHT' : 'LEFT';
+    recorder.record(`📏 Case 3: ${uncleLabel} is black and ${format(node.value)} is in a line → rotate ${direction} at ${format(grandparent.value)} and swap colors`, 1000);
+    top.color = 'black';
+    grandparent.color = 'red';
+    if (parentIsLeft) {
+      tree.rotateRight(grandparent);
+    } else {
+      tree.rotateLeft(grandparent);
+    }
+    node.isHighlighted = false;
+    top.isHighlighted = false;
+    top.isSearchResult = true;
+    recorder.restructure(tree.root);
+    recorder.record(`🔄 Rotated ${direction} at ${format(grandparent.value)}: black ${format(top.value)} is the new subtree root`, 1200);
+    top.isSearchResult = false;
+    break;
+  }
+
+  node.isHighlighted = false;
+  if (tree.root && isRed(tree.root)) {
+    tree.root.color = 'black';
+    recorder.restructure(tree.root);
+    recorder.record(`⚫ Root ${format(tree.root.value)} is recolored black`);
+  }
+};
+
+const fixDeletion = <K>(
+  tree: RedBlackTree<K>,
+  start: TreeNode<K> | null,
+  startParent: TreeNode<K> | null,
+  format: (key: K) => string,
+  recorder: TreeStepRecorder<TreeNode<K>>
+): void => {
+  let node = start;
+  let parent = startParent;
+
+  while (node !== tree.root && isBlack(node) && parent) {
+    const nodeIsLeft = parent.left === node;
+    let sibling = (nodeIsLeft ? parent.right : parent.left)!;
+    const label = node ? `${format(node.value)}` : `nil child of ${format(parent.value)}`;
+
+    parent.isHighlighted = true;
+    sibling.isVisited = true;
+    recorder.record(`⚫⚫ ${label} is "double black": one black short on this side`, 1000);
+
+    if (isRed(sibling)) {
+      recorder.record(`🎨 Case 1: sibling ${format(sibling.value)} is red → recolor and rotate ${nodeIsLeft ? 'LEFT' : 'RIGHT'} at ${format(parent.value)}`, 1000);
+      sibling.color = 'black';
+      parent.color = 'red';
+      if (nodeIsLeft) {
+        tree.rotateLeft(parent);
+      } else {
+        tree.rotateRight(parent);
+      }
+      sibling.isVisited = false;
+      sibling = (nodeIsLeft ? parent.right : parent.left)!;
+      sibling.isVisited = true;
+      recorder.restructure(tree.root);
+      recorder.record(`🔄 Rotated: the new sibling is black ${format(sibling.value)}`, 1000);
+    }
+
+    const far = nodeIsLeft ? sibling.right : sibling.left;
+    const near = nodeIsLeft ? sibling.left : sibling.right;
+
+    if (isBlack(far) && isBlack(near)) {
+      recorder.record(`🎨 Case 2: sibling ${format(sibling.value)} has two black children → recolor it red, push the problem up to ${format(parent.value)}`, 1000);
+      sibling.color = 'red';
+      sibling.isVisited = false;
+      parent.isHighlighted = false;
+      recorder.restructure(tree.root);
+      node = parent;
+      parent = tree.parentOf(node);
+      continue;
+    }
+
+    if (isBlack(far)) {
+      const direction = nodeIsLeft ? 'RIGHT' : 'LEFT';
+      recorder.record(`📐 Case 3: sibling's near child ${format(near!.value)} is red → rotate ${direction} at ${format(sibling.value)}`, 1000);
+      near!.color = 'black';
+      sibling.color = 'red';
+      if (nodeIsLeft) {
+        tree.rotateRight(sibling);
+      } else {
+        tree.rotateLeft(sibling);
+      }
+      sibling.isVisited = false;
+      sibling = (nodeIsLeft ? parent.right : parent.left)!;
+      sibling.isVisited = true;
+      recorder.restructure(tree.root);
+      recorder.record(`🔄 Rotated: the far child of ${format(sibling.value)} is now red`, 1000);
+    }
+
+    const direction = nodeIsLeft ? 'LEFT' : 'RIGHT';
+    recorder.record(`📏 Case 4: sibling's far child is red → rotate ${direction} at ${format(parent.value)} and recolor`, 1000);
+    sibling.color = parent.color;
+    parent.color = 'black';
+    const farChild = nodeIsLeft ? sibling.right : sibling.left;
+    if (farChild) farChild.color = 'black';
+    if (nodeIsLeft) {
+      tree.rotateLeft(parent);
+    } else {
+      tree.rotateRight(parent);
+    }
+    parent.isHighlighted = false;
+    sibling.isVisited = false;
+    recorder.restructure(tree.root);
+    recorder.record(`🔄 Rotated ${direction} at ${format(parent.value)}: the extra black is absorbed`, 1200);
+    node = tree.root;
+    break;
+  }
+
+  if (parent) parent.isHighlighted = false;
+  if (node && isRed(node)) {
+    node.color = 'black';
+    recorder.restructure(tree.root);
+    recorder.record(`⚫ ${format(node.value)} is recolored black, which restores the black height`);
+  }
+};
+
+/** Inserts `value` as a red leaf, then fixes red-red violations on the way up. The result is the new root. */
+export const recordRedBlackInsertion = <K>(
+  root: TreeNode<K> | null,
+  value: K,
+  keys: KeyContext<K>,
+  silent: boolean = false
+): TreeRecording<K> => {
+  const { format } = keys.type;
+  if (!root) {
+    const newRoot = new TreeNode(value);
+    newRoot.color = 'black';
+    newRoot.isSearchResult = true;
+    const recorder = new TreeStepRecorder(newRoot, silent);
+    recorder.record(`Created black root node with value: ${format(value)}`, 1000, codeLine('insert', 'create'));
+    recorder.clearHighlights(newRoot);
+    return { steps: recorder.steps, result: newRoot };
+  }
+
+  const recorder = new TreeStepRecorder(root, silent);
+  recorder.clearHighlights(root);
+
+  if (recordDuplicateInsertion(root, value, keys, recorder)) {
+    return { steps: recorder.steps, result: root };
+  }
+
+  recorder.record(`🔄 Starting red-black insertion of ${format(value)}`, 400, codeLine('insert', 'start'));
+  const path = walkToInsertionPoint(root, value, keys, recorder);
+
+  const parent = path[path.length - 1];
+  const inserted = new TreeNode(value);
+  inserted.color = 'red';
+  if (goesLeft(keys, value, parent.value)) {
+    parent.left = inserted;
+  } else {
+    parent.right = inserted;
+  }
+  inserted.isSearchResult = true;
+  recorder.restructure(root);
+  recorder.record(`🔴 Inserted ${format(value)} as a red leaf`, 1000);
+  inserted.isSearchResult = false;
+  recorder.clearHighlights(root);
+
+  const tree = new RedBlackTree(root, path);
+  fixInsertion(tree, inserted, format, recorder);
+
+  const newRoot = tree.root!;
+  recorder.record(`✨ ${format(value)} successfully added! All red-black properties hold.`);
+  recorder.clearHighlights(newRoot);
+  return { steps: recorder.steps, result: newRoot };
+};
+
+/**
+ * Deletes `value`, copying the successor/predecessor up in the two-child
+ * case, then resolves any "double black" left behind. The result is the new root.
+ */
+export const recordRedBlackDeletion = <K>(
+  root: TreeNode<K>,
+  value: K,
+  keys: KeyContext<K>,
+  strategy: DeletionStrategy,
+  silent: boolean = false
+): TreeRecording<K> => {
+  const { format } = keys.type;
+  const recorder = new TreeStepRecorder(root, silent);
+  recorder.clearHighlights(root);
+  recorder.record(`🗑️ Starting red-black deletion of ${format(value)}`, 400);
+
+  if (recordCountDecrement(root, value, keys, recorder)) {
+    return { steps: recorder.steps, result: root };
+  }
+
+  const path = walkDeletion(root, value, keys, strategy, recorder);
+  if (!path) {
+    return { steps: recorder.steps, result: root };
+  }
+  recorder.clearHighlights(root);
+
+  // The spliced node has at most one child; in the two-child case its value moves up first
+  const removed = path[path.length - 1];
+  const target = path.find(node => sameKey(keys, value, node.value))!;
+  target.value = removed.value;
+  target.count = removed.count;
+
+  const tree = new RedBlackTree(root, path);
+  const parent = tree.parentOf(removed);
+  const child = removed.left ?? removed.right;
+  tree.replace(removed, child);
+  recorder.restructure(tree.root);
+
+  if (isRed(removed)) {
+    recorder.record(`✅ Removed red node ${format(removed.value)}: black heights are unaffected`);
+  } else if (isRed(child)) {
+    child!.color = 'black';
+    recorder.restructure(tree.root);
+    recorder.record(`✅ Removed black node; its red child ${format(child!.value)} is recolored black`);
+  } else {
+    recorder.record(`⚠️ Removed a black node with no red child to absorb it → fix-up needed`, 1000);
+    fixDeletion(tree, child, parent, format, recorder);
+  }
+
+  if (tree.root) {
+    recorder.record(`✨ ${format(value)} successfully deleted! All red-black properties hold.`);
+    recorder.clearHighlights(tree.root);
+  }
+  return { steps: recorder.steps, result: tree.root };
+};
@@ -0,0 +1,113 @@
+export type ShortcutAction =
+  | 'insert'
+  | 'search'
+  | 'delete'
+  | 'traverse'
+  | 'playPause'
+  | 'stepBack'
+  | 'stepForward'
+  | 'cursorUp'
+  | 'cursorDown'
+  | 'cursorLeft'
+  | 'cursorRight'
+  | 'focusCursor'
+  | 'fit'
+  | 'edit'
+  | 'cheatSheet';
+
+export const SHORTCUT_ACTIONS: Record<ShortcutAction, { label: string; description: string }> = {
+  insert: { label: 'Insert', description: 'Insert the typed key, or go to the key field when it is empty' },
+  search: { label: 'Search', description: 'Search for the typed key, or the key under the cursor' },
+  delete: { label: 'Delete', description: 'Delete the typed key, or the key under the cursor' },
+  traverse: { label: 'Traverse', description: 'Play an in-order traversal' },
+  playPause: { label: 'Play / pause', description: 'Pause the animation, or play it on' },
+  stepBack: { label: 'Step back', description: 'Go to the previous step of the animation' },
+  stepForward: { label: 'Step forward', description: 'Go to the next step of the animation' },
+  cursorUp: { label: 'Cursor to parent', description: 'Move the node cursor up to the parent' },
+  cursorDown: { label: 'Cursor to child', description: 'Move the node cursor down to the first child' },
+  cursorLeft: { label: 'Cursor left', description: 'Move the node cursor to the previous node on its level' },
+  cursorRight: { label: 'Cursor right', description: 'Move the node cursor to the next node on its level' },
+  focusCursor: { label: 'Focus cursor', description: 'Centre the camera on the node under the cursor' },
+  fit: { label: 'Fit tree', description: 'Zoom out to show the whole tree' },
+  edit: { label: 'Edit on canvas', description: 'Turn hand editing on or off' },
+  cheatSheet: { label: 'Shortcuts', description: 'Show this list of shortcuts' },
+};
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+// Keys as KeyboardEvent.key reports them, with letters in lower case
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  insert: 'i',
+  search: 's',
+  delete: 'x',
+  traverse: 't',
+  playPause: ' ',
+  stepBack: ',',
+  stepForward: '.',
+  cursorUp: 'ArrowUp',
+  cursorDown: 'ArrowDown',
+  cursorLeft: 'ArrowLeft',
+  cursorRight: 'ArrowRight',
+  focusCursor: 'Enter',
+  fit: 'f',
+  edit: 'e',
+  cheatSheet: '?',
+};
+
+// Keys that always do the same thing and cannot be bound to an action
+export const RESERVED_KEYS: ReadonlySet<string> = new Set(['Escape', 'Tab', 'Shift', 'Control', 'Alt', 'Meta']);
+
+const STORAGE_KEY = 'tree-visualizer-shortcuts';
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+};
+
+/** How a key is written on the keyboard. */
+export const keyLabel = (key: string): string => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+/** The key of a key press as bindings store it. */
+export const normalizeKey = (key: string): string => (key.length === 1 ? key.toLowerCase() : key);
+
+/** The action bound to `key`, if any. */
+export const actionForKey = (bindings: ShortcutBindings, key: string): ShortcutAction | null => {
+  const pressed = normalizeKey(key);
+  return (Object.keys(bindings) as ShortcutAction[]).find(action => bindings[action] === pressed) ?? null;
+};
+
+/** `bindings` with `action` on `key`; an action that had the key takes over the old key of `action` instead. */
+export const rebind = (bindings: ShortcutBindings, action: ShortcutAction, key: string): ShortcutBindings => {
+  const pressed = normalizeKey(key);
+  const holder = actionForKey(bindings, pressed);
+  const next = { ...bindings, [action]: pressed };
+  if (holder && holder !== action) next[holder] = bindings[action];
+  return next;
+};
+
+/** The bindings saved in this browser; anything missing or unreadable keeps its default. */
+export const loadShortcuts = (): ShortcutBindings => {
+  const bindings = { ...DEFAULT_SHORTCUTS };
+  let saved: unknown;
+  try {
+    saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+  } catch {
+    return bindings;
+  }
+  if (typeof saved !== 'object' || saved === null) return bindings;
+  for (const action of Object.keys(bindings) as ShortcutAction[]) {
+    const key = (saved as Partial<Record<ShortcutAction, unknown>>)[action];
+    if (typeof key === 'string' && key && !RESERVED_KEYS.has(key)) bindings[action] = normalizeKey(key);
+  }
+  // A damaged save could bind one key twice, which would leave one of the actions out of reach
+  const keys = Object.values(bindings);
+  return new Set(keys).size === keys.length ? bindings : { ...DEFAULT_SHORTCUTS };
+};
+
+export const saveShortcuts = (bindings: ShortcutBindings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+};
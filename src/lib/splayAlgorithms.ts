@@ -0,0 +1,232 @@
+import { TreeNode, type DeletionStrategy } from '../types/TreeNode';
+import {
+  recordCountDecrement,
+  recordDuplicateInsertion,
+  walkSearch,
+  walkToInsertionPoint,
+  type TreeRecording,
+} from './bstAlgorithms';
+import { TreeStepRecorder } from './treeRecorder';
+import { goesLeft, sameKey, type KeyContext } from './keys';
+import { codeLine } from './codeListings';
+
+const rotateUp = <K>(parent: TreeNode<K>, child: TreeNode<K>): TreeNode<K> =>
+  parent.left === child ? parent.rotateRight() : parent.rotateLeft();
+
+const direction = <K>(parent: TreeNode<K>, child: TreeNode<K>): string => (parent.left === child ? 'RIGHT' : 'LEFT');
+
+// The nodes from `root` down to the one holding `value`, which must be in the tree
+const pathTo = <K>(root: TreeNode<K>, value: K, keys: KeyContext<K>): TreeNode<K>[] => {
+  const path = [root];
+  for (let node = root; !sameKey(keys, value, node.value); ) {
+    node = (goesLeft(keys, value, node.value) ? node.left : node.right)!;
+    path.push(node);
+  }
+  return path;
+};
+
+/**
+ * Splays the last node of `path` (which runs from `root` downwards) up to
+ * `path[top]` with zig, zig-zig and zig-zag steps. Returns the new root.
+ */
+const splay = <K>(
+  root: TreeNode<K>,
+  path: TreeNode<K>[],
+  format: (key: K) => string,
+  recorder: TreeStepRecorder<TreeNode<K>>,
+  top: number = 0
+): TreeNode<K> => {
+  let newRoot = root;
+  let i = path.length - 1;
+  const node = path[i];
+
+  // Hangs `subtree` where `old` used to be, `old` having been at depth `depth` of the path
+  const reattach = (depth: number, old: TreeNode<K>, subtree: TreeNode<K>) => {
+    if (depth === 0) {
+      newRoot = subtree;
+    } else {
+      path[depth - 1].replaceChild(old, subtree);
+    }
+  };
+
+  node.isHighlighted = true;
+  recorder.record(`🌀 Splaying ${format(node.value)} up to ${top === 0 ? 'the root' : `below ${format(path[top - 1].value)}`}`, 600);
+
+  while (i > top) {
+    const parent = path[i - 1];
+
+    if (i - 1 === top) {
+      recorder.record(`↪️ Zig: parent ${format(parent.value)} is the top → rotate ${direction(parent, node)} at ${format(parent.value)}`, 1000);
+      reattach(i - 1, parent, rotateUp(parent, node));
+      i -= 1;
+    } else {
+      const grandparent = path[i - 2];
+      const sameSide = (grandparent.left === parent) === (parent.left === node);
+
+      if (sameSide) {
+        recorder.record(
+          `↪️ Zig-zig: ${format(node.value)} and ${format(parent.value)} lean the same way → rotate ${direction(grandparent, parent)} at ${format(grandparent.value)}, then at ${format(parent.value)}`,
+          1000
+        );
+        reattach(i - 2, grandparent, rotateUp(grandparent, parent));
+        recorder.restructure(newRoot);
+        recorder.record(`🔄 Rotated at grandparent ${format(grandparent.value)}`, 800);
+        reattach(i - 2, parent, rotateUp(parent, node));
+      } else {
+        recorder.record(
+          `↪️ Zig-zag: ${format(node.value)} is an inner grandchild → rotate ${direction(parent, node)} at ${format(parent.value)}, then ${direction(grandparent, parent)} at ${format(grandparent.value)}`,
+          1000
+        );
+        grandparent.replaceChild(parent, rotateUp(parent, node));
+        recorder.restructure(newRoot);
+        recorder.record(`🔄 Rotated at parent ${format(parent.value)}`, 800);
+        reattach(i - 2, grandparent, rotateUp(grandparent, node));
+      }
+      i -= 2;
+    }
+
+    recorder.restructure(newRoot);
+    recorder.record(`🔄 ${format(node.value)} moved up`, 800);
+  }
+
+  node.isHighlighted = false;
+  return newRoot;
+};
+
+/** Inserts `value` as a leaf, then splays it to the root. The result is the new root. */
+export const recordSplayInsertion = <K>(
+  root: TreeNode<K> | null,
+  value: K,
+  keys: KeyContext<K>,
+  silent: boolean = false
+): TreeRecording<K> => {
+  const { format } = keys.type;
+  if (!root) {
+    const newRoot = new TreeNode(value);
+    newRoot.isSearchResult = true;
+    const recorder = new TreeStepRecorder(newRoot, silent);
+    recorder.record(`Created root node with value: ${format(value)}`, 1000, codeLine('insert', 'create'));
+    recorder.clearHighlights(newRoot);
+    return { steps: recorder.steps, result: newRoot };
+  }
+
+  const recorder = new TreeStepRecorder(root, silent);
+  recorder.clearHighlights(root);
+
+  // Touching the existing copy is an access like any other, so it is splayed too
+  if (recordDuplicateInsertion(root, value, keys, recorder)) {
+    const newRoot = splay(root, pathTo(root, value, keys), format, recorder);
+    recorder.record(`✨ ${format(value)} is now the root: accessing it again is cheap`);
+    recorder.clearHighlights(newRoot);
+    return { steps: recorder.steps, result: newRoot };
+  }
+
+  recorder.record(`🔄 Starting splay insertion of ${format(value)}`, 400, codeLine('insert', 'start'));
+  const path = walkToInsertionPoint(root, value, keys, recorder);
+
+  const parent = path[path.length - 1];
+  const inserted = new TreeNode(value);
+  if (goesLeft(keys, value, parent.value)) {
+    parent.left = inserted;
+  } else {
+    parent.right = inserted;
+  }
+  inserted.isSearchResult = true;
+  recorder.restructure(root);
+  recorder.record(`🎉 Inserted ${format(value)} as a leaf`, 1000);
+  recorder.clearHighlights(root);
+  inserted.isSearchResult = true;
+
+  const newRoot = splay(root, [...path, inserted], format, recorder);
+  recorder.record(`✨ ${format(value)} successfully added and splayed to the root!`);
+  recorder.clearHighlights(newRoot);
+  return { steps: recorder.steps, result: newRoot };
+};
+
+/**
+ * Searches for `value` and splays the match, or the last node visited when
+ * there is no match, to the root. The result is the new root.
+ */
+export const recordSplaySearch = <K>(
+  root: TreeNode<K>,
+  value: K,
+  keys: KeyContext<K>,
+  silent: boolean = false
+): TreeRecording<K> => {
+  const { format } = keys.type;
+  const recorder = new TreeStepRecorder(root, silent);
+  recorder.clearHighlights(root);
+  recorder.record(`🔍 Searching for value: ${format(value)}`, 400);
+
+  const path = walkSearch(root, value, keys, recorder);
+  const last = path[path.length - 1];
+  if (!sameKey(keys, value, last.value)) {
+    recorder.record(`💡 Even a miss splays the last node visited (${format(last.value)})`, 1000);
+  }
+
+  const newRoot = splay(root, path, format, recorder);
+  recorder.record(`✨ ${format(last.value)} is now the root: accessing it again is cheap`);
+  recorder.clearHighlights(newRoot);
+  return { steps: recorder.steps, result: newRoot };
+};
+
+/**
+ * Splays `value` to the root, removes it and joins the two subtrees by
+ * splaying the maximum of the left subtree. The result is the new root.
+ */
+export const recordSplayDeletion = <K>(
+  root: TreeNode<K>,
+  value: K,
+  keys: KeyContext<K>,
+  _strategy: DeletionStrategy,
+  silent: boolean = false
+): TreeRecording<K> => {
+  const { format } = keys.type;
+  const recorder = new TreeStepRecorder(root, silent);
+  recorder.clearHighlights(root);
+  recorder.record(`🗑️ Starting splay deletion of ${format(value)}`, 400);
+
+  if (recordCountDecrement(root, value, keys, recorder)) {
+    return { steps: recorder.steps, result: root };
+  }
+
+  const path = walkSearch(root, value, keys, recorder);
+  const target = path[path.length - 1];
+  recorder.clearHighlights(root);
+  const splayed = splay(root, path, format, recorder);
+
+  if (!sameKey(keys, value, target.value)) {
+    recorder.record(`❌ Value ${format(value)} not found in tree - nothing to delete (${format(target.value)} was splayed)`);
+    recorder.clearHighlights(splayed);
+    return { steps: recorder.steps, result: splayed };
+  }
+
+  target.isSearchResult = true;
+  recorder.record(`🎯 ${format(value)} is at the root → remove it`);
+
+  let newRoot: TreeNode<K> | null;
+  if (!target.left) {
+    recorder.record(`🔗 No left subtree: the right subtree becomes the tree`);
+    newRoot = target.right;
+  } else {
+    // Splay the maximum of the left subtree to just below the root; it then has no right child
+    const maxPath = [target];
+    for (let node: TreeNode<K> | null = target.left; node; node = node.right) {
+      maxPath.push(node);
+    }
+    const max = maxPath[maxPath.length - 1];
+    max.isVisited = true;
+    recorder.record(`🔎 Join: the maximum of the left subtree is ${format(max.value)}`);
+    splay(target, maxPath, format, recorder, 1);
+    max.isVisited = false;
+
+    recorder.record(`🔗 ${format(max.value)} has no right child → hang ${format(value)}'s right subtree there`, 1000);
+    max.right = target.right;
+    newRoot = max;
+  }
+
+  recorder.restructure(newRoot);
+  recorder.record(`✅ Node ${format(value)} successfully deleted!`);
+  recorder.clearHighlights(newRoot);
+  return { steps: recorder.steps, result: newRoot };
+};
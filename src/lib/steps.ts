@@ -0,0 +1,54 @@
+import type { CodeLocation } from './codeListings';
+
+/**
+ * A single recorded moment of an algorithm: what the canvas should show
+ * (`frame`) and what the Algorithm Log should say about it.
+ */
+export interface AlgorithmStep<TFrame> {
+  message: string;
+  frame: TFrame;
+  // How long the step stays on screen at 1x speed, in milliseconds
+  duration: number;
+  // The line of the algorithm's code the step is at, for the code panel
+  line?: CodeLocation;
+}
+
+/** The result of running an algorithm: the recorded steps and whatever it produced. */
+export interface Recording<TFrame, TResult = void> {
+  steps: AlgorithmStep<TFrame>[];
+  result: TResult;
+}
+
+export const DEFAULT_STEP_DURATION = 800;
+
+/** One moment of several recordings played side by side: each one's frame, and its message if it has a recording. */
+export interface ParallelFrame<TFrame> {
+  frames: TFrame[];
+  messages: (string | null)[];
+}
+
+/**
+ * Interleaves recordings so that they play in lockstep. A recording that has
+ * run out keeps showing its last step, and a missing one shows its entry of
+ * `idle`; each step lasts as long as the slowest recording still running.
+ * The combined message names each recording by its entry of `labels`.
+ */
+export const playInParallel = <TFrame>(
+  recordings: (AlgorithmStep<TFrame>[] | null)[],
+  idle: TFrame[],
+  labels: string[]
+): AlgorithmStep<ParallelFrame<TFrame>>[] => {
+  const length = Math.max(0, ...recordings.map(steps => steps?.length ?? 0));
+  return Array.from({ length }, (_, index) => {
+    const current = recordings.map(steps => (steps && steps.length > 0 ? steps[Math.min(index, steps.length - 1)] : null));
+    const running = recordings.flatMap((steps, pane) => (steps && index < steps.length ? [pane] : []));
+    return {
+      message: running.map(pane => `${labels[pane]}: ${current[pane]!.message}`).join('  |  '),
+      duration: Math.max(...running.map(pane => current[pane]!.duration)),
+      frame: {
+        frames: current.map((step, pane) => step?.frame ?? idle[pane]),
+        messages: current.map(step => step?.message ?? null),
+      },
+    };
+  });
+};
@@ -0,0 +1,166 @@
+export type LayoutOrientation = 'top-down' | 'left-right';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface TidyLayoutOptions<T> {
+  // Children in display order. `null` marks an empty slot, like the missing
+  // child of a binary node, which keeps a lone child off-centre on its side.
+  children: (node: T) => readonly (T | null)[];
+  // Extent of a node across its level: its width top-down, its height left-to-right
+  breadth: (node: T) => number;
+  // Smallest gap between neighbouring nodes on the same level
+  siblingGap: number;
+  // Distance between the centres of consecutive levels
+  levelGap: number;
+  orientation?: LayoutOrientation;
+}
+
+/**
+ * Leftmost and rightmost edges of a subtree on every level, relative to the
+ * subtree root's centre. Levels are stored deepest first and offset by
+ * `shift`, so that adding a parent level on top and moving a whole subtree
+ * sideways are both constant time.
+ */
+interface Contour {
+  left: number[];
+  right: number[];
+  shift: number;
+}
+
+const leftAt = (contour: Contour, depth: number): number =>
+  contour.left[contour.left.length - 1 - depth] + contour.shift;
+
+const rightAt = (contour: Contour, depth: number): number =>
+  contour.right[contour.right.length - 1 - depth] + contour.shift;
+
+/**
+ * Merges `placed`, the contour of a subtree moved `offset` to the right, into
+ * `merged`. Only the levels both share are touched: the deeper contour's
+ * arrays are reused for the result, which keeps the whole layout linear.
+ */
+const mergeContours = (merged: Contour, placed: Contour, offset: number): Contour => {
+  const [base, other, otherOffset] =
+    placed.left.length > merged.left.length
+      ? [{ ...placed, shift: placed.shift + offset }, merged, 0]
+      : [merged, placed, offset];
+  for (let depth = 0; depth < other.left.length; depth++) {
+    const index = base.left.length - 1 - depth;
+    base.left[index] = Math.min(leftAt(base, depth), leftAt(other, depth) + otherOffset) - base.shift;
+    base.right[index] = Math.max(rightAt(base, depth), rightAt(other, depth) + otherOffset) - base.shift;
+  }
+  return base;
+};
+
+/**
+ * Reingold–Tilford tidy layout. Every subtree is laid out on its own, then
+ * siblings are pushed together until their facing contours are exactly
+ * `siblingGap` apart on the closest level, and the parent is centred over its
+ * first and last child slot. Nodes never overlap, identical subtrees get
+ * identical shapes, and mirrored trees get mirrored layouts.
+ *
+ * Runs in linear time without recursion, so degenerate trees thousands of
+ * levels deep are fine. Returns the centre of every node; the root is at
+ * (0, 0) and depth grows downwards (top-down) or to the right (left-to-right).
+ */
+export const tidyLayout = <T>(root: T, options: TidyLayoutOptions<T>): Map<T, Point> => {
+  const { children, breadth, siblingGap, levelGap, orientation = 'top-down' } = options;
+
+  // Pre-order, so walking it backwards sees every child before its parent
+  const order: T[] = [];
+  const stack: T[] = [root];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    order.push(node);
+    for (const child of children(node)) {
+      if (child !== null) stack.push(child);
+    }
+  }
+
+  // Offset of every node from its parent's centre, along the level
+  const offsets = new Map<T, number>();
+  const contours = new Map<T, Contour>();
+
+  for (let i = order.length - 1; i >= 0; i--) {
+    const node = order[i];
+    const half = breadth(node) / 2;
+
+    // Contour of the children placed so far, relative to the first slot
+    let merged: Contour | null = null;
+    // Right edge of the child level, counting empty slots, which take no room below it
+    let frontier: number | null = null;
+    const slotOffsets: number[] = [];
+    const placed: { child: T; offset: number }[] = [];
+
+    for (const slot of children(node)) {
+      if (slot === null) {
+        const offset: number = frontier === null ? 0 : frontier + siblingGap;
+        slotOffsets.push(offset);
+        frontier = offset;
+        continue;
+      }
+
+      const contour = contours.get(slot)!;
+      contours.delete(slot);
+      let offset = frontier === null ? 0 : frontier + siblingGap - leftAt(contour, 0);
+      if (merged) {
+        const shared = Math.min(merged.left.length, contour.left.length);
+        for (let depth = 0; depth < shared; depth++) {
+          offset = Math.max(offset, rightAt(merged, depth) + siblingGap - leftAt(contour, depth));
+        }
+      }
+
+      frontier = Math.max(frontier ?? -Infinity, rightAt(contour, 0) + offset);
+      merged = merged ? mergeContours(merged, contour, offset) : { ...contour, shift: contour.shift + offset };
+      slotOffsets.push(offset);
+      placed.push({ child: slot, offset });
+    }
+
+    if (!merged) {
+      contours.set(node, { left: [-half], right: [half], shift: 0 });
+      continue;
+    }
+
+    const centre = (slotOffsets[0] + slotOffsets[slotOffsets.length - 1]) / 2;
+    for (const { child, offset } of placed) {
+      offsets.set(child, offset - centre);
+    }
+    merged.shift -= centre;
+    merged.left.push(-half - merged.shift);
+    merged.right.push(half - merged.shift);
+    contours.set(node, merged);
+  }
+
+  const positions = new Map<T, Point>();
+  const along = new Map<T, number>([[root, 0]]);
+  const depths = new Map<T, number>([[root, 0]]);
+  for (const node of order) {
+    const x = along.get(node)!;
+    const depth = depths.get(node)!;
+    const across = depth * levelGap;
+    positions.set(node, orientation === 'top-down' ? { x, y: across } : { x: across, y: x });
+    for (const child of children(node)) {
+      if (child === null) continue;
+      along.set(child, x + offsets.get(child)!);
+      depths.set(child, depth + 1);
+    }
+  }
+
+  return positions;
+};
+
+/** What the user picks for a tree drawing; each canvas turns it into gaps that suit its node sizes. */
+export interface LayoutSettings {
+  orientation: LayoutOrientation;
+  // Tighter gaps between siblings and levels, for large trees
+  compact: boolean;
+}
+
+export const DEFAULT_LAYOUT: LayoutSettings = { orientation: 'top-down', compact: false };
+
+export const LAYOUT_ORIENTATIONS: Record<LayoutOrientation, string> = {
+  'top-down': 'Top-down',
+  'left-right': 'Left-to-right',
+};
@@ -0,0 +1,264 @@
+import type { TreeNode } from '../types/TreeNode';
+import type { KeyContext } from './keys';
+import { DEFAULT_STEP_DURATION, type AlgorithmStep, type Recording } from './steps';
+import { codeLine, type CodeLocation } from './codeListings';
+import { TreeStepRecorder, type TreeFrame } from './treeRecorder';
+
+/** Traversals that keep their pending nodes in an explicit stack, queue or deque. */
+export type WorkListTraversal =
+  | 'levelorder'
+  | 'zigzag'
+  | 'iterative-preorder'
+  | 'iterative-inorder'
+  | 'iterative-postorder';
+
+export type WorkListKind = 'stack' | 'queue' | 'deque';
+
+/** The pending nodes at one step, in order: front to back for queues, bottom to top for stacks. */
+export interface WorkListSnapshot {
+  kind: WorkListKind;
+  items: { id: number; label: string }[];
+}
+
+/** A tree frame that also shows the traversal's stack or queue. */
+export interface TraversalFrame<K> extends TreeFrame<TreeNode<K>> {
+  workList?: WorkListSnapshot;
+}
+
+export type TraversalRecording<K> = Recording<TraversalFrame<K>, K[]>;
+
+export const WORK_LIST_TRAVERSALS: Record<WorkListTraversal, { label: string; kind: WorkListKind }> = {
+  levelorder: { label: 'Level-order (BFS)', kind: 'queue' },
+  zigzag: { label: 'Zigzag level-order', kind: 'deque' },
+  'iterative-preorder': { label: 'Iterative pre-order', kind: 'stack' },
+  'iterative-inorder': { label: 'Iterative in-order', kind: 'stack' },
+  'iterative-postorder': { label: 'Iterative post-order', kind: 'stack' },
+};
+
+/** Records tree steps together with a snapshot of the work list at each of them. */
+class WorkListRecorder<K> {
+  private readonly recorder: TreeStepRecorder<TreeNode<K>>;
+  private readonly snapshots: WorkListSnapshot[] = [];
+  private readonly kind: WorkListKind;
+  private readonly format: (key: K) => string;
+  // Shared with the algorithm, which pushes and pops on it directly
+  readonly items: TreeNode<K>[] = [];
+
+  constructor(root: TreeNode<K>, kind: WorkListKind, format: (key: K) => string) {
+    this.recorder = new TreeStepRecorder(root);
+    this.kind = kind;
+    this.format = format;
+  }
+
+  label(node: TreeNode<K>): string {
+    return this.format(node.value);
+  }
+
+  record(message: string, duration?: number, line?: CodeLocation): void {
+    this.recorder.record(message, duration, line);
+    this.snapshots.push({
+      kind: this.kind,
+      items: this.items.map(node => ({ id: node.id, label: this.label(node) })),
+    });
+  }
+
+  get steps(): AlgorithmStep<TraversalFrame<K>>[] {
+    return this.recorder.steps.map((step, index) => ({
+      ...step,
+      frame: { ...step.frame, workList: this.snapshots[index] },
+    }));
+  }
+}
+
+const levelOrder = <K>(root: TreeNode<K>, work: WorkListRecorder<K>, visit: (node: TreeNode<K>) => void): void => {
+  const queue = work.items;
+  queue.push(root);
+  work.record(`📥 Enqueue the root`, 600, codeLine('levelorder', 'start'));
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    visit(node);
+
+    const children = [node.left, node.right].filter((child): child is TreeNode<K> => child !== null);
+    if (children.length > 0) {
+      queue.push(...children);
+      node.isHighlighted = true;
+      work.record(
+        `📥 Enqueue its children at the back: ${children.map(child => work.label(child)).join(', ')}`,
+        600,
+        codeLine('levelorder', 'push')
+      );
+      node.isHighlighted = false;
+    }
+  }
+};
+
+/**
+ * Level-order with alternating directions. Left-to-right levels are taken
+ * from the front of the deque and push their children (left first) at the
+ * back; right-to-left levels are taken from the back and push their children
+ * (right first) at the front, so the next level is read the other way.
+ */
+const zigzag = <K>(root: TreeNode<K>, work: WorkListRecorder<K>, visit: (node: TreeNode<K>) => void): void => {
+  const deque = work.items;
+  deque.push(root);
+  work.record(`📥 Put the root in the deque`, 600, codeLine('zigzag', 'start'));
+
+  for (let level = 0, leftToRight = true; deque.length > 0; level++, leftToRight = !leftToRight) {
+    work.record(
+      `↔️ Level ${level}: read ${leftToRight ? 'left → right (take from the front)' : 'right → left (take from the back)'}`,
+      800,
+      codeLine('zigzag', 'level')
+    );
+
+    const next: TreeNode<K>[] = [];
+    for (let remaining = deque.length; remaining > 0; remaining--) {
+      const node = leftToRight ? deque.shift()! : deque.pop()!;
+      visit(node);
+
+      const children = leftToRight ? [node.left, node.right] : [node.right, node.left];
+      for (const child of children) {
+        if (child) next.push(child);
+      }
+    }
+
+    if (next.length > 0) {
+      if (leftToRight) {
+        deque.push(...next);
+      } else {
+        deque.unshift(...next.reverse());
+      }
+      work.record(
+        `📥 Level ${level + 1} goes in at the ${leftToRight ? 'back' : 'front'}: ${next.map(child => work.label(child)).join(', ')}`,
+        600,
+        codeLine('zigzag', 'push')
+      );
+    }
+  }
+};
+
+const iterativePreorder = <K>(root: TreeNode<K>, work: WorkListRecorder<K>, visit: (node: TreeNode<K>) => void): void => {
+  const stack = work.items;
+  stack.push(root);
+  work.record(`📥 Push the root`, 600, codeLine('iterative-preorder', 'start'));
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    visit(node);
+
+    // Right goes in first so that left comes out first
+    const children = [node.right, node.left].filter((child): child is TreeNode<K> => child !== null);
+    if (children.length > 0) {
+      stack.push(...children);
+      node.isHighlighted = true;
+      work.record(
+        `📥 Push ${children.map(child => work.label(child)).join(' then ')}: right first, so left is popped first`,
+        600,
+        codeLine('iterative-preorder', 'push')
+      );
+      node.isHighlighted = false;
+    }
+  }
+};
+
+const iterativeInorder = <K>(root: TreeNode<K>, work: WorkListRecorder<K>, visit: (node: TreeNode<K>) => void): void => {
+  const stack = work.items;
+  let current: TreeNode<K> | null = root;
+
+  while (current || stack.length > 0) {
+    while (current) {
+      stack.push(current);
+      current.isHighlighted = true;
+      work.record(
+        `📥 Push ${work.label(current)} and go left (like a recursive call that has not visited yet)`,
+        600,
+        codeLine('iterative-inorder', 'left')
+      );
+      current.isHighlighted = false;
+      current = current.left;
+    }
+
+    const node = stack.pop()!;
+    visit(node);
+    if (node.right) {
+      work.record(`➡️ Continue with the right subtree of ${work.label(node)}`, 500, codeLine('iterative-inorder', 'right'));
+    }
+    current = node.right;
+  }
+};
+
+/**
+ * One-stack post-order: a node is only popped once its right subtree has
+ * been finished, which is detected by remembering the last node visited.
+ */
+const iterativePostorder = <K>(root: TreeNode<K>, work: WorkListRecorder<K>, visit: (node: TreeNode<K>) => void): void => {
+  const stack = work.items;
+  let current: TreeNode<K> | null = root;
+  let lastVisited: TreeNode<K> | null = null;
+
+  while (current || stack.length > 0) {
+    if (current) {
+      stack.push(current);
+      current.isHighlighted = true;
+      work.record(`📥 Push ${work.label(current)} and go left`, 600, codeLine('iterative-postorder', 'left'));
+      current.isHighlighted = false;
+      current = current.left;
+      continue;
+    }
+
+    const top = stack[stack.length - 1];
+    if (top.right && top.right !== lastVisited) {
+      top.isHighlighted = true;
+      work.record(
+        `👀 Top ${work.label(top)} has an unfinished right subtree → go right first`,
+        600,
+        codeLine('iterative-postorder', 'right')
+      );
+      top.isHighlighted = false;
+      current = top.right;
+    } else {
+      stack.pop();
+      visit(top);
+      lastVisited = top;
+    }
+  }
+};
+
+const TRAVERSALS: Record<
+  WorkListTraversal,
+  <K>(root: TreeNode<K>, work: WorkListRecorder<K>, visit: (node: TreeNode<K>) => void) => void
+> = {
+  levelorder: levelOrder,
+  zigzag,
+  'iterative-preorder': iterativePreorder,
+  'iterative-inorder': iterativeInorder,
+  'iterative-postorder': iterativePostorder,
+};
+
+/** Records a traversal driven by an explicit stack, queue or deque; the result is the visiting order. */
+export const recordWorkListTraversal = <K>(
+  root: TreeNode<K>,
+  type: WorkListTraversal,
+  keys: KeyContext<K>
+): TraversalRecording<K> => {
+  const { format } = keys.type;
+  const { label, kind } = WORK_LIST_TRAVERSALS[type];
+  root.clearHighlights();
+  const work = new WorkListRecorder(root, kind, format);
+  work.record(`Starting ${label} with an explicit ${kind}`, 400, codeLine(type, 'start'));
+
+  const visitedOrder: K[] = [];
+  const visit = (node: TreeNode<K>) => {
+    node.isHighlighted = true;
+    node.isVisited = true;
+    visitedOrder.push(node.value);
+    work.record(`👣 ${kind === 'stack' ? 'Pop' : 'Take'} ${format(node.value)} → visit it`, DEFAULT_STEP_DURATION, codeLine(type, 'visit'));
+    node.isHighlighted = false;
+  };
+
+  TRAVERSALS[type](root, work, visit);
+
+  work.record(`${label} result: ${visitedOrder.map(format).join(' → ')}`, 1000);
+  root.clearHighlights();
+  return { steps: work.steps, result: visitedOrder };
+};
@@ -0,0 +1,158 @@
+import { TreeNode, type DeletionStrategy } from '../types/TreeNode';
+import {
+  recordCountDecrement,
+  recordDuplicateInsertion,
+  walkSearch,
+  walkToInsertionPoint,
+  type TreeRecording,
+} from './bstAlgorithms';
+import { TreeStepRecorder } from './treeRecorder';
+import { goesLeft, sameKey, type KeyContext } from './keys';
+import { codeLine } from './codeListings';
+
+export const MAX_PRIORITY = 99;
+
+const randomPriority = (): number => 1 + Math.floor(Math.random() * MAX_PRIORITY);
+
+/**
+ * Inserts `value` as a leaf with a random priority, then rotates it up while
+ * its priority beats its parent's (max-heap order). The result is the new root.
+ */
+export const recordTreapInsertion = <K>(
+  root: TreeNode<K> | null,
+  value: K,
+  keys: KeyContext<K>,
+  silent: boolean = false
+): TreeRecording<K> => {
+  const { format } = keys.type;
+  if (!root) {
+    const newRoot = new TreeNode(value);
+    newRoot.priority = randomPriority();
+    newRoot.isSearchResult = true;
+    const recorder = new TreeStepRecorder(newRoot, silent);
+    recorder.record(`Created root node with value: ${format(value)} and random priority ${newRoot.priority}`, 1000, codeLine('insert', 'create'));
+    recorder.clearHighlights(newRoot);
+    return { steps: recorder.steps, result: newRoot };
+  }
+
+  const recorder = new TreeStepRecorder(root, silent);
+  recorder.clearHighlights(root);
+
+  if (recordDuplicateInsertion(root, value, keys, recorder)) {
+    return { steps: recorder.steps, result: root };
+  }
+
+  recorder.record(`🔄 Starting treap insertion of ${format(value)}`, 400, codeLine('insert', 'start'));
+  const path = walkToInsertionPoint(root, value, keys, recorder);
+
+  const inserted = new TreeNode(value);
+  inserted.priority = randomPriority();
+  const leafParent = path[path.length - 1];
+  if (goesLeft(keys, value, leafParent.value)) {
+    leafParent.left = inserted;
+  } else {
+    leafParent.right = inserted;
+  }
+  recorder.clearHighlights(root);
+  inserted.isSearchResult = true;
+  recorder.restructure(root);
+  recorder.record(`🎲 Inserted ${format(value)} as a leaf with random priority ${inserted.priority}`, 1000);
+
+  let newRoot = root;
+  for (let i = path.length - 1; i >= 0; i--) {
+    const parent = path[i];
+    parent.isHighlighted = true;
+
+    if (parent.priority >= inserted.priority) {
+      recorder.record(`✓ Parent ${format(parent.value)} has priority ${parent.priority} ≥ ${inserted.priority}: heap order holds`);
+      parent.isHighlighted = false;
+      break;
+    }
+
+    const isLeft = parent.left === inserted;
+    recorder.record(
+      `⚠️ Heap order violated: ${inserted.priority} > parent ${format(parent.value)}'s ${parent.priority} → rotate ${isLeft ? 'RIGHT' : 'LEFT'} at ${format(parent.value)}`,
+      1000
+    );
+    const subtree = isLeft ? parent.rotateRight() : parent.rotateLeft();
+    if (i === 0) {
+      newRoot = subtree;
+    } else {
+      path[i - 1].replaceChild(parent, subtree);
+    }
+    parent.isHighlighted = false;
+    recorder.restructure(newRoot);
+    recorder.record(`🔄 ${format(value)} moved above ${format(parent.value)}`);
+  }
+
+  recorder.record(`✨ ${format(value)} successfully added! BST order on values, heap order on priorities.`);
+  recorder.clearHighlights(newRoot);
+  return { steps: recorder.steps, result: newRoot };
+};
+
+/**
+ * Rotates the node holding `value` down, always lifting the child with the
+ * higher priority, until it is a leaf and can simply be cut off. The result
+ * is the new root.
+ */
+export const recordTreapDeletion = <K>(
+  root: TreeNode<K>,
+  value: K,
+  keys: KeyContext<K>,
+  _strategy: DeletionStrategy,
+  silent: boolean = false
+): TreeRecording<K> => {
+  const { format } = keys.type;
+  const recorder = new TreeStepRecorder(root, silent);
+  recorder.clearHighlights(root);
+  recorder.record(`🗑️ Starting treap deletion of ${format(value)}`, 400);
+
+  if (recordCountDecrement(root, value, keys, recorder)) {
+    return { steps: recorder.steps, result: root };
+  }
+
+  const path = walkSearch(root, value, keys, recorder);
+  const target = path[path.length - 1];
+  if (!sameKey(keys, value, target.value)) {
+    recorder.clearHighlights(root);
+    return { steps: recorder.steps, result: root };
+  }
+
+  recorder.clearHighlights(root);
+  target.isSearchResult = true;
+  let newRoot: TreeNode<K> | null = root;
+  let parent = path.length > 1 ? path[path.length - 2] : null;
+
+  while (target.left || target.right) {
+    const liftLeft = !target.right || (target.left !== null && target.left.priority > target.right.priority);
+    const child = (liftLeft ? target.left : target.right)!;
+    child.isHighlighted = true;
+    recorder.record(
+      `⬇️ ${format(value)} is not a leaf → lift its higher-priority child ${format(child.value)} (${child.priority}) with a ${liftLeft ? 'RIGHT' : 'LEFT'} rotation`,
+      1000
+    );
+
+    const subtree = liftLeft ? target.rotateRight() : target.rotateLeft();
+    if (parent) {
+      parent.replaceChild(target, subtree);
+    } else {
+      newRoot = subtree;
+    }
+    parent = subtree;
+    child.isHighlighted = false;
+    recorder.restructure(newRoot);
+    recorder.record(`🔄 ${format(value)} moved one level down`);
+  }
+
+  recorder.record(`🍃 ${format(value)} is now a leaf → cut it off`, 1000);
+  if (parent) {
+    parent.replaceChild(target, null);
+  } else {
+    newRoot = null;
+  }
+
+  recorder.restructure(newRoot);
+  recorder.record(`✅ Node ${format(value)} successfully deleted!`);
+  recorder.clearHighlights(newRoot);
+  return { steps: recorder.steps, result: newRoot };
+};
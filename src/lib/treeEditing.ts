@@ -0,0 +1,59 @@
+import { TreeNode } from '../types/TreeNode';
+
+/**
+ * Hand edits of a plain binary tree, by node id. They change the tree in
+ * place, like the operations of the tree modes, and ignore the key order on
+ * purpose: the editor is for drawing any binary tree, sorted or not. Each
+ * returns false and leaves the tree alone when the edit is not possible.
+ */
+
+export type ChildSide = 'left' | 'right';
+
+interface Located<K> {
+  node: TreeNode<K>;
+  parent: TreeNode<K> | null;
+}
+
+const locate = <K>(root: TreeNode<K>, id: number): Located<K> | null => {
+  const pending: Located<K>[] = [{ node: root, parent: null }];
+  while (pending.length > 0) {
+    const entry = pending.pop()!;
+    if (entry.node.id === id) return entry;
+    if (entry.node.right) pending.push({ node: entry.node.right, parent: entry.node });
+    if (entry.node.left) pending.push({ node: entry.node.left, parent: entry.node });
+  }
+  return null;
+};
+
+/** Whether `id` is `ancestor` itself or somewhere below it. */
+export const isInSubtree = <K>(ancestor: TreeNode<K>, id: number): boolean => locate(ancestor, id) !== null;
+
+/** Hangs a new leaf holding `value` on the empty `side` of node `parentId`. */
+export const addChild = <K>(root: TreeNode<K>, parentId: number, side: ChildSide, value: K): boolean => {
+  const parent = locate(root, parentId)?.node;
+  if (!parent || parent[side]) return false;
+  parent[side] = new TreeNode(value);
+  return true;
+};
+
+/** Replaces the key of node `id`, keeping its place in the tree. */
+export const setKey = <K>(root: TreeNode<K>, id: number, value: K): boolean => {
+  const node = locate(root, id)?.node;
+  if (!node) return false;
+  node.value = value;
+  return true;
+};
+
+/**
+ * Cuts the subtree of node `id` from its parent and hangs it on the empty
+ * `side` of node `parentId`. The root has no parent to be cut from, and a
+ * subtree cannot be moved below itself.
+ */
+export const moveSubtree = <K>(root: TreeNode<K>, id: number, parentId: number, side: ChildSide): boolean => {
+  const moved = locate(root, id);
+  const target = locate(root, parentId)?.node;
+  if (!moved?.parent || !target || target[side] || isInSubtree(moved.node, parentId)) return false;
+  moved.parent.replaceChild(moved.node, null);
+  target[side] = moved.node;
+  return true;
+};
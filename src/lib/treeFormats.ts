@@ -0,0 +1,651 @@
+import { TreeNode, type NodeColor } from '../types/TreeNode';
+import { balanceFactor, formatBalance } from './avlAlgorithms';
+import { checkRedBlackInvariants } from './redBlackAlgorithms';
+import { isSearchTree } from './validationAlgorithms';
+import { TREE_MODES, buildTree, type TreeMode } from './treeModes';
+import {
+  DUPLICATE_POLICIES,
+  KEY_TYPES,
+  type DuplicatePolicy,
+  type KeyContext,
+  type KeyType,
+  type KeyTypeId,
+  type TreeKey,
+} from './keys';
+
+export type TreeFormat = 'json' | 'level-order' | 'sequence';
+
+export const TREE_FORMATS: Record<TreeFormat, { label: string; description: string; placeholder: string }> = {
+  json: {
+    label: 'JSON',
+    description: 'The exact tree, with its mode, key type and per-node colors or priorities',
+    placeholder: '{"mode": "bst", "keyType": "number", "root": {"key": 5, "left": {"key": 3}}}',
+  },
+  'level-order': {
+    label: 'Level order',
+    description: 'LeetCode-style array read level by level, null for a missing child; imported as a plain binary tree, sorted or not',
+    placeholder: '[5, 3, 8, null, 4]',
+  },
+  sequence: {
+    label: 'Sequence',
+    description: 'Keys inserted one after another into a tree of the current mode',
+    placeholder: '50, 30, 70, 20, 40',
+  },
+};
+
+/** A tree together with everything needed to rebuild it. */
+export interface TreeDocument {
+  mode: TreeMode;
+  keyTypeId: KeyTypeId;
+  duplicates: DuplicatePolicy;
+  root: TreeNode<TreeKey> | null;
+}
+
+export type TreeSettings = Omit<TreeDocument, 'root'>;
+
+/** Input that could not be read as a tree; `start` and `end` delimit the offending token. */
+export class TreeParseError extends Error {
+  readonly start: number;
+  readonly end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.name = 'TreeParseError';
+    this.start = start;
+    this.end = end;
+  }
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const failAt = (span: Span, message: string): never => {
+  throw new TreeParseError(message, span.start, span.end);
+};
+
+// ---------------------------------------------------------------------------
+// JSON with source positions
+
+interface Token extends Span {
+  kind: 'punctuation' | 'string' | 'number' | 'word' | 'end';
+  text: string;
+}
+
+const TOKEN_PATTERN = /\s+|[{}[\],:]|"(?:[^"\\\n]|\\.)*"|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|[A-Za-z_][\w-]*/y;
+
+const tokenKind = (text: string): Token['kind'] => {
+  if (text.startsWith('"')) return 'string';
+  if (/^[-\d]/.test(text)) return 'number';
+  if (/^[A-Za-z_]/.test(text)) return 'word';
+  return 'punctuation';
+};
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < text.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(text);
+    if (!match) {
+      const span = { start, end: start + 1 };
+      if (text[start] === '"') failAt({ start, end: text.length }, 'Unterminated string');
+      failAt(span, `Unexpected character '${text[start]}'`);
+    }
+    const token = match![0];
+    if (!/^\s/.test(token)) {
+      tokens.push({ kind: tokenKind(token), text: token, start, end: start + token.length });
+    }
+  }
+  tokens.push({ kind: 'end', text: '', start: text.length, end: text.length });
+  return tokens;
+};
+
+const describeToken = (token: Token): string =>
+  token.kind === 'end' ? 'the end of the input' : `'${token.text.length > 20 ? `${token.text.slice(0, 20)}…` : token.text}'`;
+
+const stringOf = (token: Token): string => {
+  try {
+    return JSON.parse(token.text);
+  } catch {
+    return failAt(token, `Invalid escape sequence in ${describeToken(token)}`);
+  }
+};
+
+type JsonValue =
+  | (Span & { kind: 'literal'; value: string | number | boolean | null })
+  | JsonArray
+  | JsonObject;
+
+interface JsonArray extends Span {
+  kind: 'array';
+  items: JsonValue[];
+}
+
+interface JsonObject extends Span {
+  kind: 'object';
+  fields: Map<string, { name: Token; value: JsonValue }>;
+}
+
+const LITERAL_WORDS: Record<string, boolean | null> = { true: true, false: false, null: null };
+
+/**
+ * Parses JSON while keeping where every value came from. Containers are
+ * tracked on an explicit stack, so exports of trees thousands of levels deep
+ * read back without exhausting the call stack.
+ */
+const parseJson = (text: string): JsonValue => {
+  const tokens = tokenize(text);
+  let next = 0;
+  const take = (): Token => tokens[Math.min(next++, tokens.length - 1)];
+  const unexpected = (token: Token, expected: string): never =>
+    failAt(token, `Expected ${expected} but found ${describeToken(token)}`);
+
+  // Containers still waiting for their closing bracket, innermost last
+  const open: { container: JsonArray | JsonObject; name: Token | null }[] = [];
+
+  const takeName = (frame: (typeof open)[number]) => {
+    const name = take();
+    if (name.kind !== 'string') unexpected(name, 'a field name in double quotes');
+    const colon = take();
+    if (colon.text !== ':') unexpected(colon, "':'");
+    frame.name = name;
+  };
+
+  for (;;) {
+    // A value starts here
+    const token = take();
+    let value: JsonValue;
+    if (token.text === '[' || token.text === '{') {
+      const container: JsonArray | JsonObject =
+        token.text === '['
+          ? { kind: 'array', items: [], start: token.start, end: token.end }
+          : { kind: 'object', fields: new Map(), start: token.start, end: token.end };
+      if (tokens[next].text === (container.kind === 'array' ? ']' : '}')) {
+        container.end = take().end;
+        value = container;
+      } else {
+        const frame = { container, name: null };
+        open.push(frame);
+        if (container.kind === 'object') takeName(frame);
+        continue;
+      }
+    } else if (token.kind === 'string') {
+      value = { kind: 'literal', value: stringOf(token), start: token.start, end: token.end };
+    } else if (token.kind === 'number') {
+      value = { kind: 'literal', value: Number(token.text), start: token.start, end: token.end };
+    } else if (token.kind === 'word' && token.text in LITERAL_WORDS) {
+      value = { kind: 'literal', value: LITERAL_WORDS[token.text], start: token.start, end: token.end };
+    } else {
+      return unexpected(token, 'a value');
+    }
+
+    // Hand the value to the enclosing containers, closing every one that ends right after it
+    for (;;) {
+      const frame = open[open.length - 1];
+      if (!frame) {
+        const rest = take();
+        if (rest.kind !== 'end') unexpected(rest, 'the end of the input');
+        return value;
+      }
+
+      const { container } = frame;
+      if (container.kind === 'array') {
+        container.items.push(value);
+      } else {
+        const name = stringOf(frame.name!);
+        if (container.fields.has(name)) failAt(frame.name!, `Duplicate field "${name}"`);
+        container.fields.set(name, { name: frame.name!, value });
+      }
+
+      const close = container.kind === 'array' ? ']' : '}';
+      const separator = take();
+      if (separator.text === ',') {
+        if (container.kind === 'object') takeName(frame);
+        break;
+      }
+      if (separator.text !== close) unexpected(separator, `',' or '${close}'`);
+      container.end = separator.end;
+      open.pop();
+      value = container;
+    }
+  }
+};
+
+// Turns a parsed value back into plain data, for the key types to read
+const plainValue = (value: JsonValue): unknown => {
+  if (value.kind === 'literal') return value.value;
+  if (value.kind === 'array') return value.items.map(plainValue);
+  return {};
+};
+
+const describeValue = (value: JsonValue): string => {
+  if (value.kind === 'array') return 'an array';
+  if (value.kind === 'object') return 'an object';
+  return JSON.stringify(value.value);
+};
+
+const expectObject = (value: JsonValue, expected: string): JsonObject =>
+  value.kind === 'object' ? value : failAt(value, `Expected ${expected} but found ${describeValue(value)}`);
+
+const checkFields = (object: JsonObject, allowed: readonly string[]): void => {
+  for (const [name, field] of object.fields) {
+    if (!allowed.includes(name)) {
+      failAt(field.name, `Unknown field "${name}"; expected one of ${allowed.map(option => `"${option}"`).join(', ')}`);
+    }
+  }
+};
+
+// Reads a field holding one of the keys of `options`
+const choiceField = <T extends string>(
+  object: JsonObject,
+  name: string,
+  options: Record<T, unknown>,
+  fallback: T
+): T => {
+  const field = object.fields.get(name);
+  if (!field) return fallback;
+  const choices = Object.keys(options) as T[];
+  const { value } = field;
+  if (value.kind === 'literal' && choices.includes(value.value as T)) return value.value as T;
+  return failAt(value, `"${name}" must be one of ${choices.map(choice => `"${choice}"`).join(', ')}`);
+};
+
+const integerField = (object: JsonObject, name: string, minimum: number): number | null => {
+  const field = object.fields.get(name);
+  if (!field) return null;
+  const { value } = field;
+  if (value.kind === 'literal' && typeof value.value === 'number' && Number.isInteger(value.value) && value.value >= minimum) {
+    return value.value;
+  }
+  return failAt(value, `"${name}" must be a whole number of at least ${minimum}`);
+};
+
+const booleanField = (object: JsonObject, name: string): boolean | null => {
+  const field = object.fields.get(name);
+  if (!field) return null;
+  const { value } = field;
+  if (value.kind === 'literal' && typeof value.value === 'boolean') return value.value;
+  return failAt(value, `"${name}" must be true or false`);
+};
+
+// ---------------------------------------------------------------------------
+// Reading trees
+
+const DOCUMENT_FIELDS = ['mode', 'keyType', 'duplicates', 'ordered', 'root'] as const;
+const NODE_FIELDS = ['key', 'count', 'color', 'priority', 'left', 'right'] as const;
+const NODE_COLORS: Record<NodeColor, true> = { red: true, black: true };
+
+// Where each node's key was written, by node id, so that errors found after building can point at it
+type KeySources = Map<number, Span>;
+
+const readKey = (value: JsonValue, keys: KeyContext<TreeKey>): TreeKey => {
+  const key = keys.type.fromJson(plainValue(value));
+  return key ?? failAt(value, `Expected a ${keys.type.label.toLowerCase()} key but found ${describeValue(value)}`);
+};
+
+const readNodes = (
+  value: JsonValue,
+  mode: TreeMode,
+  keys: KeyContext<TreeKey>,
+  sources: KeySources
+): TreeNode<TreeKey> | null => {
+  let root: TreeNode<TreeKey> | null = null;
+  const pending: { value: JsonValue; attach: (node: TreeNode<TreeKey>) => void }[] = [
+    { value, attach: node => (root = node) },
+  ];
+
+  while (pending.length > 0) {
+    const { value: current, attach } = pending.pop()!;
+    if (current.kind === 'literal' && current.value === null) continue;
+
+    const object = expectObject(current, 'a node like {"key": 5} or null');
+    checkFields(object, NODE_FIELDS);
+    const keyField = object.fields.get('key') ?? failAt({ start: object.start, end: object.start + 1 }, 'Node has no "key"');
+    const node = new TreeNode(readKey(keyField.value, keys));
+    sources.set(node.id, keyField.value);
+
+    const count = integerField(object, 'count', 1);
+    if (count !== null) {
+      if (count > 1 && keys.duplicates !== 'count') {
+        failAt(object.fields.get('count')!.value, `Counts above 1 need the "count" duplicate policy`);
+      }
+      node.count = count;
+    }
+    if (mode === 'redblack') {
+      node.color = choiceField(object, 'color', NODE_COLORS, 'red');
+      if (!object.fields.has('color')) failAt(keyField.value, 'Red-black nodes need a "color"');
+    }
+    if (mode === 'treap') {
+      node.priority = integerField(object, 'priority', 0) ?? failAt(keyField.value, 'Treap nodes need a "priority"');
+    }
+
+    attach(node);
+    const right = object.fields.get('right');
+    if (right) pending.push({ value: right.value, attach: child => (node.right = child) });
+    const left = object.fields.get('left');
+    if (left) pending.push({ value: left.value, attach: child => (node.left = child) });
+  }
+
+  return root;
+};
+
+/**
+ * Checks that `root` is a valid tree of `mode`, filling in the AVL heights.
+ * Rotations can move equal keys to either side of each other, so the order
+ * is checked on the in-order sequence rather than against ancestors. Trees
+ * drawn by hand in the editor need not be ordered; `ordered` is false for those.
+ */
+const validateTree = (
+  root: TreeNode<TreeKey> | null,
+  mode: TreeMode,
+  keys: KeyContext<TreeKey>,
+  sources: KeySources,
+  ordered: boolean = true
+): void => {
+  if (!root) return;
+  const { compare, format } = keys.type;
+  const at = (node: TreeNode<TreeKey>): Span => sources.get(node.id)!;
+
+  let previous: TreeNode<TreeKey> | null = null;
+  if (ordered) {
+    root.inOrderTraversal(node => {
+      if (previous) {
+        const order = compare(previous.value, node.value);
+        if (order > 0) {
+          failAt(
+            at(node),
+            `${format(node.value)} cannot come after ${format(previous.value)} in a binary search tree${
+              mode === 'bst' ? '; add "ordered": false to keep a hand-drawn tree as it is' : ''
+            }`
+          );
+        }
+        if (order === 0 && (keys.duplicates === 'reject' || keys.duplicates === 'count')) {
+          failAt(at(node), `Duplicate key ${format(node.value)}: the "${keys.duplicates}" duplicate policy keeps one node per key`);
+        }
+      }
+      previous = node;
+    });
+  }
+
+  if (mode === 'avl') {
+    root.postOrderTraversal(node => {
+      node.height = 1 + Math.max(node.left?.height ?? 0, node.right?.height ?? 0);
+      const balance = balanceFactor(node);
+      if (Math.abs(balance) > 1) {
+        failAt(at(node), `${format(node.value)} has balance factor ${formatBalance(balance)}, outside AVL's [-1, +1]`);
+      }
+    });
+  }
+
+  if (mode === 'redblack') {
+    // A red-black tree of n nodes is at most 2·log2(n + 1) levels deep; anything deeper is rejected before the recursive check
+    const size = root.getAllNodes().length;
+    const levels = root.computeHeight();
+    if (levels > 2 * Math.log2(size + 1)) {
+      failAt(at(root), `${levels} levels is too deep for a red-black tree of ${size} nodes`);
+    }
+    const [violation] = checkRedBlackInvariants(root, format);
+    if (violation) {
+      const node = root.getAllNodes().find(candidate => candidate.id === violation.nodeId)!;
+      failAt(at(node), violation.message);
+    }
+  }
+
+  if (mode === 'treap') {
+    root.preOrderTraversal(node => {
+      for (const child of [node.left, node.right]) {
+        if (child && child.priority > node.priority) {
+          failAt(
+            at(child),
+            `Priority ${child.priority} of ${format(child.value)} is above its parent ${format(node.value)}'s ${node.priority}`
+          );
+        }
+      }
+    });
+  }
+};
+
+const readJsonDocument = (text: string, settings: TreeSettings): TreeDocument => {
+  const document = expectObject(parseJson(text), 'a tree like {"root": {"key": 5}}');
+  checkFields(document, DOCUMENT_FIELDS);
+  const mode = choiceField(document, 'mode', TREE_MODES, settings.mode);
+  const keyTypeId = choiceField(document, 'keyType', KEY_TYPES, settings.keyTypeId);
+  const duplicates = choiceField(document, 'duplicates', DUPLICATE_POLICIES, settings.duplicates);
+  const keys = { type: KEY_TYPES[keyTypeId], duplicates };
+  const ordered = booleanField(document, 'ordered') ?? true;
+  if (!ordered && mode !== 'bst') {
+    failAt(document.fields.get('ordered')!.value, `Only plain BSTs can be unordered; ${TREE_MODES[mode].label} trees are always sorted`);
+  }
+
+  const rootField =
+    document.fields.get('root') ?? failAt({ start: document.start, end: document.start + 1 }, 'Missing field "root"');
+  const sources: KeySources = new Map();
+  const root = readNodes(rootField.value, mode, keys, sources);
+  validateTree(root, mode, keys, sources, ordered);
+  return { mode, keyTypeId, duplicates, root };
+};
+
+const isNull = (value: JsonValue): boolean => value.kind === 'literal' && value.value === null;
+
+const readLevelOrder = (text: string, settings: TreeSettings): TreeDocument => {
+  const array = parseJson(text);
+  if (array.kind !== 'array') failAt(array, `Expected an array like [5, 3, 8, null, 4] but found ${describeValue(array)}`);
+  const { items } = array as JsonArray;
+  const keys = { type: KEY_TYPES[settings.keyTypeId], duplicates: settings.duplicates };
+  const sources: KeySources = new Map();
+  const nodeOf = (value: JsonValue): TreeNode<TreeKey> => {
+    const node = new TreeNode(readKey(value, keys));
+    sources.set(node.id, value);
+    return node;
+  };
+
+  let root: TreeNode<TreeKey> | null = null;
+  if (items.length > 0 && !isNull(items[0])) {
+    root = nodeOf(items[0]);
+    // Every node takes the next two entries as its children, in the order the nodes were created
+    const parents = [root];
+    let next = 0;
+    for (let i = 1; i < items.length; i += 2) {
+      if (next === parents.length) failAt(items[i], 'No node is left to be the parent of this entry');
+      const parent = parents[next++];
+      for (const [offset, side] of [[0, 'left'], [1, 'right']] as const) {
+        const item = items[i + offset];
+        if (!item || isNull(item)) continue;
+        parent[side] = nodeOf(item);
+        parents.push(parent[side]!);
+      }
+    }
+  } else if (items.some(item => !isNull(item))) {
+    failAt(items.find(item => !isNull(item))!, 'A tree with a null root cannot have other nodes');
+  }
+
+  // Arrays from exercises are often deliberately out of order, so only the shape is read here
+  validateTree(root, 'bst', keys, sources, false);
+  return { ...settings, mode: 'bst', root };
+};
+
+// Splits a sequence on commas, semicolons and whitespace that are not inside quotes or brackets
+const splitSequence = (text: string): Span[] => {
+  const pieces: Span[] = [];
+  let start = -1;
+  let depth = 0;
+  let quoted = false;
+  for (let i = 0; i <= text.length; i++) {
+    const char = text[i] ?? ' ';
+    if (quoted) {
+      if (char === '\\') i++;
+      else if (char === '"') quoted = false;
+      continue;
+    }
+    if (depth === 0 && /[\s,;]/.test(char)) {
+      if (start >= 0) pieces.push({ start, end: i });
+      start = -1;
+      continue;
+    }
+    if (start < 0) start = i;
+    if (char === '"') quoted = true;
+    else if (char === '(' || char === '[') depth++;
+    else if (char === ')' || char === ']') depth = Math.max(0, depth - 1);
+  }
+  if (quoted || depth > 0) failAt({ start, end: text.length }, quoted ? 'Unterminated string' : 'Unclosed bracket');
+  return pieces;
+};
+
+/**
+ * Reads a comma- or space-separated list of keys, in the sequence format's
+ * syntax. Throws a `TreeParseError` at the first key that is not valid.
+ */
+export const parseKeySequence = <K>(text: string, type: KeyType<K>): K[] =>
+  splitSequence(text).map(span => {
+    const piece = text.slice(span.start, span.end);
+    let input = piece;
+    if (piece.startsWith('"')) {
+      try {
+        input = JSON.parse(piece);
+      } catch {
+        failAt(span, `Invalid string ${piece}`);
+      }
+    }
+    return type.parse(input) ?? failAt(span, `'${piece}' is not a valid ${type.label.toLowerCase()} key`);
+  });
+
+const readSequence = (text: string, settings: TreeSettings): TreeDocument => {
+  const keys = { type: KEY_TYPES[settings.keyTypeId], duplicates: settings.duplicates };
+  return { ...settings, root: buildTree(settings.mode, parseKeySequence(text, keys.type), keys) };
+};
+
+/**
+ * Reads a tree written in `format`. Settings the format does not carry are
+ * taken from `settings`. Throws a `TreeParseError` for invalid input.
+ */
+export const parseTree = (text: string, format: TreeFormat, settings: TreeSettings): TreeDocument => {
+  if (format === 'json') return readJsonDocument(text, settings);
+  if (format === 'level-order') return readLevelOrder(text, settings);
+  return readSequence(text, settings);
+};
+
+export interface ParseErrorLocation {
+  message: string;
+  line: number;
+  column: number;
+  // The offending line, cut down around the token on long lines, and a caret line underneath
+  excerpt: string;
+  caret: string;
+}
+
+const EXCERPT_CONTEXT = 30;
+
+export const locateParseError = (text: string, error: TreeParseError): ParseErrorLocation => {
+  const lineStart = text.lastIndexOf('\n', error.start - 1) + 1;
+  const lineEnd = text.indexOf('\n', error.start) < 0 ? text.length : text.indexOf('\n', error.start);
+  const from = Math.max(lineStart, error.start - EXCERPT_CONTEXT);
+  const to = Math.min(lineEnd, Math.max(error.end, error.start + 1) + EXCERPT_CONTEXT);
+  const prefix = from > lineStart ? '…' : '';
+  const tokenLength = Math.min(Math.max(1, error.end - error.start), to - error.start);
+
+  return {
+    message: error.message,
+    line: text.slice(0, error.start).split('\n').length,
+    column: error.start - lineStart + 1,
+    excerpt: `${prefix}${text.slice(from, to)}${to < lineEnd ? '…' : ''}`,
+    caret: `${' '.repeat(prefix.length + error.start - from)}${'^'.repeat(Math.max(1, tokenLength))}`,
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Writing trees
+
+const jsonKey = (key: TreeKey, keys: KeyContext<TreeKey>): string => JSON.stringify(keys.type.toJson(key));
+
+// Nodes are written without indentation, which would make deep trees quadratically long
+const writeJson = ({ mode, keyTypeId, duplicates, root }: TreeDocument): string => {
+  const keys = { type: KEY_TYPES[keyTypeId], duplicates };
+  const parts: string[] = [];
+  const pending: (TreeNode<TreeKey> | string | null)[] = [root];
+  while (pending.length > 0) {
+    const item = pending.pop()!;
+    if (item === null || typeof item === 'string') {
+      parts.push(item ?? 'null');
+      continue;
+    }
+    let fields = `{"key":${jsonKey(item.value, keys)}`;
+    if (item.count > 1) fields += `,"count":${item.count}`;
+    if (mode === 'redblack') fields += `,"color":"${item.color}"`;
+    if (mode === 'treap') fields += `,"priority":${item.priority}`;
+    parts.push(fields);
+    pending.push('}');
+    if (item.right) pending.push(item.right, ',"right":');
+    if (item.left) pending.push(item.left, ',"left":');
+  }
+
+  return [
+    '{',
+    `  "mode": "${mode}",`,
+    `  "keyType": "${keyTypeId}",`,
+    `  "duplicates": "${duplicates}",`,
+    // Only written for hand-edited trees, so documents of sorted trees stay as they were
+    ...(mode === 'bst' && !isSearchTree(root, keys) ? ['  "ordered": false,'] : []),
+    `  "root": ${parts.join('')}`,
+    '}',
+  ].join('\n');
+};
+
+const writeLevelOrder = ({ keyTypeId, duplicates, root }: TreeDocument): string => {
+  const keys = { type: KEY_TYPES[keyTypeId], duplicates };
+  const entries: string[] = [];
+  const queue: (TreeNode<TreeKey> | null)[] = [root];
+  for (let i = 0; i < queue.length; i++) {
+    const node = queue[i];
+    entries.push(node ? jsonKey(node.value, keys) : 'null');
+    if (node) queue.push(node.left, node.right);
+  }
+  while (entries[entries.length - 1] === 'null') entries.pop();
+  return `[${entries.join(',')}]`;
+};
+
+// Pre-order, which rebuilds the same shape when inserted into a plain BST
+const writeSequence = ({ keyTypeId, root }: TreeDocument): string => {
+  const { format } = KEY_TYPES[keyTypeId];
+  const entries: string[] = [];
+  root?.preOrderTraversal(node => {
+    const text = format(node.value);
+    const entry = keyTypeId === 'string' && /[\s,;"()[\]]/.test(text) ? JSON.stringify(text) : text;
+    for (let i = 0; i < node.count; i++) entries.push(entry);
+  });
+  return entries.join(', ');
+};
+
+/** Writes `document` in `format`. The level-order format cannot hold duplicate counts. */
+export const serializeTree = (document: TreeDocument, format: TreeFormat): string => {
+  if (format === 'json') return writeJson(document);
+  if (format === 'level-order') return writeLevelOrder(document);
+  return writeSequence(document);
+};
+
+// ---------------------------------------------------------------------------
+// Share links
+
+const LINK_PREFIX = '#tree=';
+
+/** The URL fragment that carries `document`, as base64url-encoded JSON. */
+export const encodeTreeLink = (document: TreeDocument): string => {
+  const bytes = new TextEncoder().encode(serializeTree(document, 'json'));
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return LINK_PREFIX + btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/** The tree carried by a share link's fragment, or null when `hash` is not one. */
+export const readTreeLink = (hash: string, settings: TreeSettings): TreeDocument | null => {
+  if (!hash.startsWith(LINK_PREFIX)) return null;
+  let json: string;
+  try {
+    const binary = atob(hash.slice(LINK_PREFIX.length).replace(/-/g, '+').replace(/_/g, '/'));
+    json = new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+  } catch {
+    throw new TreeParseError('The link is cut off or was not made by this page', 0, 0);
+  }
+  return parseTree(json, 'json', settings);
+};
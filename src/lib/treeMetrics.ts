@@ -0,0 +1,163 @@
+import type { Comparator, TreeNode } from '../types/TreeNode';
+
+/**
+ * Keys compared on the way down to `value`: down to its node when it is in
+ * the tree, otherwise down to the node it would be inserted below.
+ */
+export const comparisonsToReach = <K>(root: TreeNode<K> | null, value: K, compare: Comparator<K>): number => {
+  let comparisons = 0;
+  let current = root;
+  while (current) {
+    comparisons++;
+    const order = compare(value, current.value);
+    if (order === 0) break;
+    current = order < 0 ? current.left : current.right;
+  }
+  return comparisons;
+};
+
+/** Where one node sits in its tree. Depths count edges from the root; heights count levels, a leaf being 1. */
+export interface NodeMetrics {
+  depth: number;
+  height: number;
+  // Height of the left subtree minus that of the right one
+  balance: number;
+}
+
+export interface TreeStatistics {
+  nodes: number;
+  // Keys held, counting every copy of a counted duplicate
+  keys: number;
+  height: number;
+  leaves: number;
+  minLeafDepth: number;
+  maxLeafDepth: number;
+  // Sum of the depths of all nodes
+  internalPathLength: number;
+  // Keys compared by a search for a key in the tree, averaged over its nodes
+  averageSearch: number;
+  full: boolean;
+  complete: boolean;
+  perfect: boolean;
+  balanced: boolean;
+  degenerate: boolean;
+}
+
+export type TreeShape = 'full' | 'complete' | 'perfect' | 'balanced' | 'degenerate';
+
+export const TREE_SHAPES: Record<TreeShape, { label: string; description: string }> = {
+  full: { label: 'Full', description: 'Every node has either no children or two' },
+  complete: { label: 'Complete', description: 'Every level is filled, except maybe the last, which is filled from the left' },
+  perfect: { label: 'Perfect', description: 'Every inner node has two children and all leaves are on the same level' },
+  balanced: { label: 'Balanced', description: 'At every node, the two subtree heights differ by at most one' },
+  degenerate: { label: 'Degenerate', description: 'No node has two children, so the tree is really a linked list' },
+};
+
+const EMPTY_STATISTICS: TreeStatistics = {
+  nodes: 0,
+  keys: 0,
+  height: 0,
+  leaves: 0,
+  minLeafDepth: 0,
+  maxLeafDepth: 0,
+  internalPathLength: 0,
+  averageSearch: 0,
+  full: true,
+  complete: true,
+  perfect: true,
+  balanced: true,
+  degenerate: false,
+};
+
+/** Measures the whole tree and every node of it in a few passes, without recursion so deep trees are safe. */
+export const measureTree = <K>(
+  root: TreeNode<K> | null
+): { statistics: TreeStatistics; nodes: Map<number, NodeMetrics> } => {
+  const metrics = new Map<number, NodeMetrics>();
+  if (!root) return { statistics: EMPTY_STATISTICS, nodes: metrics };
+
+  // Pre-order puts parents before children for depths, and children before parents when read backwards for heights
+  const nodes = root.getAllNodes();
+  metrics.set(root.id, { depth: 0, height: 0, balance: 0 });
+  for (const node of nodes) {
+    const depth = metrics.get(node.id)!.depth + 1;
+    if (node.left) metrics.set(node.left.id, { depth, height: 0, balance: 0 });
+    if (node.right) metrics.set(node.right.id, { depth, height: 0, balance: 0 });
+  }
+  const heightOf = (node: TreeNode<K> | null) => (node ? metrics.get(node.id)!.height : 0);
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const node = nodes[i];
+    const entry = metrics.get(node.id)!;
+    entry.height = 1 + Math.max(heightOf(node.left), heightOf(node.right));
+    entry.balance = heightOf(node.left) - heightOf(node.right);
+  }
+
+  const statistics = { ...EMPTY_STATISTICS, nodes: nodes.length, height: heightOf(root), minLeafDepth: Infinity };
+  let degenerate = true;
+  for (const node of nodes) {
+    const { depth, balance } = metrics.get(node.id)!;
+    statistics.keys += node.count;
+    statistics.internalPathLength += depth;
+    if (Math.abs(balance) > 1) statistics.balanced = false;
+    if (!node.left !== !node.right) statistics.full = false;
+    if (node.left && node.right) degenerate = false;
+    if (!node.left && !node.right) {
+      statistics.leaves++;
+      statistics.minLeafDepth = Math.min(statistics.minLeafDepth, depth);
+      statistics.maxLeafDepth = Math.max(statistics.maxLeafDepth, depth);
+    }
+  }
+  statistics.averageSearch = (statistics.internalPathLength + nodes.length) / nodes.length;
+  statistics.perfect = statistics.full && statistics.minLeafDepth === statistics.maxLeafDepth;
+  // One or two nodes are trivially a list, so only longer chains count as degenerate
+  statistics.degenerate = degenerate && nodes.length > 2;
+
+  // Complete: in level order, no node follows a missing child
+  let gap = false;
+  for (let level: TreeNode<K>[] = [root]; level.length > 0 && statistics.complete; ) {
+    const next: TreeNode<K>[] = [];
+    for (const node of level) {
+      for (const child of [node.left, node.right]) {
+        if (!child) gap = true;
+        else if (gap) statistics.complete = false;
+        else next.push(child);
+      }
+    }
+    level = next;
+  }
+
+  return { statistics, nodes: metrics };
+};
+
+export type CursorMove = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * Where a node cursor goes from node `id`: up to the parent, down to the first
+ * child, or across to the neighbouring node on the same level, whichever
+ * subtree it is in. Stays put at the edges and returns the root when `id` is
+ * not in the tree.
+ */
+export const moveCursor = <K>(root: TreeNode<K>, id: number | null, move: CursorMove): number => {
+  for (let level: TreeNode<K>[] = [root], parents: (TreeNode<K> | null)[] = [null]; level.length > 0; ) {
+    const index = level.findIndex(node => node.id === id);
+    if (index >= 0) {
+      const node = level[index];
+      if (move === 'up') return (parents[index] ?? node).id;
+      if (move === 'down') return (node.left ?? node.right ?? node).id;
+      return (level[move === 'left' ? index - 1 : index + 1] ?? node).id;
+    }
+    const next: TreeNode<K>[] = [];
+    const nextParents: TreeNode<K>[] = [];
+    for (const node of level) {
+      for (const child of [node.left, node.right]) {
+        if (child) {
+          next.push(child);
+          nextParents.push(node);
+        }
+      }
+    }
+    level = next;
+    parents = nextParents;
+  }
+  return root.id;
+};
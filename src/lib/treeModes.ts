@@ -0,0 +1,85 @@
+import { TreeNode, type DeletionStrategy } from '../types/TreeNode';
+import { recordDeletion, recordInsertion, recordSearch, type TreeRecording } from './bstAlgorithms';
+import { recordAvlDeletion, recordAvlInsertion } from './avlAlgorithms';
+import { recordRedBlackDeletion, recordRedBlackInsertion } from './redBlackAlgorithms';
+import { recordSplayDeletion, recordSplayInsertion, recordSplaySearch } from './splayAlgorithms';
+import { recordTreapDeletion, recordTreapInsertion } from './treapAlgorithms';
+import type { KeyContext } from './keys';
+
+export type TreeMode = 'bst' | 'avl' | 'redblack' | 'splay' | 'treap';
+
+/** The structure-specific operations of a binary tree mode. */
+export interface TreeModeDefinition {
+  label: string;
+  description: string;
+  insert: <K>(root: TreeNode<K> | null, value: K, keys: KeyContext<K>, silent?: boolean) => TreeRecording<K>;
+  delete: <K>(
+    root: TreeNode<K>,
+    value: K,
+    keys: KeyContext<K>,
+    strategy: DeletionStrategy,
+    silent?: boolean
+  ) => TreeRecording<K>;
+  // Searching can restructure the tree (splay trees), so it also yields the new root
+  search: <K>(root: TreeNode<K>, value: K, keys: KeyContext<K>, silent?: boolean) => TreeRecording<K>;
+}
+
+export const TREE_MODES: Record<TreeMode, TreeModeDefinition> = {
+  bst: {
+    label: 'Plain BST',
+    description: 'No rebalancing: the shape depends on insertion order',
+    insert: recordInsertion,
+    delete: recordDeletion,
+    search: recordSearch,
+  },
+  avl: {
+    label: 'AVL',
+    description: 'Rotates whenever a balance factor leaves [-1, +1]',
+    insert: recordAvlInsertion,
+    delete: recordAvlDeletion,
+    search: recordSearch,
+  },
+  redblack: {
+    label: 'Red-Black',
+    description: 'Recolors and rotates to keep red-black properties',
+    insert: recordRedBlackInsertion,
+    delete: recordRedBlackDeletion,
+    search: recordSearch,
+  },
+  splay: {
+    label: 'Splay',
+    description: 'Every access splays the node to the root (amortized balance)',
+    insert: recordSplayInsertion,
+    delete: recordSplayDeletion,
+    search: recordSplaySearch,
+  },
+  treap: {
+    label: 'Treap',
+    description: 'Random priorities kept in heap order (randomized balance)',
+    insert: recordTreapInsertion,
+    delete: recordTreapDeletion,
+    search: recordSearch,
+  },
+};
+
+/** Builds a tree of the given mode by inserting `values` in order, without recording. */
+export const buildTree = <K>(mode: TreeMode, values: K[], keys: KeyContext<K>): TreeNode<K> | null => {
+  let root: TreeNode<K> | null = null;
+  for (const value of values) {
+    root = TREE_MODES[mode].insert(root, value, keys, true).result;
+  }
+  return root;
+};
+
+/**
+ * Rebuilds `root` as a tree of another mode or duplicate policy. Values are
+ * re-inserted in pre-order, which reproduces the same shape when switching to
+ * a plain BST; counted duplicates are re-inserted once per copy.
+ */
+export const convertTree = <K>(root: TreeNode<K> | null, mode: TreeMode, keys: KeyContext<K>): TreeNode<K> | null => {
+  const values: K[] = [];
+  root?.preOrderTraversal(node => {
+    for (let i = 0; i < node.count; i++) values.push(node.value);
+  });
+  return buildTree(mode, values, keys);
+};
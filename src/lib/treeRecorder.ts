@@ -0,0 +1,97 @@
+import type { TreeNode } from '../types/TreeNode';
+import { DEFAULT_STEP_DURATION, type AlgorithmStep } from './steps';
+import type { CodeLocation } from './codeListings';
+
+/** What a node needs for its highlight flags to be recorded. */
+export interface RecordableNode<TNode> {
+  id: number;
+  isHighlighted: boolean;
+  isVisited: boolean;
+  isSearchResult: boolean;
+  clone(): TNode;
+  getAllNodes(): TNode[];
+  clearHighlights(): void;
+}
+
+/** Highlight state of a tree at one step, keyed by node id. */
+export interface TreeFrame<TNode = TreeNode> {
+  root: TNode | null;
+  highlighted: ReadonlySet<number>;
+  visited: ReadonlySet<number>;
+  found: ReadonlySet<number>;
+  // Nodes an algorithm found breaking a rule of the tree, drawn like invariant violations
+  flagged?: ReadonlySet<number>;
+}
+
+export type TreeStep<TNode = TreeNode> = AlgorithmStep<TreeFrame<TNode>>;
+
+const EMPTY_IDS: ReadonlySet<number> = new Set();
+
+/** A frame that shows `root` without any highlights. */
+export const staticFrame = <TNode>(root: TNode | null): TreeFrame<TNode> => ({
+  root,
+  highlighted: EMPTY_IDS,
+  visited: EMPTY_IDS,
+  found: EMPTY_IDS,
+});
+
+/**
+ * Records the highlight flags of a live tree as algorithm steps.
+ *
+ * Algorithms keep setting `isHighlighted`/`isVisited`/`isSearchResult` on the
+ * nodes they touch and call `record` wherever they used to pause. The tree
+ * structure is snapshotted once and shared between steps; call `restructure`
+ * after changing the shape so that later steps show the new structure.
+ *
+ * A silent recorder skips all of this, for operations applied without animation.
+ */
+export class TreeStepRecorder<TNode extends RecordableNode<TNode> = TreeNode> {
+  readonly steps: TreeStep<TNode>[] = [];
+  private root: TNode | null;
+  private snapshot: TNode | null;
+  private readonly silent: boolean;
+
+  constructor(root: TNode | null, silent: boolean = false) {
+    this.silent = silent;
+    this.root = root;
+    this.snapshot = root && !silent ? root.clone() : null;
+  }
+
+  restructure(root: TNode | null): void {
+    this.root = root;
+    if (this.silent) return;
+    this.snapshot = root ? root.clone() : null;
+  }
+
+  /**
+   * Resets the highlight flags of a whole tree. Only recorders read the flags,
+   * so a silent one skips this and bulk operations stay fast on large trees.
+   */
+  clearHighlights(root: TNode | null): void {
+    if (!this.silent) root?.clearHighlights();
+  }
+
+  // Messages can be passed lazily, so silent bulk inserts never format the ones built on every level of a walk
+  record(message: string | (() => string), duration: number = DEFAULT_STEP_DURATION, line?: CodeLocation): void {
+    if (this.silent) return;
+
+    const highlighted = new Set<number>();
+    const visited = new Set<number>();
+    const found = new Set<number>();
+
+    if (this.root) {
+      for (const node of this.root.getAllNodes()) {
+        if (node.isHighlighted) highlighted.add(node.id);
+        if (node.isVisited) visited.add(node.id);
+        if (node.isSearchResult) found.add(node.id);
+      }
+    }
+
+    this.steps.push({
+      message: typeof message === 'string' ? message : message(),
+      duration,
+      frame: { root: this.snapshot, highlighted, visited, found },
+      line,
+    });
+  }
+}
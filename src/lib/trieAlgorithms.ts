@@ -0,0 +1,207 @@
+import { TrieNode } from '../types/TrieNode';
+import type { Recording } from './steps';
+import { TreeStepRecorder, type TreeFrame } from './treeRecorder';
+
+export type TrieFrame = TreeFrame<TrieNode>;
+
+export type TrieRecording<TResult = TrieNode> = Recording<TrieFrame, TResult>;
+
+const WORD_PATTERN = /^[a-z]+$/;
+
+const describe = (prefix: string): string => (prefix ? `"${prefix}"` : 'the root');
+
+/** Lower-cases and trims `input`; returns null unless what is left consists of letters a–z only. */
+export const normalizeWord = (input: string): string | null => {
+  const word = input.trim().toLowerCase();
+  return WORD_PATTERN.test(word) ? word : null;
+};
+
+/**
+ * Follows the characters of `prefix` from the root, narrating every edge.
+ * Returns the nodes matched, starting with the root; the path is shorter than
+ * `prefix.length + 1` when some character has no edge.
+ */
+const walkPrefix = (root: TrieNode, prefix: string, recorder: TreeStepRecorder<TrieNode>): TrieNode[] => {
+  const path = [root];
+  let node = root;
+
+  for (let i = 0; i < prefix.length; i++) {
+    const char = prefix[i];
+    const child = node.children.get(char);
+    node.isHighlighted = true;
+
+    if (!child) {
+      recorder.record(`❌ No edge '${char}' below ${describe(prefix.slice(0, i))}`, 1000);
+      node.isHighlighted = false;
+      node.isVisited = true;
+      return path;
+    }
+
+    recorder.record(`📍 Follow edge '${char}' → "${prefix.slice(0, i + 1)}"`, 600);
+    node.isHighlighted = false;
+    node.isVisited = true;
+    path.push(child);
+    node = child;
+  }
+
+  return path;
+};
+
+/** Inserts `word` character by character, creating missing nodes, and marks its last node terminal. */
+export const recordTrieInsertion = (root: TrieNode, word: string, silent: boolean = false): TrieRecording => {
+  root.clearHighlights();
+  const recorder = new TreeStepRecorder<TrieNode>(root, silent);
+  recorder.record(`🔄 Starting trie insertion of "${word}"`, 400);
+
+  const path = walkPrefix(root, word, recorder);
+  let node = path[path.length - 1];
+
+  for (let i = path.length - 1; i < word.length; i++) {
+    const child = new TrieNode(word[i]);
+    node.children.set(word[i], child);
+    node.isVisited = true;
+    child.isHighlighted = true;
+    recorder.restructure(root);
+    recorder.record(`🌱 Created node for '${word[i]}' → "${word.slice(0, i + 1)}"`, 800);
+    child.isHighlighted = false;
+    node = child;
+  }
+
+  node.isSearchResult = true;
+  if (node.isTerminal) {
+    recorder.record(`⚠️ "${word}" is already in the trie`);
+  } else {
+    node.isTerminal = true;
+    recorder.restructure(root);
+    recorder.record(`✨ Marked "${word}" as a complete word!`, 1000);
+  }
+
+  root.clearHighlights();
+  return { steps: recorder.steps, result: root };
+};
+
+/** Looks `word` up and reports whether it is a stored word, only a prefix of one, or absent. */
+export const recordTrieSearch = (root: TrieNode, word: string): TrieRecording => {
+  root.clearHighlights();
+  const recorder = new TreeStepRecorder<TrieNode>(root);
+  recorder.record(`🔍 Searching for "${word}"`, 400);
+
+  const path = walkPrefix(root, word, recorder);
+  if (path.length <= word.length) {
+    recorder.record(`❌ "${word}" is not in the trie`);
+  } else {
+    const node = path[path.length - 1];
+    node.isSearchResult = true;
+    recorder.record(
+      node.isTerminal
+        ? `✅ Found "${word}": its last node is marked as a word`
+        : `💡 "${word}" is a prefix of ${node.getAllWords(word).length} word(s), but not a word itself`
+    );
+  }
+
+  root.clearHighlights();
+  return { steps: recorder.steps, result: root };
+};
+
+/**
+ * Walks to the node of `prefix`, then visits its subtree depth-first in
+ * alphabetical order, collecting every word on the way. The result lists the
+ * completions.
+ */
+export const recordAutocomplete = (root: TrieNode, prefix: string): TrieRecording<string[]> => {
+  root.clearHighlights();
+  const recorder = new TreeStepRecorder<TrieNode>(root);
+  recorder.record(`💬 Autocompleting "${prefix}"`, 400);
+
+  const path = walkPrefix(root, prefix, recorder);
+  if (path.length <= prefix.length) {
+    recorder.record(`❌ No word starts with "${prefix}"`);
+    root.clearHighlights();
+    return { steps: recorder.steps, result: [] };
+  }
+
+  const words: string[] = [];
+  const collect = (node: TrieNode, spelled: string) => {
+    node.isHighlighted = true;
+    if (node.isTerminal) {
+      words.push(spelled);
+      node.isSearchResult = true;
+      recorder.record(`📝 Word #${words.length}: "${spelled}"`, 600);
+    } else {
+      recorder.record(`📍 Visit "${spelled}"`, 400);
+    }
+    node.isHighlighted = false;
+    node.isVisited = true;
+
+    for (const child of node.sortedChildren()) {
+      collect(child, spelled + child.char);
+    }
+  };
+
+  recorder.record(`🔎 Reached "${prefix}" → collect every word below it`, 800);
+  collect(path[path.length - 1], prefix);
+  recorder.record(
+    words.length === 1 ? `✨ 1 completion: ${words[0]}` : `✨ ${words.length} completions: ${words.join(', ')}`
+  );
+
+  root.clearHighlights();
+  return { steps: recorder.steps, result: words };
+};
+
+/**
+ * Unmarks `word`, then prunes the nodes that no longer lead to any word,
+ * from the bottom up. The root is never removed.
+ */
+export const recordTrieDeletion = (root: TrieNode, word: string, silent: boolean = false): TrieRecording => {
+  root.clearHighlights();
+  const recorder = new TreeStepRecorder<TrieNode>(root, silent);
+  recorder.record(`🗑️ Starting trie deletion of "${word}"`, 400);
+
+  const path = walkPrefix(root, word, recorder);
+  const last = path[path.length - 1];
+  if (path.length <= word.length || !last.isTerminal) {
+    recorder.record(`❌ "${word}" is not in the trie - nothing to delete`);
+    root.clearHighlights();
+    return { steps: recorder.steps, result: root };
+  }
+
+  last.isTerminal = false;
+  last.isHighlighted = true;
+  recorder.restructure(root);
+  recorder.record(`✂️ Unmarked "${word}" as a word`, 1000);
+  last.isHighlighted = false;
+
+  for (let i = path.length - 1; i > 0; i--) {
+    const node = path[i];
+    const spelled = word.slice(0, i);
+
+    if (node.isTerminal || !node.isLeaf) {
+      node.isVisited = true;
+      recorder.record(
+        node.isTerminal
+          ? `🛑 "${spelled}" is still a word → stop pruning`
+          : `🛑 "${spelled}" still leads to other words → stop pruning`
+      );
+      break;
+    }
+
+    node.isHighlighted = true;
+    recorder.record(`🍂 "${spelled}" leads to no word any more → prune it`, 800);
+    path[i - 1].children.delete(node.char);
+    recorder.restructure(root);
+    recorder.record(`🔄 Removed the '${node.char}' edge below ${describe(word.slice(0, i - 1))}`, 600);
+  }
+
+  recorder.record(`✅ "${word}" successfully deleted!`);
+  root.clearHighlights();
+  return { steps: recorder.steps, result: root };
+};
+
+/** Builds a trie holding `words`, without recording any steps. */
+export const buildTrie = (words: string[]): TrieNode => {
+  const root = new TrieNode();
+  for (const word of words) {
+    recordTrieInsertion(root, word, true);
+  }
+  return root;
+};
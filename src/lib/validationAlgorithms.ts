@@ -0,0 +1,118 @@
+import type { TreeNode } from '../types/TreeNode';
+import type { KeyContext } from './keys';
+import type { Recording } from './steps';
+import { TreeStepRecorder, type TreeFrame } from './treeRecorder';
+
+/** The ids of the nodes that break the ordering, in the order they were found. */
+export type ValidationRecording<K> = Recording<TreeFrame<TreeNode<K>>, number[]>;
+
+// Left/right duplicates can end up on either side of an equal key after rotations, so equal keys are
+// allowed anywhere under those policies and nowhere under the ones that keep one node per key
+const allowsEqual = <K>(keys: KeyContext<K>): boolean => keys.duplicates === 'left' || keys.duplicates === 'right';
+
+/** Whether the in-order sequence of the tree is sorted, which is what makes it a search tree. */
+export const isSearchTree = <K>(root: TreeNode<K> | null, keys: KeyContext<K>): boolean => {
+  let ordered = true;
+  let previous: TreeNode<K> | null = null;
+  root?.inOrderTraversal(node => {
+    if (previous) {
+      const order = keys.type.compare(previous.value, node.value);
+      if (order > 0 || (order === 0 && !allowsEqual(keys))) ordered = false;
+    }
+    previous = node;
+  });
+  return ordered;
+};
+
+// The tightest limit an ancestor puts on the keys below it
+interface Bound<K> {
+  node: TreeNode<K>;
+  // Which subtree of `node` the checked key is in
+  side: 'left' | 'right';
+}
+
+interface Pending<K> {
+  node: TreeNode<K>;
+  low: Bound<K> | null;
+  high: Bound<K> | null;
+}
+
+/**
+ * Records the bounds check: every key must lie between the tightest lower
+ * bound (the nearest ancestor it is right of) and the tightest upper bound
+ * (the nearest ancestor it is left of). A node out of bounds is flagged and
+ * its subtree is still checked against the same ancestors, so every
+ * misplaced node is found rather than only the first.
+ */
+export const recordBstValidation = <K>(root: TreeNode<K>, keys: KeyContext<K>, silent: boolean = false): ValidationRecording<K> => {
+  const { compare, format } = keys.type;
+  const equalAllowed = allowsEqual(keys);
+  const recorder = new TreeStepRecorder(root, silent);
+  const flagged: number[] = [];
+  // Flags at each recorded step, attached to the frames at the end
+  const flaggedAtStep: ReadonlySet<number>[] = [];
+  const record = (message: string | (() => string), duration?: number) => {
+    recorder.record(message, duration);
+    if (!silent) flaggedAtStep.push(new Set(flagged));
+  };
+
+  const less = equalAllowed ? '≤' : '<';
+  const describeBounds = ({ low, high }: Pending<K>): string =>
+    low && high
+      ? `${format(low.node.value)} ${less} key ${less} ${format(high.node.value)}`
+      : low
+      ? `key ${equalAllowed ? '≥' : '>'} ${format(low.node.value)}`
+      : high
+      ? `key ${less} ${format(high.node.value)}`
+      : 'anything';
+  // A new bound only replaces the inherited one when it is tighter
+  const tighter = (bound: Bound<K> | null, candidate: Bound<K>, sign: 1 | -1): Bound<K> =>
+    !bound || sign * compare(candidate.node.value, bound.node.value) > 0 ? candidate : bound;
+
+  recorder.clearHighlights(root);
+  record(
+    `🧪 Checking the BST property: every key must be within the bounds set by its ancestors${equalAllowed ? ' (equal keys may sit on either side)' : ''}`,
+    600
+  );
+
+  const stack: Pending<K>[] = [{ node: root, low: null, high: null }];
+  while (stack.length > 0) {
+    const pending = stack.pop()!;
+    const { node, low, high } = pending;
+    node.isHighlighted = true;
+    record(() => `📏 ${format(node.value)} must satisfy ${describeBounds(pending)}`, 600);
+
+    const belowLow = low && (compare(node.value, low.node.value) < 0 || (!equalAllowed && compare(node.value, low.node.value) === 0));
+    const aboveHigh = high && (compare(node.value, high.node.value) > 0 || (!equalAllowed && compare(node.value, high.node.value) === 0));
+    node.isHighlighted = false;
+    if (belowLow || aboveHigh) {
+      const broken = (belowLow ? low : high)!;
+      flagged.push(node.id);
+      record(
+        () =>
+          `❌ ${format(node.value)} is in the ${broken.side} subtree of ${format(broken.node.value)}, so it must be ${
+            broken.side === 'left' ? less : equalAllowed ? '≥' : '>'
+          } ${format(broken.node.value)}`,
+        1000
+      );
+    } else {
+      node.isVisited = true;
+      record(() => `✅ ${format(node.value)} is within its bounds`, 400);
+    }
+
+    // Right first so the left subtree is checked first
+    if (node.right) stack.push({ node: node.right, low: tighter(low, { node, side: 'right' }, 1), high });
+    if (node.left) stack.push({ node: node.left, low, high: tighter(high, { node, side: 'left' }, -1) });
+  }
+
+  record(
+    flagged.length === 0
+      ? '🎉 Valid BST: every key is within the bounds set by its ancestors'
+      : `⚠️ Not a valid BST: ${flagged.length} node${flagged.length === 1 ? '' : 's'} out of place`,
+    1000
+  );
+  recorder.clearHighlights(root);
+
+  const steps = recorder.steps.map((step, index) => ({ ...step, frame: { ...step.frame, flagged: flaggedAtStep[index] } }));
+  return { steps, result: flagged };
+};
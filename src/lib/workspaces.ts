@@ -0,0 +1,128 @@
+import type { DeletionStrategy } from '../types/TreeNode';
+import type { LayoutSettings } from './tidyLayout';
+import { TREE_MODES } from './treeModes';
+import { KEY_TYPES } from './keys';
+import { parseTree, serializeTree, type TreeDocument } from './treeFormats';
+import type { AlgorithmStep } from './steps';
+import type { CodeLocation } from './codeListings';
+
+/** One history entry, its tree written in the JSON export format. */
+export interface SavedHistoryEntry {
+  label: string;
+  tree: string;
+}
+
+/**
+ * The Algorithm Log of a session: the messages of the loaded recording, the
+ * step it was at and the playback speed. Frames are left out, as each holds a
+ * snapshot of the tree, so the restored steps all show the restored tree.
+ */
+export interface SavedLog {
+  steps: { message: string; duration: number; line?: CodeLocation }[];
+  index: number;
+  speed: number;
+}
+
+/** Everything needed to pick up a session where it was left. */
+export interface Workspace {
+  name: string;
+  savedAt: number;
+  // Shown in the list of workspaces, e.g. "AVL · 11 number keys"
+  summary: string;
+  layout: LayoutSettings;
+  deletionStrategy: DeletionStrategy;
+  history: SavedHistoryEntry[];
+  historyIndex: number;
+  // Missing from workspaces saved before the log was kept
+  log?: SavedLog;
+}
+
+const DATABASE_NAME = 'tree-visualizer';
+const DATABASE_VERSION = 1;
+const WORKSPACES = 'workspaces';
+// The session is kept apart from named workspaces, so no name can clash with it
+const SESSION = 'session';
+const SESSION_KEY = 'last';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(WORKSPACES, { keyPath: 'name' });
+      request.result.createObjectStore(SESSION);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Let a later call try again, e.g. after the user allows storage
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+};
+
+const run = <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> =>
+  openDatabase().then(
+    db =>
+      new Promise((resolve, reject) => {
+        const request = action(db.transaction(storeName, mode).objectStore(storeName));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      })
+  );
+
+/** Saved workspaces, most recently saved first. */
+export const listWorkspaces = (): Promise<Workspace[]> =>
+  run<Workspace[]>(WORKSPACES, 'readonly', store => store.getAll()).then(workspaces =>
+    workspaces.sort((a, b) => b.savedAt - a.savedAt)
+  );
+
+/** Saves `workspace`, replacing any workspace of the same name. */
+export const saveWorkspace = (workspace: Workspace): Promise<void> =>
+  run(WORKSPACES, 'readwrite', store => store.put(workspace)).then(() => undefined);
+
+export const deleteWorkspace = (name: string): Promise<void> =>
+  run(WORKSPACES, 'readwrite', store => store.delete(name)).then(() => undefined);
+
+export const saveSession = (workspace: Workspace): Promise<void> =>
+  run(SESSION, 'readwrite', store => store.put(workspace, SESSION_KEY)).then(() => undefined);
+
+export const loadSession = (): Promise<Workspace | null> =>
+  run<Workspace | undefined>(SESSION, 'readonly', store => store.get(SESSION_KEY)).then(session => session ?? null);
+
+// History snapshots never change, so each is written once however often the session is saved
+const writtenTrees = new WeakMap<TreeDocument, string>();
+
+export const saveHistory = (entries: { label: string; state: TreeDocument }[]): SavedHistoryEntry[] =>
+  entries.map(({ label, state }) => {
+    if (!writtenTrees.has(state)) writtenTrees.set(state, serializeTree(state, 'json'));
+    return { label, tree: writtenTrees.get(state)! };
+  });
+
+/** Reads saved history entries back; throws a `TreeParseError` if one is damaged. */
+export const loadHistory = (entries: SavedHistoryEntry[]): { label: string; state: TreeDocument }[] =>
+  entries.map(({ label, tree }) => ({
+    label,
+    state: parseTree(tree, 'json', { mode: 'bst', keyTypeId: 'number', duplicates: 'reject' }),
+  }));
+
+export const saveLog = <TFrame>(steps: AlgorithmStep<TFrame>[], index: number, speed: number): SavedLog => ({
+  steps: steps.map(({ message, duration, line }) => ({ message, duration, line })),
+  index,
+  speed,
+});
+
+/** The saved log as steps that all show `frame`, or null when there is none to restore. */
+export const loadLog = <TFrame>(log: SavedLog | undefined, frame: TFrame): AlgorithmStep<TFrame>[] | null =>
+  log && log.steps.length > 0 ? log.steps.map(({ message, duration, line }) => ({ message, duration, line, frame })) : null;
+
+export const describeTree = ({ mode, keyTypeId, root }: TreeDocument): string => {
+  const size = root ? root.getAllNodes().reduce((total, node) => total + node.count, 0) : 0;
+  return `${TREE_MODES[mode].label} · ${size} ${KEY_TYPES[keyTypeId].label.toLowerCase()} key${size === 1 ? '' : 's'}`;
+};
@@ -0,0 +1,81 @@
+let nextNodeId = 0;
+
+/**
+ * A B-tree node: sorted `keys` and, for internal nodes, exactly
+ * `keys.length + 1` children, child `i` holding the keys between
+ * `keys[i - 1]` and `keys[i]`.
+ */
+export class BTreeNode {
+  id: number = nextNodeId++;
+  keys: number[];
+  children: BTreeNode[];
+  x: number = 0;
+  y: number = 0;
+  isHighlighted: boolean = false;
+  isVisited: boolean = false;
+  isSearchResult: boolean = false;
+
+  constructor(keys: number[] = [], children: BTreeNode[] = []) {
+    this.keys = keys;
+    this.children = children;
+  }
+
+  get isLeaf(): boolean {
+    return this.children.length === 0;
+  }
+
+  /** Index of the first key that is not smaller than `key`, i.e. the child to descend into. */
+  findSlot(key: number): number {
+    let index = 0;
+    while (index < this.keys.length && key > this.keys[index]) {
+      index++;
+    }
+    return index;
+  }
+
+  search(key: number): BTreeNode | null {
+    const slot = this.findSlot(key);
+    if (this.keys[slot] === key) return this;
+    return this.isLeaf ? null : this.children[slot].search(key);
+  }
+
+  /** Deep copy of the subtree, preserving node ids, positions and flags. */
+  clone(): BTreeNode {
+    const copy = new BTreeNode([...this.keys], this.children.map(child => child.clone()));
+    copy.id = this.id;
+    copy.x = this.x;
+    copy.y = this.y;
+    copy.isHighlighted = this.isHighlighted;
+    copy.isVisited = this.isVisited;
+    copy.isSearchResult = this.isSearchResult;
+    return copy;
+  }
+
+  getAllNodes(): BTreeNode[] {
+    const nodes: BTreeNode[] = [this];
+    for (const child of this.children) {
+      nodes.push(...child.getAllNodes());
+    }
+    return nodes;
+  }
+
+  /** All keys of the subtree in sorted order. */
+  getAllKeys(): number[] {
+    if (this.isLeaf) return [...this.keys];
+    const keys: number[] = [];
+    this.keys.forEach((key, index) => {
+      keys.push(...this.children[index].getAllKeys(), key);
+    });
+    keys.push(...this.children[this.keys.length].getAllKeys());
+    return keys;
+  }
+
+  clearHighlights(): void {
+    this.isHighlighted = false;
+    this.isVisited = false;
+    this.isSearchResult = false;
+    for (const child of this.children) {
+      child.clearHighlights();
+    }
+  }
+}
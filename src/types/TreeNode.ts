@@ -1,149 +1,261 @@
-export class TreeNode {
-  value: number;
-  left: TreeNode | null = null;
-  right: TreeNode | null = null;
+export type DeletionStrategy = 'successor' | 'predecessor';
+
+export type NodeColor = 'red' | 'black';
+
+export type Comparator<K> = (a: K, b: K) => number;
+
+let nextNodeId = 0;
+
+export class TreeNode<K = number> {
+  // Stable identity that survives cloning, so recorded steps can refer to nodes
+  id: number = nextNodeId++;
+  value: K;
+  // How many copies of `value` this node stands for, under the count duplicate policy
+  count: number = 1;
+  left: TreeNode<K> | null = null;
+  right: TreeNode<K> | null = null;
   x: number = 0;
   y: number = 0;
   isHighlighted: boolean = false;
   isVisited: boolean = false;
   isSearchResult: boolean = false;
+  // Subtree height, only kept up to date by the self-balancing modes
+  height: number = 1;
+  // Only meaningful in red-black mode
+  color: NodeColor = 'red';
+  // Only meaningful in treap mode: heap-ordered, highest at the root
+  priority: number = 0;
 
-  constructor(value: number) {
+  constructor(value: K) {
     this.value = value;
   }
 
-  insert(value: number): TreeNode {
-    if (value < this.value) {
-      if (this.left === null) {
-        this.left = new TreeNode(value);
-      } else {
-        this.left.insert(value);
-      }
-    } else if (value > this.value) {
-      if (this.right === null) {
-        this.right = new TreeNode(value);
-      } else {
-        this.right.insert(value);
-      }
+  insert(value: K, compare: Comparator<K>): TreeNode<K> {
+    const { node, order } = lastOnPath(this, value, compare);
+    if (order < 0) {
+      node.left = new TreeNode(value);
+    } else if (order > 0) {
+      node.right = new TreeNode(value);
     }
     return this;
   }
 
-  search(value: number): TreeNode | null {
-    if (value === this.value) {
-      return this;
-    } else if (value < this.value && this.left) {
-      return this.left.search(value);
-    } else if (value > this.value && this.right) {
-      return this.right.search(value);
-    }
-    return null;
+  search(value: K, compare: Comparator<K>): TreeNode<K> | null {
+    const { node, order } = lastOnPath(this, value, compare);
+    return order === 0 ? node : null;
   }
 
-  inOrderTraversal(callback: (node: TreeNode) => void): void {
-    if (this.left) {
-      this.left.inOrderTraversal(callback);
+  /**
+   * Removes `value` from the subtree rooted at this node and returns the new
+   * subtree root (which may be `null` when the last node is removed).
+   * Two-child nodes are replaced by their in-order successor or predecessor.
+   * With duplicate keys, the first match on the way down is removed.
+   */
+  delete(value: K, compare: Comparator<K>, replacement: DeletionStrategy = 'successor'): TreeNode<K> | null {
+    const { node: target, order, parent } = lastOnPath(this, value, compare);
+    if (order !== 0) return this;
+
+    // Leaf or single child: splice the node out
+    if (!target.left || !target.right) {
+      const child = target.left ?? target.right;
+      if (!parent) return child;
+      parent.replaceChild(target, child);
+      return this;
     }
-    callback(this);
-    if (this.right) {
-      this.right.inOrderTraversal(callback);
+
+    // Two children: copy the replacement's value up and splice it out of its subtree
+    let sourceParent = target;
+    let source = replacement === 'successor' ? target.right : target.left;
+    while (replacement === 'successor' ? source.left : source.right) {
+      sourceParent = source;
+      source = replacement === 'successor' ? source.left! : source.right!;
     }
+    target.value = source.value;
+    target.count = source.count;
+    sourceParent.replaceChild(source, replacement === 'successor' ? source.right : source.left);
+    return this;
   }
 
-  preOrderTraversal(callback: (node: TreeNode) => void): void {
-    callback(this);
-    if (this.left) {
-      this.left.preOrderTraversal(callback);
-    }
-    if (this.right) {
-      this.right.preOrderTraversal(callback);
-    }
+  /**
+   * Rotates this node down to the left; its right child takes its place.
+   * Returns the new subtree root, which the caller must re-attach.
+   */
+  rotateLeft(): TreeNode<K> {
+    const pivot = this.right!;
+    this.right = pivot.left;
+    pivot.left = this;
+    return pivot;
+  }
+
+  /**
+   * Rotates this node down to the right; its left child takes its place.
+   * Returns the new subtree root, which the caller must re-attach.
+   */
+  rotateRight(): TreeNode<K> {
+    const pivot = this.left!;
+    this.left = pivot.right;
+    pivot.right = this;
+    return pivot;
   }
 
-  postOrderTraversal(callback: (node: TreeNode) => void): void {
-    if (this.left) {
-      this.left.postOrderTraversal(callback);
+  /** Points whichever child link held `oldChild` at `newChild` instead. */
+  replaceChild(oldChild: TreeNode<K>, newChild: TreeNode<K> | null): void {
+    if (this.left === oldChild) {
+      this.left = newChild;
+    } else if (this.right === oldChild) {
+      this.right = newChild;
     }
-    if (this.right) {
-      this.right.postOrderTraversal(callback);
+  }
+
+  findMin(): TreeNode<K> {
+    return outermost(this, 'left');
+  }
+
+  findMax(): TreeNode<K> {
+    return outermost(this, 'right');
+  }
+
+  inOrderTraversal(callback: (node: TreeNode<K>) => void): void {
+    this.traverse(callback, (node, visit) => [node.right, visit, node.left]);
+  }
+
+  preOrderTraversal(callback: (node: TreeNode<K>) => void): void {
+    this.traverse(callback, (node, visit) => [node.right, node.left, visit]);
+  }
+
+  postOrderTraversal(callback: (node: TreeNode<K>) => void): void {
+    this.traverse(callback, (node, visit) => [visit, node.right, node.left]);
+  }
+
+  /**
+   * Depth-first walk on an explicit stack, so that degenerate trees thousands
+   * of levels deep cannot overflow the call stack. `expand` lists what to push
+   * for a node, last out first: its children and the marker for visiting it.
+   */
+  private traverse(
+    callback: (node: TreeNode<K>) => void,
+    expand: (node: TreeNode<K>, visit: Visit<K>) => (TreeNode<K> | Visit<K> | null)[]
+  ): void {
+    const stack: (TreeNode<K> | Visit<K>)[] = [this];
+    while (stack.length > 0) {
+      const item = stack.pop()!;
+      if (item instanceof TreeNode) {
+        for (const next of expand(item, { visit: item })) {
+          if (next) stack.push(next);
+        }
+      } else {
+        callback(item.visit);
+      }
     }
-    callback(this);
   }
 
-  getAllNodes(): TreeNode[] {
-    const nodes: TreeNode[] = [this];
-    if (this.left) {
-      nodes.push(...this.left.getAllNodes());
+  /** Deep copy of the subtree, preserving node ids, positions and flags. */
+  clone(): TreeNode<K> {
+    const root = this.copyNode();
+    const stack: [TreeNode<K>, TreeNode<K>][] = [[this, root]];
+    while (stack.length > 0) {
+      const [source, copy] = stack.pop()!;
+      if (source.left) {
+        copy.left = source.left.copyNode();
+        stack.push([source.left, copy.left]);
+      }
+      if (source.right) {
+        copy.right = source.right.copyNode();
+        stack.push([source.right, copy.right]);
+      }
     }
-    if (this.right) {
-      nodes.push(...this.right.getAllNodes());
+    return root;
+  }
+
+  /** Whether `other` has the same shape, keys, counts, colors and priorities as this subtree. */
+  sameStructure(other: TreeNode<K> | null): boolean {
+    const stack: [TreeNode<K> | null, TreeNode<K> | null][] = [[this, other]];
+    while (stack.length > 0) {
+      const [a, b] = stack.pop()!;
+      if (!a || !b) {
+        if (a !== b) return false;
+        continue;
+      }
+      if (a.value !== b.value || a.count !== b.count || a.color !== b.color || a.priority !== b.priority) return false;
+      stack.push([a.left, b.left], [a.right, b.right]);
     }
-    return nodes;
+    return true;
   }
 
-  calculatePositions(x: number = 400, y: number = 50, horizontalSpacing: number = 100): void {
-    // First pass: calculate the minimum width needed for each subtree
-    this.calculateSubtreeWidths();
-    
-    // Second pass: position nodes with proper spacing to avoid overlaps
-    this.positionNodes(x, y, horizontalSpacing);
+  private copyNode(): TreeNode<K> {
+    const copy = new TreeNode(this.value);
+    copy.id = this.id;
+    copy.count = this.count;
+    copy.x = this.x;
+    copy.y = this.y;
+    copy.isHighlighted = this.isHighlighted;
+    copy.isVisited = this.isVisited;
+    copy.isSearchResult = this.isSearchResult;
+    copy.height = this.height;
+    copy.color = this.color;
+    copy.priority = this.priority;
+    return copy;
   }
 
-  private calculateSubtreeWidths(): number {
-    let leftWidth = 0;
-    let rightWidth = 0;
-    
-    if (this.left) {
-      leftWidth = this.left.calculateSubtreeWidths();
-    }
-    if (this.right) {
-      rightWidth = this.right.calculateSubtreeWidths();
-    }
-    
-    // Store the width needed for this subtree
-    return Math.max(1, leftWidth + rightWidth);
-  }
-
-  private positionNodes(x: number, y: number, baseSpacing: number): void {
-    this.x = x;
-    this.y = y;
-
-    // Calculate space needed for each subtree based on their complexity
-    const leftSize = this.left ? this.getSubtreeSize(this.left) : 0;
-    const rightSize = this.right ? this.getSubtreeSize(this.right) : 0;
-    
-    // More compact spacing that still prevents overlaps
-    const minSpacing = 60;  // Reduced minimum distance
-    const spacingMultiplier = Math.max(1, Math.sqrt(leftSize + rightSize) * 0.4); // Reduced multiplier
-    const effectiveSpacing = Math.max(minSpacing, baseSpacing * spacingMultiplier);
-    const verticalSpacing = 80; // More compact vertical spacing
-    
-    if (this.left) {
-      // More compact left positioning
-      const leftSpacing = effectiveSpacing * Math.max(0.7, Math.sqrt(leftSize) * 0.5);
-      const leftX = x - leftSpacing;
-      this.left.positionNodes(leftX, y + verticalSpacing, baseSpacing * 0.85);
+  /** Number of levels in the subtree, counted level by level rather than recursively. */
+  computeHeight(): number {
+    let levels = 0;
+    for (let level: TreeNode<K>[] = [this]; level.length > 0; levels++) {
+      level = level.flatMap(node => [node.left, node.right].filter(child => child !== null));
     }
+    return levels;
+  }
 
-    if (this.right) {
-      // More compact right positioning
-      const rightSpacing = effectiveSpacing * Math.max(0.7, Math.sqrt(rightSize) * 0.5);
-      const rightX = x + rightSpacing;
-      this.right.positionNodes(rightX, y + verticalSpacing, baseSpacing * 0.85);
+  /** All nodes of the subtree in pre-order. */
+  getAllNodes(): TreeNode<K>[] {
+    const nodes: TreeNode<K>[] = [];
+    const stack: TreeNode<K>[] = [this];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      nodes.push(node);
+      if (node.right) stack.push(node.right);
+      if (node.left) stack.push(node.left);
     }
+    return nodes;
   }
 
-  private getSubtreeSize(node: TreeNode | null): number {
-    if (!node) return 0;
-    return 1 + this.getSubtreeSize(node.left) + this.getSubtreeSize(node.right);
+  clearHighlights(): void {
+    for (const node of this.getAllNodes()) {
+      node.isHighlighted = false;
+      node.isVisited = false;
+      node.isSearchResult = false;
+    }
   }
+}
 
+// Marks the point in a depth-first walk where a node itself is visited, as opposed to expanded
+interface Visit<K> {
+  visit: TreeNode<K>;
+}
 
-  clearHighlights(): void {
-    this.isHighlighted = false;
-    this.isVisited = false;
-    this.isSearchResult = false;
-    if (this.left) this.left.clearHighlights();
-    if (this.right) this.right.clearHighlights();
+/**
+ * Follows the search path for `value` from `start`. Ends at the first node
+ * with an equal key (`order` 0) or at the last node before the path falls off
+ * the tree, with `order` telling which side `value` belongs on.
+ */
+const lastOnPath = <K>(
+  start: TreeNode<K>,
+  value: K,
+  compare: Comparator<K>
+): { node: TreeNode<K>; order: number; parent: TreeNode<K> | null } => {
+  let parent: TreeNode<K> | null = null;
+  let node = start;
+  while (true) {
+    const order = compare(value, node.value);
+    const next = order < 0 ? node.left : order > 0 ? node.right : null;
+    if (!next) return { node, order, parent };
+    parent = node;
+    node = next;
   }
-}
\ No newline at end of file
+};
+
+const outermost = <K>(start: TreeNode<K>, side: 'left' | 'right'): TreeNode<K> => {
+  let node = start;
+  while (node[side]) node = node[side]!;
+  return node;
+};
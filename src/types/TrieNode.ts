@@ -0,0 +1,73 @@
+let nextNodeId = 0;
+
+/**
+ * A trie node. The path of edge characters from the root spells a prefix;
+ * `isTerminal` marks prefixes that are complete words. The root has no
+ * character of its own.
+ */
+export class TrieNode {
+  id: number = nextNodeId++;
+  char: string;
+  children: Map<string, TrieNode> = new Map();
+  isTerminal: boolean = false;
+  x: number = 0;
+  y: number = 0;
+  isHighlighted: boolean = false;
+  isVisited: boolean = false;
+  isSearchResult: boolean = false;
+
+  constructor(char: string = '') {
+    this.char = char;
+  }
+
+  get isLeaf(): boolean {
+    return this.children.size === 0;
+  }
+
+  /** Children in alphabetical order of their edge characters. */
+  sortedChildren(): TrieNode[] {
+    return [...this.children.values()].sort((a, b) => a.char.localeCompare(b.char));
+  }
+
+  /** Deep copy of the subtree, preserving node ids, positions and flags. */
+  clone(): TrieNode {
+    const copy = new TrieNode(this.char);
+    copy.id = this.id;
+    copy.isTerminal = this.isTerminal;
+    copy.x = this.x;
+    copy.y = this.y;
+    copy.isHighlighted = this.isHighlighted;
+    copy.isVisited = this.isVisited;
+    copy.isSearchResult = this.isSearchResult;
+    for (const [char, child] of this.children) {
+      copy.children.set(char, child.clone());
+    }
+    return copy;
+  }
+
+  getAllNodes(): TrieNode[] {
+    const nodes: TrieNode[] = [this];
+    for (const child of this.sortedChildren()) {
+      nodes.push(...child.getAllNodes());
+    }
+    return nodes;
+  }
+
+  /** All words of the subtree in alphabetical order, each prefixed with `prefix`. */
+  getAllWords(prefix: string = ''): string[] {
+    const words = this.isTerminal ? [prefix] : [];
+    for (const child of this.sortedChildren()) {
+      words.push(...child.getAllWords(prefix + child.char));
+    }
+    return words;
+  }
+
+  clearHighlights(): void {
+    this.isHighlighted = false;
+    this.isVisited = false;
+    this.isSearchResult = false;
+    for (const child of this.children.values()) {
+      child.clearHighlights();
+    }
+  }
+}